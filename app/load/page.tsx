@@ -0,0 +1,108 @@
+'use client'
+
+import React, { useEffect, useState } from 'react'
+import Link from 'next/link'
+import { useRouter } from 'next/navigation'
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import {
+  deleteSavedSimulation,
+  downloadSnapshot,
+  listSavedSimulations,
+  loadSavedSimulation,
+  saveSimulation,
+  type SavedSimulation,
+} from '@/lib/saved-simulations'
+import { parseSnapshot, snapshotFileName } from '@/lib/simulation/snapshot'
+
+export default function LoadPage() {
+  const router = useRouter()
+  // Read after mount, since local storage is not available during server rendering
+  const [saved, setSaved] = useState<SavedSimulation[] | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    setSaved(listSavedSimulations())
+  }, [])
+
+  const handleImport = async (file: File | undefined) => {
+    if (!file) return
+    try {
+      const entry = await saveSimulation(parseSnapshot(await file.text()))
+      setSaved(listSavedSimulations())
+      setError(null)
+      router.push(`/simulation?snapshot=${entry.id}`)
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'The file could not be imported.')
+    }
+  }
+
+  const handleExport = async (entry: SavedSimulation) => {
+    try {
+      const snapshot = await loadSavedSimulation(entry.id)
+      downloadSnapshot(snapshot, snapshotFileName(snapshot))
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'The simulation could not be exported.')
+    }
+  }
+
+  const handleDelete = async (entry: SavedSimulation) => {
+    await deleteSavedSimulation(entry.id)
+    setSaved(listSavedSimulations())
+  }
+
+  return (
+    <div className="container mx-auto p-4">
+      <Card>
+        <CardHeader>
+          <CardTitle>Load Simulation</CardTitle>
+          <CardDescription>Resume a saved simulation or import one from a file</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="snapshotFile">Import from File (JSON)</Label>
+            <Input
+              id="snapshotFile"
+              type="file"
+              accept=".json,application/json"
+              onChange={(e) => {
+                handleImport(e.target.files?.[0])
+                e.target.value = ''
+              }}
+            />
+          </div>
+          {error && <p role="alert" className="text-sm text-red-600">{error}</p>}
+          {saved === null ? (
+            <p>Loading saved simulations...</p>
+          ) : saved.length === 0 ? (
+            <p className="text-muted-foreground">
+              No saved simulations yet. Use Save on the simulation page, or <Link href="/setup" className="underline">create a new simulation</Link>.
+            </p>
+          ) : (
+            <ul className="divide-y">
+              {saved.map((entry) => (
+                <li key={entry.id} className="flex flex-wrap items-center justify-between gap-2 py-2">
+                  <div>
+                    <p className="font-medium">{entry.name}</p>
+                    <p className="text-sm text-muted-foreground">
+                      {`${new Date(entry.savedAt).toLocaleString()}, ${entry.rows} × ${entry.cols}${entry.layers > 1 ? ` × ${entry.layers} layers` : ''}, step ${entry.timeStep}`}
+                    </p>
+                  </div>
+                  <div className="space-x-2">
+                    <Link href={`/simulation?snapshot=${entry.id}`}>
+                      <Button size="sm">Open</Button>
+                    </Link>
+                    <Button size="sm" variant="outline" onClick={() => handleExport(entry)}>Export</Button>
+                    <Button size="sm" variant="ghost" onClick={() => handleDelete(entry)}>Delete</Button>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
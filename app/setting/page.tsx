@@ -1,32 +1,40 @@
 'use client'
 
-import React from 'react'
+import React, { useEffect, useState } from 'react'
 import { useSettings } from '@/contexts/SettingsContext'
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card"
 import { Label } from "@/components/ui/label"
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
 import { Switch } from "@/components/ui/switch"
 import { Button } from "@/components/ui/button"
+import type { Settings } from '@/lib/settings'
 
 export default function SettingsPage() {
-  const {
-    units,
-    setUnits,
-    moistureUnit,
-    setMoistureUnit,
-    colorScheme,
-    setColorScheme,
-    displayValuesInCells,
-    setDisplayValuesInCells
-  } = useSettings()
+  const { hydrated, units, moistureUnit, colorScheme, displayValuesInCells, updateSettings, resetSettings } = useSettings()
+  // Edits stay local until saved
+  const [draft, setDraft] = useState<Settings>({ units, moistureUnit, colorScheme, displayValuesInCells })
+  const [status, setStatus] = useState<{ message: string; error: boolean } | null>(null)
+
+  // Pick up the saved settings once they are loaded, and changes made in other tabs
+  useEffect(() => {
+    setDraft({ units, moistureUnit, colorScheme, displayValuesInCells })
+  }, [units, moistureUnit, colorScheme, displayValuesInCells])
+
+  const editDraft = (changes: Partial<Settings>) => {
+    setDraft(prev => ({ ...prev, ...changes }))
+    setStatus(null)
+  }
 
   const handleSaveSettings = () => {
-    // Save settings to local storage or other persistent storage
-    localStorage.setItem('units', units)
-    localStorage.setItem('moistureUnit', moistureUnit)
-    localStorage.setItem('colorScheme', colorScheme)
-    localStorage.setItem('displayValuesInCells', displayValuesInCells.toString())
-    // You might want to add some user feedback here, like a toast notification
+    setStatus(updateSettings(draft)
+      ? { message: 'Settings saved.', error: false }
+      : { message: 'Settings could not be saved in this browser and only apply until the page is reloaded.', error: true })
+  }
+
+  const handleResetSettings = () => {
+    setStatus(resetSettings()
+      ? { message: 'Settings reset to defaults.', error: false }
+      : { message: 'Settings were reset, but could not be saved in this browser.', error: true })
   }
 
   return (
@@ -39,7 +47,7 @@ export default function SettingsPage() {
         <CardContent className="space-y-4">
           <div className="space-y-2">
             <Label htmlFor="units">Units</Label>
-            <Select value={units} onValueChange={setUnits}>
+            <Select value={draft.units} onValueChange={(value: Settings['units']) => editDraft({ units: value })}>
               <SelectTrigger id="units">
                 <SelectValue placeholder="Select units" />
               </SelectTrigger>
@@ -51,19 +59,20 @@ export default function SettingsPage() {
           </div>
           <div className="space-y-2">
             <Label htmlFor="moistureUnit">Moisture Unit</Label>
-            <Select value={moistureUnit} onValueChange={setMoistureUnit}>
+            <Select value={draft.moistureUnit} onValueChange={(value: Settings['moistureUnit']) => editDraft({ moistureUnit: value })}>
               <SelectTrigger id="moistureUnit">
                 <SelectValue placeholder="Select moisture unit" />
               </SelectTrigger>
               <SelectContent>
                 <SelectItem value="percentage">Percentage (%)</SelectItem>
                 <SelectItem value="volumetric">Volumetric (m³/m³)</SelectItem>
+                <SelectItem value="depth">{`Water Depth (${draft.units === 'metric' ? 'mm' : 'in'})`}</SelectItem>
               </SelectContent>
             </Select>
           </div>
           <div className="space-y-2">
             <Label htmlFor="colorScheme">Color Scheme</Label>
-            <Select value={colorScheme} onValueChange={setColorScheme}>
+            <Select value={draft.colorScheme} onValueChange={(value: Settings['colorScheme']) => editDraft({ colorScheme: value })}>
               <SelectTrigger id="colorScheme">
                 <SelectValue placeholder="Select color scheme" />
               </SelectTrigger>
@@ -77,14 +86,22 @@ export default function SettingsPage() {
           <div className="flex items-center space-x-2">
             <Switch
               id="displayValuesInCells"
-              checked={displayValuesInCells}
-              onCheckedChange={setDisplayValuesInCells}
+              checked={draft.displayValuesInCells}
+              onCheckedChange={(checked) => editDraft({ displayValuesInCells: checked })}
             />
             <Label htmlFor="displayValuesInCells">Display Values in Cells</Label>
           </div>
         </CardContent>
-        <CardFooter>
-          <Button className="w-full" onClick={handleSaveSettings}>Save Settings</Button>
+        <CardFooter className="flex-col items-stretch space-y-2">
+          <div className="flex space-x-2">
+            <Button className="flex-1" onClick={handleSaveSettings} disabled={!hydrated}>Save Settings</Button>
+            <Button variant="outline" onClick={handleResetSettings} disabled={!hydrated}>Reset to Defaults</Button>
+          </div>
+          {status && (
+            <p role={status.error ? 'alert' : 'status'} className={`text-sm ${status.error ? 'text-red-600' : 'text-muted-foreground'}`}>
+              {status.message}
+            </p>
+          )}
         </CardFooter>
       </Card>
     </div>
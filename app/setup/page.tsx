@@ -1,6 +1,6 @@
 "use client"
 
-import React, { useState } from 'react'
+import React, { useEffect, useState } from 'react'
 import { useRouter } from 'next/navigation'
 import { Label } from '@/components/ui/label'
 import { Input } from '@/components/ui/input'
@@ -8,24 +8,198 @@ import { Button } from '@/components/ui/button'
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip"
+import { MAX_PAINT_CELLS, MapPainter } from '@/components/simulation/map-painter'
+import { cropColors, soilTextureColors } from '@/components/simulation/palettes'
+import { cropIds, crops, encodeCropMap, type CropMapEntry } from '@/lib/simulation/crops'
+import { useSettings, type Units } from '@/contexts/SettingsContext'
+import { CM_PER_INCH, fromDisplayRate, fromDisplaySoilDepth, rateUnit, soilDepthUnit, toDisplayRate } from '@/lib/units'
+import type { FieldEdge } from '@/lib/simulation/field'
+import {
+  defaultInitialMoisture,
+  initialMoistureQuery,
+  moistureDistributions,
+  type MoistureDistribution,
+} from '@/lib/simulation/initial-moisture'
+import { newSeed } from '@/lib/simulation/random'
+import {
+  customSoilParams,
+  encodeSoilMap,
+  formatCustomSoil,
+  soilTextureIds,
+  soilTextures,
+  type SoilTextureId,
+  type VanGenuchtenParams,
+} from '@/lib/simulation/soil'
+import {
+  boundaryQuery,
+  boundaryTypes,
+  defaultBoundary,
+  noFluxBoundaries,
+  setBoundary,
+  type BoundaryType,
+  type FieldBoundaries,
+} from '@/lib/simulation/boundaries'
+import { diffusionQuery, isotropicDiffusion, neighbourStencils, type NeighbourStencil } from '@/lib/simulation/diffusion'
+import {
+  defaultTopography,
+  fieldEdges,
+  parseElevationGrid,
+  topographyQuery,
+  topographySources,
+  type TopographySource,
+} from '@/lib/simulation/topography'
+import {
+  boundaryError,
+  customSoilError,
+  fieldSizeError,
+  numberInputError,
+  parseNumberInput,
+  setupNumbers,
+  type SetupNumber,
+} from '@/lib/simulation/setup-schema'
+
+const customSoilLabels: { [key in keyof VanGenuchtenParams]: string } = {
+  porosity: 'Porosity θs (m³/m³)',
+  residualMoisture: 'Residual Moisture θr (m³/m³)',
+  saturatedConductivity: 'Saturated Conductivity Ks (cm/h)',
+  alpha: 'van Genuchten α (1/cm)',
+  n: 'van Genuchten n',
+}
+
+function InputError({ message }: { message?: string | null }) {
+  return message ? <p className="text-sm text-red-600">{message}</p> : null
+}
 
 export default function SetupPage() {
   const [rows, setRows] = useState('10')
   const [cols, setCols] = useState('10')
-  const [initialMoisture, setInitialMoisture] = useState('uniform')
+  const [initialMoisture, setInitialMoisture] = useState<MoistureDistribution>('uniform')
   const [uniformMoisture, setUniformMoisture] = useState('50')
-  const [units, setUnits] = useState('metric')
+  const [moistureVariation, setMoistureVariation] = useState('50')
+  const [seed, setSeed] = useState('')
+  const [correlationLength, setCorrelationLength] = useState(String(defaultInitialMoisture.correlationLength))
+  const [gradientAngle, setGradientAngle] = useState(String(defaultInitialMoisture.gradientAngle))
+  const [spots, setSpots] = useState(String(defaultInitialMoisture.spots))
+  const [spotRadius, setSpotRadius] = useState(String(defaultInitialMoisture.spotRadius))
+  const [cellSize, setCellSize] = useState('10')
+  const [layers, setLayers] = useState('1')
+  const [layerThickness, setLayerThickness] = useState('10')
+  const [soil, setSoil] = useState<SoilTextureId>('loam')
+  const [customSoil, setCustomSoil] = useState<VanGenuchtenParams>({ ...soilTextures.custom })
+  const [soilMap, setSoilMap] = useState<SoilTextureId[] | null>(null)
+  const [brush, setBrush] = useState<SoilTextureId>('sand')
+  const [crop, setCrop] = useState<CropMapEntry>('none')
+  const [plantingDay, setPlantingDay] = useState('0')
+  const [cropMap, setCropMap] = useState<CropMapEntry[] | null>(null)
+  const [cropBrush, setCropBrush] = useState<CropMapEntry>('maize')
+  const [topography, setTopography] = useState<TopographySource>('flat')
+  const [slope, setSlope] = useState(String(defaultTopography.slope))
+  const [aspect, setAspect] = useState(String(defaultTopography.aspect))
+  const [elevationFile, setElevationFile] = useState<{ name: string; text: string } | null>(null)
+  const [outflowEdge, setOutflowEdge] = useState<FieldEdge | 'none'>('none')
+  const [boundaries, setBoundaries] = useState<FieldBoundaries>(noFluxBoundaries)
+  const [stencil, setStencil] = useState<NeighbourStencil>(isotropicDiffusion.stencil)
+  const [diffusionAlong, setDiffusionAlong] = useState(String(isotropicDiffusion.along))
+  const [diffusionAcross, setDiffusionAcross] = useState(String(isotropicDiffusion.across))
+  const [diffusionAngle, setDiffusionAngle] = useState(String(isotropicDiffusion.angle))
+  const { units, setUnits } = useSettings()
   const router = useRouter()
 
+  // Picked after hydration so the server and client render the same form
+  useEffect(() => setSeed(newSeed()), [])
+
+  const cellCount = (parseInt(rows) || 0) * (parseInt(cols) || 0)
+  // A painted map is dropped as soon as the grid is resized
+  const paintedMap = soilMap && soilMap.length === cellCount ? soilMap : null
+  const paintedCropMap = cropMap && cropMap.length === cellCount ? cropMap : null
+  const usesCrops = crop !== 'none' || (paintedCropMap?.some((entry) => entry !== 'none') ?? false)
+  const usesCustomSoil = soil === 'custom' || (paintedMap?.includes('custom') ?? false)
+  // The file is read again whenever the grid or units change, so its error always matches the form
+  let elevationGrid: Float64Array | null = null
+  let elevationError: string | null = null
+  if (topography === 'grid' && elevationFile) {
+    try {
+      // Files hold metres, or feet in imperial units
+      elevationGrid = parseElevationGrid(elevationFile.text, parseInt(rows) || 0, parseInt(cols) || 0, units === 'metric' ? 100 : 12 * CM_PER_INCH)
+    } catch (error) {
+      elevationError = (error as Error).message
+    }
+  }
+
+  // Inputs on show, checked against the setup schema with lengths in cm
+  const numberInputs: Partial<Record<SetupNumber, string>> = {
+    rows,
+    cols,
+    uniformMoisture,
+    cellSize,
+    layers,
+    layerThickness,
+    diffusionAlong,
+    diffusionAcross,
+    diffusionAngle,
+    ...(initialMoisture !== 'uniform' && { moistureVariation }),
+    ...(initialMoisture === 'correlated' && { correlationLength }),
+    ...(initialMoisture === 'gradient' && { gradientAngle }),
+    ...(initialMoisture === 'spots' && { spots, spotRadius }),
+    ...(usesCrops && { plantingDay }),
+    ...(topography === 'slope' && { slope, aspect }),
+  }
+  const inputErrors: Partial<Record<SetupNumber, string | null>> = {}
+  for (const [key, text] of Object.entries(numberInputs) as [SetupNumber, string][]) {
+    const value = parseNumberInput(text)
+    inputErrors[key] = numberInputError(key, setupNumbers[key].length ? fromDisplaySoilDepth(value, units) : value, units)
+  }
+  const sizeError = fieldSizeError(parseNumberInput(rows) || 0, parseNumberInput(cols) || 0, parseNumberInput(layers) || 0)
+  const soilError = usesCustomSoil ? customSoilError(customSoilParams.map((key) => customSoil[key])) : null
+  const edgeError = (Object.keys(fieldEdges) as FieldEdge[]).some((edge) => boundaryError(edge, boundaries[edge]))
+  const valid = !Object.values(inputErrors).some(Boolean) && !sizeError && !soilError && !edgeError &&
+    !(topography === 'grid' && !elevationGrid)
+
+  const handleElevationFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    if (!file) return
+    file.text().then((text) => setElevationFile({ name: file.name, text }))
+  }
+
   const handleSubmit = (e: React.FormEvent<HTMLFormElement>) => {
     e.preventDefault()
-    const queryParams = new URLSearchParams({
+    if (!valid) return
+    const query = new URLSearchParams({
       rows,
       cols,
-      initialMoisture,
-      uniformMoisture,
-      units,
-    }).toString()
+      ...initialMoistureQuery({
+        distribution: initialMoisture,
+        mean: parseFloat(uniformMoisture) / 100,
+        variation: parseFloat(moistureVariation) / 100,
+        seed,
+        correlationLength: parseFloat(correlationLength),
+        gradientAngle: parseFloat(gradientAngle),
+        spots: parseInt(spots),
+        spotRadius: parseFloat(spotRadius),
+      }),
+      // Lengths are always passed in cm
+      cellSize: String(fromDisplaySoilDepth(parseFloat(cellSize), units)),
+      layers,
+      layerThickness: String(fromDisplaySoilDepth(parseFloat(layerThickness), units)),
+      soil,
+      ...topographyQuery(
+        { source: topography, slope: parseFloat(slope), aspect: parseFloat(aspect), grid: elevationGrid },
+        outflowEdge === 'none' ? null : outflowEdge
+      ),
+      ...boundaryQuery(boundaries),
+      ...diffusionQuery({
+        stencil,
+        along: parseFloat(diffusionAlong),
+        across: parseFloat(diffusionAcross),
+        angle: parseFloat(diffusionAngle),
+      }),
+    })
+    if (usesCustomSoil) query.set('customSoil', formatCustomSoil(customSoil))
+    if (paintedMap) query.set('soilMap', encodeSoilMap(paintedMap))
+    if (crop !== 'none') query.set('crop', crop)
+    if (usesCrops) query.set('plantingDay', plantingDay)
+    if (paintedCropMap) query.set('cropMap', encodeCropMap(paintedCropMap))
+    const queryParams = query.toString()
     router.push(`/simulation?${queryParams}`)
   }
 
@@ -47,8 +221,10 @@ export default function SetupPage() {
                   value={rows}
                   onChange={(e: React.ChangeEvent<HTMLInputElement>) => setRows(e.target.value)}
                   min="1"
+                  max={setupNumbers.rows.max}
                   required
                 />
+                <InputError message={inputErrors.rows} />
               </div>
               <div>
                 <Label htmlFor="cols">Columns</Label>
@@ -58,25 +234,28 @@ export default function SetupPage() {
                   value={cols}
                   onChange={(e: React.ChangeEvent<HTMLInputElement>) => setCols(e.target.value)}
                   min="1"
+                  max={setupNumbers.cols.max}
                   required
                 />
+                <InputError message={inputErrors.cols} />
               </div>
             </div>
             <div>
               <Label htmlFor="initialMoisture">Initial Moisture Distribution</Label>
-              <Select value={initialMoisture} onValueChange={setInitialMoisture}>
+              <Select value={initialMoisture} onValueChange={(value: MoistureDistribution) => setInitialMoisture(value)}>
                 <SelectTrigger id="initialMoisture">
                   <SelectValue placeholder="Select initial moisture distribution" />
                 </SelectTrigger>
                 <SelectContent>
-                  <SelectItem value="uniform">Uniform</SelectItem>
-                  <SelectItem value="random">Random</SelectItem>
+                  {(Object.keys(moistureDistributions) as MoistureDistribution[]).map((id) => (
+                    <SelectItem key={id} value={id}>{moistureDistributions[id]}</SelectItem>
+                  ))}
                 </SelectContent>
               </Select>
             </div>
-            {initialMoisture === 'uniform' && (
+            <div className="grid grid-cols-2 gap-4">
               <div>
-                <Label htmlFor="uniformMoisture">Uniform Moisture (%)</Label>
+                <Label htmlFor="uniformMoisture">{initialMoisture === 'uniform' ? 'Uniform Moisture (%)' : 'Mean Moisture (%)'}</Label>
                 <Input
                   id="uniformMoisture"
                   type="number"
@@ -86,6 +265,97 @@ export default function SetupPage() {
                   max="100"
                   required
                 />
+                <InputError message={inputErrors.uniformMoisture} />
+              </div>
+              {initialMoisture !== 'uniform' && (
+                <div>
+                  <Label htmlFor="moistureVariation">Variation (± %)</Label>
+                  <Input
+                    id="moistureVariation"
+                    type="number"
+                    value={moistureVariation}
+                    onChange={(e: React.ChangeEvent<HTMLInputElement>) => setMoistureVariation(e.target.value)}
+                    min="0"
+                    max="100"
+                    required
+                  />
+                  <InputError message={inputErrors.moistureVariation} />
+                </div>
+              )}
+            </div>
+            {(initialMoisture === 'random' || initialMoisture === 'correlated' || initialMoisture === 'spots') && (
+              <div>
+                <Label htmlFor="seed">Seed</Label>
+                <div className="flex items-center space-x-2">
+                  <Input
+                    id="seed"
+                    value={seed}
+                    onChange={(e: React.ChangeEvent<HTMLInputElement>) => setSeed(e.target.value)}
+                  />
+                  <Button type="button" variant="outline" onClick={() => setSeed(newSeed())}>New Seed</Button>
+                </div>
+                <p className="text-sm text-muted-foreground">The same seed and settings always give the same field, so a shared link reproduces it exactly.</p>
+              </div>
+            )}
+            {initialMoisture === 'correlated' && (
+              <div>
+                <Label htmlFor="correlationLength">Correlation Length (cells)</Label>
+                <Input
+                  id="correlationLength"
+                  type="number"
+                  value={correlationLength}
+                  onChange={(e: React.ChangeEvent<HTMLInputElement>) => setCorrelationLength(e.target.value)}
+                  min="0.1"
+                  step="any"
+                  required
+                />
+                <InputError message={inputErrors.correlationLength} />
+              </div>
+            )}
+            {initialMoisture === 'gradient' && (
+              <div>
+                <Label htmlFor="gradientAngle">Wetter Towards (degrees clockwise from the top)</Label>
+                <Input
+                  id="gradientAngle"
+                  type="number"
+                  value={gradientAngle}
+                  onChange={(e: React.ChangeEvent<HTMLInputElement>) => setGradientAngle(e.target.value)}
+                  min="0"
+                  max="360"
+                  step="any"
+                  required
+                />
+                <InputError message={inputErrors.gradientAngle} />
+              </div>
+            )}
+            {initialMoisture === 'spots' && (
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <Label htmlFor="spots">Number of Spots</Label>
+                  <Input
+                    id="spots"
+                    type="number"
+                    value={spots}
+                    onChange={(e: React.ChangeEvent<HTMLInputElement>) => setSpots(e.target.value)}
+                    min="0"
+                    max="1000"
+                    required
+                  />
+                  <InputError message={inputErrors.spots} />
+                </div>
+                <div>
+                  <Label htmlFor="spotRadius">Spot Radius (cells)</Label>
+                  <Input
+                    id="spotRadius"
+                    type="number"
+                    value={spotRadius}
+                    onChange={(e: React.ChangeEvent<HTMLInputElement>) => setSpotRadius(e.target.value)}
+                    min="0.1"
+                    step="any"
+                    required
+                  />
+                  <InputError message={inputErrors.spotRadius} />
+                </div>
               </div>
             )}
             <div>
@@ -93,7 +363,7 @@ export default function SetupPage() {
               <TooltipProvider>
                 <Tooltip>
                   <TooltipTrigger asChild>
-                    <Select value={units} onValueChange={setUnits}>
+                    <Select value={units} onValueChange={(value: Units) => setUnits(value)}>
                       <SelectTrigger id="units">
                         <SelectValue placeholder="Select units" />
                       </SelectTrigger>
@@ -110,7 +380,385 @@ export default function SetupPage() {
                 </Tooltip>
               </TooltipProvider>
             </div>
-            <Button type="submit">Start Simulation</Button>
+            <div>
+              <Label htmlFor="cellSize">Cell Size ({soilDepthUnit(units)})</Label>
+              <Input
+                id="cellSize"
+                type="number"
+                value={cellSize}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) => setCellSize(e.target.value)}
+                min="1"
+                step="any"
+                required
+              />
+              <InputError message={inputErrors.cellSize} />
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="layers">Soil Layers</Label>
+                <Input
+                  id="layers"
+                  type="number"
+                  value={layers}
+                  onChange={(e: React.ChangeEvent<HTMLInputElement>) => setLayers(e.target.value)}
+                  min="1"
+                  max={setupNumbers.layers.max}
+                  required
+                />
+                <InputError message={inputErrors.layers} />
+              </div>
+              <div>
+                <Label htmlFor="layerThickness">Layer Thickness ({soilDepthUnit(units)})</Label>
+                <Input
+                  id="layerThickness"
+                  type="number"
+                  value={layerThickness}
+                  onChange={(e: React.ChangeEvent<HTMLInputElement>) => setLayerThickness(e.target.value)}
+                  min="0.1"
+                  step="any"
+                  required
+                />
+                <InputError message={inputErrors.layerThickness} />
+              </div>
+            </div>
+            <InputError message={sizeError} />
+            <div>
+              <Label htmlFor="soil">Default Soil Texture</Label>
+              <Select value={soil} onValueChange={(value: SoilTextureId) => setSoil(value)}>
+                <SelectTrigger id="soil">
+                  <SelectValue placeholder="Select soil texture" />
+                </SelectTrigger>
+                <SelectContent>
+                  {soilTextureIds.map((id) => (
+                    <SelectItem key={id} value={id}>{soilTextures[id].name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            {usesCustomSoil && (
+              <div className="grid grid-cols-2 gap-4">
+                {customSoilParams.map((key) => (
+                  <div key={key}>
+                    <Label htmlFor={`customSoil-${key}`}>{customSoilLabels[key]}</Label>
+                    <Input
+                      id={`customSoil-${key}`}
+                      type="number"
+                      value={customSoil[key]}
+                      onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                        setCustomSoil(prev => ({ ...prev, [key]: parseFloat(e.target.value) }))
+                      }
+                      min="0"
+                      step="any"
+                      required
+                    />
+                  </div>
+                ))}
+              </div>
+            )}
+            <InputError message={soilError} />
+            <div className="space-y-2">
+              <Label>Soil Texture Map</Label>
+              {cellCount > 0 && cellCount <= MAX_PAINT_CELLS ? (
+                <>
+                  <div className="flex flex-wrap items-center gap-2">
+                    {soilTextureIds.map((id) => (
+                      <Button
+                        key={id}
+                        type="button"
+                        size="sm"
+                        variant={brush === id ? 'default' : 'outline'}
+                        onClick={() => setBrush(id)}
+                      >
+                        <span className="mr-2 h-3 w-3 rounded-sm" style={{ backgroundColor: soilTextureColors[id] }} />
+                        {soilTextures[id].name}
+                      </Button>
+                    ))}
+                    <Button type="button" size="sm" variant="ghost" onClick={() => setSoilMap(null)} disabled={!paintedMap}>
+                      Clear
+                    </Button>
+                  </div>
+                  <p className="text-sm text-muted-foreground">Click or drag over the grid to paint the selected texture.</p>
+                  <MapPainter
+                    rows={parseInt(rows)}
+                    cols={parseInt(cols)}
+                    map={paintedMap ?? Array(cellCount).fill(soil)}
+                    brush={brush}
+                    colors={soilTextureColors}
+                    onChange={setSoilMap}
+                  />
+                </>
+              ) : (
+                <p className="text-sm text-muted-foreground">
+                  Texture painting is available for grids of up to {MAX_PAINT_CELLS} cells; larger grids use the default texture.
+                </p>
+              )}
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="crop">Default Crop</Label>
+              <Select value={crop} onValueChange={(value: CropMapEntry) => setCrop(value)}>
+                <SelectTrigger id="crop">
+                  <SelectValue placeholder="Select crop" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">None</SelectItem>
+                  {cropIds.map((id) => (
+                    <SelectItem key={id} value={id}>{crops[id].name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            {usesCrops && (
+              <div className="space-y-2">
+                <Label htmlFor="plantingDay">Planting Day</Label>
+                <Input
+                  id="plantingDay"
+                  type="number"
+                  min="-365"
+                  max="365"
+                  step="1"
+                  value={plantingDay}
+                  onChange={(e) => setPlantingDay(e.target.value)}
+                  required
+                />
+                <InputError message={inputErrors.plantingDay} />
+                <p className="text-sm text-muted-foreground">Days from the start of the simulation; negative days plant before it.</p>
+              </div>
+            )}
+            <div className="space-y-2">
+              <Label>Crop Map</Label>
+              {cellCount > 0 && cellCount <= MAX_PAINT_CELLS ? (
+                <>
+                  <div className="flex flex-wrap items-center gap-2">
+                    {(['none', ...cropIds] as CropMapEntry[]).map((id) => (
+                      <Button
+                        key={id}
+                        type="button"
+                        size="sm"
+                        variant={cropBrush === id ? 'default' : 'outline'}
+                        onClick={() => setCropBrush(id)}
+                      >
+                        <span className="mr-2 h-3 w-3 rounded-sm" style={{ backgroundColor: cropColors[id] }} />
+                        {id === 'none' ? 'None' : crops[id].name}
+                      </Button>
+                    ))}
+                    <Button type="button" size="sm" variant="ghost" onClick={() => setCropMap(null)} disabled={!paintedCropMap}>
+                      Clear
+                    </Button>
+                  </div>
+                  <p className="text-sm text-muted-foreground">Click or drag over the grid to plant the selected crop.</p>
+                  <MapPainter
+                    rows={parseInt(rows)}
+                    cols={parseInt(cols)}
+                    map={paintedCropMap ?? Array(cellCount).fill(crop)}
+                    brush={cropBrush}
+                    colors={cropColors}
+                    onChange={setCropMap}
+                  />
+                </>
+              ) : (
+                <p className="text-sm text-muted-foreground">
+                  Crop painting is available for grids of up to {MAX_PAINT_CELLS} cells; larger grids use the default crop.
+                </p>
+              )}
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="topography">Topography</Label>
+              <Select value={topography} onValueChange={(value: TopographySource) => setTopography(value)}>
+                <SelectTrigger id="topography">
+                  <SelectValue placeholder="Select topography" />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(topographySources) as TopographySource[]).map((id) => (
+                    <SelectItem key={id} value={id}>{topographySources[id]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            {topography === 'slope' && (
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <Label htmlFor="slope">Slope (%)</Label>
+                  <Input
+                    id="slope"
+                    type="number"
+                    value={slope}
+                    onChange={(e: React.ChangeEvent<HTMLInputElement>) => setSlope(e.target.value)}
+                    min="0"
+                    max="100"
+                    step="any"
+                    required
+                  />
+                  <InputError message={inputErrors.slope} />
+                </div>
+                <div>
+                  <Label htmlFor="aspect">Downhill Towards (degrees clockwise from the top)</Label>
+                  <Input
+                    id="aspect"
+                    type="number"
+                    value={aspect}
+                    onChange={(e: React.ChangeEvent<HTMLInputElement>) => setAspect(e.target.value)}
+                    min="0"
+                    max="360"
+                    step="any"
+                    required
+                  />
+                  <InputError message={inputErrors.aspect} />
+                </div>
+              </div>
+            )}
+            {topography === 'grid' && (
+              <div className="space-y-2">
+                <Label htmlFor="elevationFile">Elevation Grid ({units === 'metric' ? 'm' : 'ft'})</Label>
+                <Input id="elevationFile" type="file" accept=".csv,.txt,text/csv,text/plain" onChange={handleElevationFile} />
+                <p className="text-sm text-muted-foreground">
+                  {`One line per row of the grid, with ${cols || 0} values separated by commas or spaces.`}
+                  {elevationFile && !elevationError && ` Loaded ${elevationFile.name}.`}
+                </p>
+                {!elevationFile && <p className="text-sm text-red-600">Choose a file to import.</p>}
+                {elevationError && <p className="text-sm text-red-600">{`${elevationFile?.name}: ${elevationError}`}</p>}
+              </div>
+            )}
+            <div className="space-y-2">
+              <Label htmlFor="outflowEdge">Runoff Outflow Edge</Label>
+              <Select value={outflowEdge} onValueChange={(value: FieldEdge | 'none') => setOutflowEdge(value)}>
+                <SelectTrigger id="outflowEdge">
+                  <SelectValue placeholder="Select outflow edge" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">None</SelectItem>
+                  {(Object.keys(fieldEdges) as FieldEdge[]).map((edge) => (
+                    <SelectItem key={edge} value={edge}>{fieldEdges[edge]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-sm text-muted-foreground">
+                Water ponding beyond what the soil can take in runs downhill, and leaves the field over this edge. With none, it stays ponded in the low spots.
+              </p>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="stencil">Lateral Flow Neighbours</Label>
+              <Select value={stencil} onValueChange={(value: NeighbourStencil) => setStencil(value)}>
+                <SelectTrigger id="stencil">
+                  <SelectValue placeholder="Select neighbours" />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(neighbourStencils) as NeighbourStencil[]).map((id) => (
+                    <SelectItem key={id} value={id}>{neighbourStencils[id]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="grid grid-cols-3 gap-4">
+              <div>
+                <Label htmlFor="diffusionAlong">Diffusivity × Along</Label>
+                <Input
+                  id="diffusionAlong"
+                  type="number"
+                  value={diffusionAlong}
+                  onChange={(e: React.ChangeEvent<HTMLInputElement>) => setDiffusionAlong(e.target.value)}
+                  min="0"
+                  step="any"
+                  required
+                />
+                <InputError message={inputErrors.diffusionAlong} />
+              </div>
+              <div>
+                <Label htmlFor="diffusionAcross">Diffusivity × Across</Label>
+                <Input
+                  id="diffusionAcross"
+                  type="number"
+                  value={diffusionAcross}
+                  onChange={(e: React.ChangeEvent<HTMLInputElement>) => setDiffusionAcross(e.target.value)}
+                  min="0"
+                  step="any"
+                  required
+                />
+                <InputError message={inputErrors.diffusionAcross} />
+              </div>
+              <div>
+                <Label htmlFor="diffusionAngle">Along Direction (degrees clockwise from the rows)</Label>
+                <Input
+                  id="diffusionAngle"
+                  type="number"
+                  value={diffusionAngle}
+                  onChange={(e: React.ChangeEvent<HTMLInputElement>) => setDiffusionAngle(e.target.value)}
+                  min="0"
+                  max="180"
+                  step="any"
+                  required
+                />
+                <InputError message={inputErrors.diffusionAngle} />
+              </div>
+            </div>
+            <p className="text-sm text-muted-foreground">
+              Lateral flow is multiplied by the first factor along the given direction and by the second across it: at 0°, along the rows and down the columns, e.g. for furrows or tile lines.
+              {stencil === 'four' && parseFloat(diffusionAngle) % 90 !== 0 && parseFloat(diffusionAlong) !== parseFloat(diffusionAcross) &&
+                ' Directions between the rows and columns need 8 neighbours; with 4 only the row and column parts apply.'}
+              {' Individual cells can be given their own multiplier with the paint tools once the simulation runs.'}
+            </p>
+            <div className="space-y-2">
+              <Label>Soil Water at the Edges</Label>
+              <div className="grid grid-cols-2 gap-4">
+                {(Object.keys(fieldEdges) as FieldEdge[]).map((edge) => {
+                  const boundary = boundaries[edge]
+                  return (
+                    <div key={edge} className="space-y-2">
+                      <Label htmlFor={`${edge}Boundary`}>{`${fieldEdges[edge]} Edge`}</Label>
+                      <Select
+                        value={boundary.type}
+                        onValueChange={(value: BoundaryType) => setBoundaries(prev => setBoundary(prev, edge, defaultBoundary(value)))}
+                      >
+                        <SelectTrigger id={`${edge}Boundary`}>
+                          <SelectValue placeholder="Select boundary" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {(Object.keys(boundaryTypes) as BoundaryType[]).map((type) => (
+                            <SelectItem key={type} value={type}>{boundaryTypes[type]}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      {boundary.type === 'fixedMoisture' && (
+                        <div>
+                          <Label htmlFor={`${edge}BoundaryMoisture`}>Moisture Beyond the Edge (%)</Label>
+                          <Input
+                            id={`${edge}BoundaryMoisture`}
+                            type="number"
+                            value={boundary.moisture * 100}
+                            onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                              setBoundaries(prev => setBoundary(prev, edge, { type: 'fixedMoisture', moisture: parseFloat(e.target.value) / 100 }))
+                            }
+                            min="0"
+                            max="100"
+                            step="any"
+                            required
+                          />
+                        </div>
+                      )}
+                      {boundary.type === 'fixedFlux' && (
+                        <div>
+                          <Label htmlFor={`${edge}BoundaryFlux`}>Seepage In ({rateUnit(units)}, negative out)</Label>
+                          <Input
+                            id={`${edge}BoundaryFlux`}
+                            type="number"
+                            value={toDisplayRate(boundary.flux, units)}
+                            onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                              setBoundaries(prev => setBoundary(prev, edge, { type: 'fixedFlux', flux: fromDisplayRate(parseFloat(e.target.value), units) }))
+                            }
+                            step="any"
+                            required
+                          />
+                        </div>
+                      )}
+                      <InputError message={boundaryError(edge, boundary)} />
+                    </div>
+                  )
+                })}
+              </div>
+              <p className="text-sm text-muted-foreground">
+                No flux keeps soil water in. Fixed moisture holds the soil beyond the edge wet or dry, like a canal or ditch. Fixed flux seeps water in or out through every layer. Periodic edges come in opposite pairs, and water leaving over one comes back in over the other.
+              </p>
+            </div>
+            <Button type="submit" disabled={!valid}>Start Simulation</Button>
           </form>
         </CardContent>
       </Card>
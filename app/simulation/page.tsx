@@ -1,6 +1,7 @@
 'use client'
 
 import React, { useState, useEffect, useCallback, useMemo, Suspense } from 'react'
+import Link from 'next/link'
 import { useSearchParams } from 'next/navigation'
 import { Button } from "@/components/ui/button"
 import { Slider } from "@/components/ui/slider"
@@ -11,69 +12,119 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
 import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip as RechartsTooltip, Legend, ResponsiveContainer } from 'recharts'
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog"
-import { Card, CardContent } from "@/components/ui/card"
-import { Info, X } from "lucide-react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { AlertTriangle, Info, X } from "lucide-react"
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip"
 import dynamic from 'next/dynamic'
-import { useSettings } from '@/contexts/SettingsContext'
+import { useSettings, useViewSettings, ViewSettingsProvider, type ColorScheme, type MoistureUnit } from '@/contexts/SettingsContext'
+import { createSimulation } from '@/lib/simulation/engine'
+import { MAX_SUBSTEPS } from '@/lib/simulation/stability'
+import {
+  cellIndex,
+  cloneField,
+  getCell,
+  type Field,
+  getSoilTexture,
+  layerDepth,
+  plantField,
+  updateCell,
+} from '@/lib/simulation/field'
+import {
+  hydraulicConductivity,
+  matricHead,
+  soilTextures,
+} from '@/lib/simulation/soil'
+import { maxParams, MAX_TIME_STEP, MIN_TIME_STEP, type Cell, type SimulationParams } from '@/lib/simulation/types'
+import { WaterBudgetPanel } from '@/components/simulation/water-budget-panel'
+import { CrossSectionView } from '@/components/simulation/cross-section-view'
+import { WeatherControl } from '@/components/simulation/weather-control'
+import { formatWeatherTime, timeAtHours, type ReferenceETMethod, type WeatherSeries } from '@/lib/simulation/weather'
+import { defaultSite, referenceETMethod, withReferenceET, type SiteInfo } from '@/lib/simulation/evapotranspiration'
+import { CropControl } from '@/components/simulation/crop-control'
+import { GridCanvas } from '@/components/simulation/grid-canvas'
+import { PaintToolbar } from '@/components/simulation/paint-toolbar'
+import { usePaintTools } from '@/components/simulation/use-paint-tools'
+import { useSimulationWorker } from '@/components/simulation/use-simulation-worker'
+import { getColorForMoisture, probeColors, runoffColor, valveColors } from '@/components/simulation/palettes'
+import { describeController, ZonePanel } from '@/components/simulation/zone-panel'
+import { SupplyPanel } from '@/components/simulation/supply-panel'
+import { SensorPanel } from '@/components/simulation/sensor-panel'
+import { toggleProbe, type SensorNetwork } from '@/lib/simulation/sensors'
+import type { WaterSupply } from '@/lib/simulation/supply'
+import type { IrrigationZone } from '@/lib/simulation/zones'
+import { crops, growthStage, type CropId } from '@/lib/simulation/crops'
+import { columnYieldLoss, depletionAtSaturation, rootZoneAt } from '@/lib/simulation/rootzone'
+import { SNAPSHOT_FORMAT, SNAPSHOT_VERSION, snapshotFileName, type SimulationSnapshot } from '@/lib/simulation/snapshot'
+import { downloadSnapshot, loadSavedSimulation, saveSimulation } from '@/lib/saved-simulations'
+import { createSetupField, parseSetup } from '@/lib/simulation/setup-schema'
+import { applyScenario, captureScenario, decodeScenario, scenarioInHash, scenarioUrl, type Scenario } from '@/lib/simulation/scenario'
+import { simulationSpeeds, type SimulationSpeed } from '@/lib/simulation/worker-protocol'
+import {
+  cellMoistureBasis,
+  columnMoistureBasis,
+  formatMoisture as formatMoistureIn,
+  formatSoilDepth,
+  formatWaterDepth,
+  fromDisplayMoisture,
+  fromDisplayRate,
+  moistureStep,
+  moistureUnitLabel,
+  moistureUnitName,
+  rateUnit,
+  roundMoisture,
+  soilDepthUnit,
+  toDisplayMoisture,
+  toDisplayRate,
+  toDisplaySoilDepth,
+  type MoistureBasis,
+} from '@/lib/units'
 
 const BlockMath = dynamic(() => import('react-katex').then((mod) => mod.BlockMath), { ssr: false })
 
-interface Cell {
-  moisture: number
-  tapStatus: boolean
-  overrideTap: boolean
-}
-
-interface SimulationParams {
-  diffusionCoefficient: number
-  evapotranspirationRate: number
-  irrigationRate: number
-  moistureThreshold: number
-}
-
-const getColorForMoisture = (moisture: number, colorScheme: string): string => {
-  switch (colorScheme) {
-    case 'blue':
-      const lightness = 100 - moisture * 50 // 100% to 50%
-      return `hsl(240, 100%, ${lightness}%)`
-    case 'grayscale':
-      const gray = 100 - moisture * 100
-      return `hsl(0, 0%, ${gray}%)`
-    default:
-      const hue = moisture * 240 // 0 (red) to 240 (blue)
-      return `hsl(${hue}, 100%, 50%)`
-  }
-}
-
-const getTextColorForMoisture = (moisture: number): string => {
-  return moisture > 0.5 ? 'white' : 'black'
-}
-
 const parameterExplanations: { [key in keyof SimulationParams]: string } = {
-  diffusionCoefficient: "Diffusion Coefficient (D): Controls the rate at which moisture moves between cells. Higher values mean faster diffusion.",
-  evapotranspirationRate: "Evapotranspiration Rate (ET₀): Represents the rate at which water is lost from the soil due to evaporation and plant transpiration.",
-  irrigationRate: "Irrigation Rate: The amount of water added to the soil when irrigation is applied.",
-  moistureThreshold: "Moisture Threshold (θₜ): The soil moisture level below which irrigation is triggered.",
+  evapotranspirationRate: "Evapotranspiration Rate (ET₀): Represents the rate at which water is lost from the soil due to evaporation and plant transpiration. Cells without a crop lose ET₀ from the surface layer; cropped cells lose Ks × Kc × ET₀ from their root zone.",
+  irrigationRate: "Irrigation Rate: The depth of water applied per hour to the surface of cells outside irrigation zones whose tap is on, and of any cell whose tap is forced on. Zones apply their own flow rate. A limited water supply may deliver less than either. Water arriving faster than the soil can take it in ponds and runs downhill.",
+  moistureThreshold: "Moisture Threshold: The saturation of the soil profile below which the taps of cells outside irrigation zones open, shown for the default soil over the whole profile. It is also the threshold new zones start with.",
 }
 
 const parameterFormulas: { [key in keyof SimulationParams]: string } = {
-  diffusionCoefficient: `\\Delta\\theta_{\\text{movement}} = D \\times \\sum_{\\text{neighbors}} (\\theta_{\\text{neighbor}} - \\theta_{i,j})`,
-  evapotranspirationRate: `\\Delta\\theta = -ET_0 \\times \\Delta t`,
-  irrigationRate: `\\Delta\\theta = I_r \\times \\Delta t`,
+  evapotranspirationRate: `ET_a = K_s \\times K_c \\times ET_0`,
+  irrigationRate: `\\Delta\\theta = \\frac{I_r \\times \\Delta t}{\\Delta z_1}`,
   moistureThreshold: '', // No formula for this parameter
 }
 
+// Shown for evapotranspiration instead of the parameter when weather data supplies ET₀
+const referenceETExplanations: Record<ReferenceETMethod, { explanation: string; formula: string }> = {
+  'measured': {
+    explanation: 'Evapotranspiration: ET₀ is read from the weather file and scaled by the Kc and Ks of each cropped cell. The rate parameter is not used.',
+    formula: `ET_a = K_s \\times K_c \\times ET_0`,
+  },
+  'penman-monteith': {
+    explanation: 'Evapotranspiration: ET₀ is computed from the weather file with FAO-56 Penman–Monteith (900 for daily records, 37 for hourly ones) and scaled by the Kc and Ks of each cropped cell. The rate parameter is not used.',
+    formula: `\\begin{gathered}ET_0 = \\frac{0.408\\,\\Delta (R_n - G) + \\gamma \\frac{900}{T + 273} u_2 (e_s - e_a)}{\\Delta + \\gamma (1 + 0.34\\,u_2)} \\\\ ET_a = K_s \\times K_c \\times ET_0\\end{gathered}`,
+  },
+  'hargreaves': {
+    explanation: 'Evapotranspiration: the weather file only has temperature, so ET₀ is estimated with the Hargreaves equation and scaled by the Kc and Ks of each cropped cell. The rate parameter is not used.',
+    formula: `\\begin{gathered}ET_0 = 0.0023\\,(T_{mean} + 17.8)\\sqrt{T_{max} - T_{min}}\\;0.408\\,R_a \\\\ ET_a = K_s \\times K_c \\times ET_0\\end{gathered}`,
+  },
+}
+
 function SimulationContent() {
   const searchParams = useSearchParams()
-  const { units, setUnits, moistureUnit, setMoistureUnit, colorScheme, setColorScheme, displayValuesInCells, setDisplayValuesInCells } = useSettings()
-  const [grid, setGrid] = useState<Cell[][]>([])
-  const [isRunning, setIsRunning] = useState(false)
-  const [timeStep, setTimeStep] = useState(0)
+  const {
+    units,
+    setUnits,
+    moistureUnit,
+    setMoistureUnit,
+    colorScheme,
+    setColorScheme,
+    displayValuesInCells,
+    setDisplayValuesInCells,
+  } = useSettings()
+  const showSettings = useViewSettings()
   const [params, setParams] = useState<SimulationParams>({
-    diffusionCoefficient: 0.1,
-    evapotranspirationRate: 0.02,
-    irrigationRate: 0.05,
+    evapotranspirationRate: 0.2,
+    irrigationRate: 5,
     moistureThreshold: 0.2,
   })
   const [selectedCell, setSelectedCell] = useState<{ row: number; col: number } | null>(null)
@@ -81,122 +132,370 @@ function SimulationContent() {
   const [showCellDetails, setShowCellDetails] = useState(false)
   const [timeStepSize, setTimeStepSize] = useState(1) // Default to 1 hour
   const [openInfoPanel, setOpenInfoPanel] = useState<keyof SimulationParams | null>(null)
+  const [displayLayer, setDisplayLayer] = useState(0)
+  const [weather, setWeather] = useState<WeatherSeries | null>(null)
+  const [site, setSite] = useState<SiteInfo>(defaultSite)
+  const [snapshotName, setSnapshotName] = useState('')
+  const [saveStatus, setSaveStatus] = useState<string | null>(null)
+  const [loadError, setLoadError] = useState<string | null>(null)
+  const [speed, setSpeed] = useState<SimulationSpeed>('1x')
+  const [runSteps, setRunSteps] = useState(100)
+  const [runUntil, setRunUntil] = useState(24)
+  const snapshotId = searchParams.get('snapshot')
+  // Scenario from a shared link, null without one and undefined until the hash has been read
+  const [scenario, setScenario] = useState<Scenario | null | undefined>(undefined)
+  const [linkStatus, setLinkStatus] = useState<string | null>(null)
+  // Setup parameters the field is built from, carried by the scenario when there is one
+  const setupParams = useMemo(() => scenario ? new URLSearchParams(scenario.setup) : searchParams, [scenario, searchParams])
+  // Real timestamps once a weather series is attached, bare step numbers otherwise
+  const drivingWeather = useMemo(() => weather && withReferenceET(weather, site), [weather, site])
+  const {
+    simulation,
+    view,
+    diagnostics,
+    running: isRunning,
+    error: engineError,
+    load: loadSimulation,
+    update: updateSimulation,
+    run,
+    pause,
+    setSpeed: setEngineSpeed,
+  } = useSimulationWorker({ params, timeStepSize, weather: drivingWeather })
+  const field = simulation?.field ?? null
+  const unstableTime = simulation?.unstableTime ?? 0
+  const updateField = useCallback((change: (field: Field) => Field) => {
+    updateSimulation(prev => ({ ...prev, field: change(prev.field) }))
+  }, [updateSimulation])
+  const paint = usePaintTools({ field, layer: displayLayer, update: updateField })
+  const { clearHistory: clearPaintHistory } = paint
 
-  const initializeGrid = useCallback(() => {
-    const rows = parseInt(searchParams.get('rows') || '10')
-    const cols = parseInt(searchParams.get('cols') || '10')
-    const initialMoisture = searchParams.get('initialMoisture') || 'uniform'
-    const uniformMoisture = parseFloat(searchParams.get('uniformMoisture') || '50') / 100
-
-    return Array(rows).fill(null).map(() =>
-      Array(cols).fill(null).map(() => ({
-        moisture: initialMoisture === 'uniform' ? uniformMoisture : Math.random(),
-        tapStatus: false,
-        overrideTap: false
-      }))
-    )
-  }, [searchParams])
+  // Checked against the setup schema; a link that fails it shows what is wrong instead of a field
+  const setup = useMemo(() => parseSetup(setupParams), [setupParams])
+  const setupErrors = useMemo(() => snapshotId ? [] : setup.errors, [snapshotId, setup])
+
+  const defaultSoil = useMemo(() => {
+    const id = setup.inputs.soil
+    return id === 'custom' ? setup.inputs.customSoil : soilTextures[id]
+  }, [setup])
+
+  const initializeField = useCallback(() => createSetupField(setup.inputs), [setup])
+
+  const restoreSnapshot = useCallback((snapshot: SimulationSnapshot) => {
+    loadSimulation(snapshot.simulation)
+    setParams(snapshot.params)
+    setTimeStepSize(snapshot.timeStepSize)
+    setSelectedCell(snapshot.history.selectedCell)
+    setMoistureHistory(snapshot.history.moisture)
+    setDisplayLayer(snapshot.displayLayer)
+    setWeather(snapshot.weather)
+    setSite(snapshot.site)
+    setSnapshotName(snapshot.name)
+    // The file's display settings apply to this view, not to the user's saved preferences
+    showSettings(snapshot.settings)
+  }, [loadSimulation, showSettings])
 
   useEffect(() => {
-    setGrid(initializeGrid())
-  }, [initializeGrid])
-
-  const updateGrid = useCallback(() => {
-    setGrid(prevGrid => {
-      const newGrid = prevGrid.map(row => [...row])
-      for (let i = 0; i < newGrid.length; i++) {
-        for (let j = 0; j < newGrid[i].length; j++) {
-          if (!newGrid[i][j].overrideTap) {
-            newGrid[i][j].tapStatus = newGrid[i][j].moisture < params.moistureThreshold
-          }
-
-          if (newGrid[i][j].tapStatus) {
-            newGrid[i][j].moisture += params.irrigationRate * timeStepSize
-          } else {
-            newGrid[i][j].moisture -= params.evapotranspirationRate * timeStepSize
-          }
-
-          const neighbors = [
-            prevGrid[i - 1]?.[j],
-            prevGrid[i + 1]?.[j],
-            prevGrid[i][j - 1],
-            prevGrid[i][j + 1],
-          ].filter(Boolean)
-
-          let deltaMoisture = 0
-          neighbors.forEach((neighbor) => {
-            deltaMoisture += params.diffusionCoefficient * (neighbor.moisture - prevGrid[i][j].moisture)
-          })
-
-          newGrid[i][j].moisture += deltaMoisture * timeStepSize
-          newGrid[i][j].moisture = Math.max(0, Math.min(1, newGrid[i][j].moisture))
-        }
+    const readHash = () => {
+      const encoded = scenarioInHash(window.location.hash)
+      if (!encoded) {
+        setScenario(null)
+        return
       }
-      return newGrid
-    })
+      decodeScenario(encoded).then(setScenario, (e) => {
+        setLoadError(e instanceof Error ? e.message : 'The link could not be read.')
+      })
+    }
+    readHash()
+    window.addEventListener('hashchange', readHash)
+    return () => window.removeEventListener('hashchange', readHash)
+  }, [])
+
+  // Starts from the saved snapshot when one is named in the URL, from a shared scenario when the link has one,
+  // and from the setup parameters otherwise
+  const startSimulation = useCallback(() => {
+    clearPaintHistory()
+    if (snapshotId) {
+      loadSavedSimulation(snapshotId).then(restoreSnapshot, (e) => {
+        setLoadError(e instanceof Error ? e.message : 'The saved simulation could not be loaded.')
+      })
+    } else if (setupErrors.length > 0) {
+      return
+    } else if (scenario) {
+      try {
+        const field = applyScenario(initializeField(), scenario)
+        loadSimulation(createSimulation(field, scenario.zones, scenario.supply, scenario.sensors))
+        setParams(scenario.params)
+        setTimeStepSize(scenario.timeStepSize)
+        setSite(scenario.site)
+        setDisplayLayer(0)
+      } catch (e) {
+        setLoadError(e instanceof Error ? e.message : 'The link could not be read.')
+      }
+    } else if (scenario === null) {
+      loadSimulation(createSimulation(initializeField()))
+      setDisplayLayer(0)
+    }
+  }, [snapshotId, setupErrors, scenario, restoreSnapshot, loadSimulation, initializeField, clearPaintHistory])
+
+  useEffect(startSimulation, [startSimulation])
+
+  const timeStep = simulation?.timeStep ?? 0
+  const etMethod = drivingWeather ? referenceETMethod(drivingWeather) : null
+  const currentTime = weather ? timeAtHours(weather, simulation?.elapsed ?? 0) : timeStep
+
+  const editCell = useCallback((row: number, col: number, changes: Partial<Cell>) => {
+    updateSimulation(prev => ({ ...prev, field: updateCell(prev.field, row, col, changes, displayLayer) }))
+  }, [updateSimulation, displayLayer])
 
-    setTimeStep(prev => prev + 1)
-  }, [params, timeStepSize])
+  const plantAllCells = useCallback((crop: CropId | null, plantingDay: number) => {
+    updateSimulation(prev => ({ ...prev, field: plantField(prev.field, crop, plantingDay) }))
+  }, [updateSimulation])
 
   useEffect(() => {
-    if (selectedCell && grid.length > 0) {
+    if (selectedCell && field) {
       const { row, col } = selectedCell
+      // A point for the same time (an edit, or a restored snapshot) replaces the last one
       setMoistureHistory(prev => [
-        ...prev,
-        { time: timeStep, moisture: grid[row][col].moisture }
+        ...(prev[prev.length - 1]?.time === currentTime ? prev.slice(0, -1) : prev),
+        { time: currentTime, moisture: getCell(field, row, col, displayLayer).moisture }
       ].slice(-20))
     }
-  }, [selectedCell, timeStep, grid])
+  }, [selectedCell, currentTime, field, displayLayer])
 
-  useEffect(() => {
-    let intervalId: NodeJS.Timeout | null = null
+  const changeZones = useCallback((zones: IrrigationZone[]) => {
+    updateSimulation(prev => ({ ...prev, zones }))
+  }, [updateSimulation])
 
-    if (isRunning) {
-      intervalId = setInterval(updateGrid, 1000)
-    }
+  const changeSupply = useCallback((supply: WaterSupply) => {
+    updateSimulation(prev => ({ ...prev, supply }))
+  }, [updateSimulation])
 
-    return () => {
-      if (intervalId) clearInterval(intervalId)
-    }
-  }, [isRunning, updateGrid])
+  const changeSensors = useCallback((sensors: SensorNetwork) => {
+    updateSimulation(prev => ({ ...prev, sensors }))
+  }, [updateSimulation])
+
+  const toggleProbeAt = useCallback((column: number) => {
+    updateSimulation(prev => ({ ...prev, sensors: toggleProbe(prev.sensors, column) }))
+  }, [updateSimulation])
+
+  const formatElapsed = useCallback((elapsed: number) =>
+    weather ? `${formatWeatherTime(timeAtHours(weather, elapsed))} UTC` : `${elapsed.toFixed(1)} h`
+  , [weather])
+
+  const deleteZone = useCallback((id: number) => {
+    updateSimulation(prev => {
+      const next = cloneField(prev.field)
+      next.zone.forEach((zone, column) => { if (zone === id) next.zone[column] = 0 })
+      const valves = { ...prev.valves }
+      delete valves[id]
+      return { ...prev, field: next, zones: prev.zones.filter(zone => zone.id !== id), valves }
+    })
+  }, [updateSimulation])
+
+  const toggleSensor = useCallback((id: number, column: number) => {
+    updateSimulation(prev => ({
+      ...prev,
+      zones: prev.zones.map(zone => zone.id !== id ? zone : {
+        ...zone,
+        sensors: zone.sensors.includes(column) ? zone.sensors.filter(sensor => sensor !== column) : [...zone.sensors, column],
+      }),
+    }))
+  }, [updateSimulation])
 
-  const toggleSimulation = useCallback(() => setIsRunning(prev => !prev), [])
+  // Zones are outlined in the color of their valve; only cells outside them show a tap of their own.
+  // This only goes over the zones, as the canvas reads the zone of each cell from the field itself
+  const zoneOutlines = useMemo(() => {
+    if (!simulation || simulation.zones.length === 0) return undefined
+    const colors: Record<number, string> = {}
+    simulation.zones.forEach(zone => {
+      colors[zone.id] = simulation.valves[zone.id]?.open ? valveColors.open : valveColors.closed
+    })
+    return { map: simulation.field.zone, colors }
+  }, [simulation])
+
+  // What the probes make of the field and the taps outside zones, worked out in the worker
+  const sensedError = view?.sensedError ?? null
+  const unzonedTaps = view?.unzonedTaps ?? null
+
+  const handleWeatherChange = useCallback((series: WeatherSeries | null) => {
+    setWeather(series)
+    setMoistureHistory([])
+  }, [])
+
+  const toggleSimulation = useCallback(() => {
+    if (isRunning) pause()
+    else run(speed)
+  }, [isRunning, pause, run, speed])
+
+  const changeSpeed = useCallback((value: SimulationSpeed) => {
+    setSpeed(value)
+    setEngineSpeed(value)
+  }, [setEngineSpeed])
+
+  const stepForward = useCallback(() => run('max', { steps: 1 }), [run])
 
   const resetSimulation = useCallback(() => {
-    setIsRunning(false)
-    setTimeStep(0)
+    pause()
     setMoistureHistory([])
-    setGrid(initializeGrid())
-  }, [initializeGrid])
+    startSimulation()
+  }, [pause, startSimulation])
+
+  const createSnapshot = useCallback((): SimulationSnapshot | null => simulation && {
+    format: SNAPSHOT_FORMAT,
+    version: SNAPSHOT_VERSION,
+    name: snapshotName.trim() || `${simulation.field.rows} × ${simulation.field.cols} field at step ${simulation.timeStep}`,
+    savedAt: new Date().toISOString(),
+    simulation,
+    params,
+    timeStepSize,
+    history: { selectedCell, moisture: moistureHistory },
+    settings: { units, moistureUnit, colorScheme, displayValuesInCells },
+    displayLayer,
+    weather,
+    site,
+  }, [
+    simulation, snapshotName, params, timeStepSize, selectedCell, moistureHistory,
+    units, moistureUnit, colorScheme, displayValuesInCells, displayLayer, weather, site,
+  ])
+
+  const handleSave = useCallback(async () => {
+    const snapshot = createSnapshot()
+    if (!snapshot) return
+    try {
+      const entry = await saveSimulation(snapshot)
+      setSaveStatus(`Saved "${entry.name}".`)
+    } catch (e) {
+      setSaveStatus(e instanceof Error ? `Saving failed: ${e.message}` : 'Saving failed.')
+    }
+  }, [createSnapshot])
+
+  const handleExport = useCallback(() => {
+    const snapshot = createSnapshot()
+    if (snapshot) downloadSnapshot(snapshot, snapshotFileName(snapshot))
+  }, [createSnapshot])
+
+  // Copies a link to the current scenario; runs loaded from a snapshot have no setup to rebuild them from
+  const canShare = !snapshotId && scenario !== undefined
+  const handleCopyLink = useCallback(async () => {
+    if (!simulation || !canShare) return
+    try {
+      const url = await scenarioUrl(window.location.origin, captureScenario(setupParams.toString(), simulation, params, timeStepSize, site))
+      await navigator.clipboard.writeText(url)
+      // Painted moisture is only the run's starting point until the first step
+      setLinkStatus(simulation.timeStep === 0
+        ? 'Link copied. It opens this setup, painted moisture, zones, supply, probes and controls.'
+        : "Link copied. It opens this setup, zones, supply, probes and controls from the start; the run had already started, so it starts from the setup's initial moisture.")
+    } catch (e) {
+      setLinkStatus(e instanceof Error ? `Copying the link failed: ${e.message}` : 'Copying the link failed.')
+    }
+  }, [simulation, canShare, setupParams, params, timeStepSize, site])
+
+  const stability = diagnostics?.stability ?? null
+
+  // Saturation of the displayed layer, without copying
+  const layerValues = useMemo(() => {
+    if (!field) return null
+    const size = field.rows * field.cols
+    return field.moisture.subarray(displayLayer * size, (displayLayer + 1) * size)
+  }, [field, displayLayer])
+
+  const selectedCellState = useMemo(() => {
+    if (!field || !selectedCell || selectedCell.row >= field.rows || selectedCell.col >= field.cols) return null
+    return getCell(field, selectedCell.row, selectedCell.col, displayLayer)
+  }, [field, selectedCell, displayLayer])
+
+  const selectedSoil = field && selectedCellState ? getSoilTexture(field, selectedCellState.soil) : null
+
+  const selectedColumn = field && selectedCellState && selectedCell ? selectedCell.row * field.cols + selectedCell.col : null
+  const selectedRootZone = useMemo(() => {
+    if (!field || selectedColumn === null) return null
+    return rootZoneAt(field, selectedColumn, (simulation?.elapsed ?? 0) / 24)
+  }, [field, selectedColumn, simulation?.elapsed])
+  const selectedZone = selectedColumn !== null && simulation
+    ? simulation.zones.find(zone => zone.id === simulation.field.zone[selectedColumn]) ?? null
+    : null
+  const selectedProbe = selectedColumn !== null ? simulation?.sensors.probes.find(probe => probe.column === selectedColumn) ?? null : null
+  const selectedProbeState = selectedProbe ? simulation?.probeStates[selectedProbe.id] : undefined
+  const selectedProfile = field && selectedColumn !== null ? columnMoistureBasis(field, selectedColumn) : null
+  const thresholdDepletion = field && selectedColumn !== null && selectedRootZone
+    ? depletionAtSaturation(field, selectedColumn, selectedRootZone, params.moistureThreshold)
+    : null
 
   const handleCellClick = useCallback((row: number, col: number) => {
     setSelectedCell({ row, col })
     setShowCellDetails(true)
   }, [])
 
-  const formatMoisture = useCallback((moisture: number) => {
-    if (moistureUnit === 'percentage') {
-      return `${(moisture * 100).toFixed(1)}%`
-    } else {
-      const volumetricMoisture = moisture * 0.5
-      return `${volumetricMoisture.toFixed(3)} m³/m³`
+  // Default soil over the whole profile, for profile saturations like the thresholds
+  const profileBasis = useMemo<MoistureBasis>(() => ({
+    porosity: defaultSoil.porosity,
+    thickness: field?.layerThickness.reduce((sum, dz) => sum + dz, 0) ?? 10,
+  }), [defaultSoil, field?.layerThickness])
+
+  // Default soil in the displayed layer, for the legend and values without a cell
+  const defaultBasis = useMemo<MoistureBasis>(() => ({
+    porosity: defaultSoil.porosity,
+    thickness: field?.layerThickness[displayLayer] ?? 10,
+  }), [defaultSoil, field?.layerThickness, displayLayer])
+
+  const selectedBasis = field && selectedCell && selectedCellState
+    ? cellMoistureBasis(field, cellIndex(field, selectedCell.row, selectedCell.col, displayLayer))
+    : defaultBasis
+
+  const formatMoisture = useCallback((moisture: number, basis: MoistureBasis = defaultBasis) => {
+    return formatMoistureIn(moisture, basis, moistureUnit, units)
+  }, [moistureUnit, units, defaultBasis])
+
+  const formatDepth = useCallback((depth: number) => formatSoilDepth(depth, units), [units])
+
+  // Probes with their last reading on the grid
+  const probeMarkers = useMemo(() => simulation?.sensors.probes.map(probe => {
+    const state = simulation.probeStates[probe.id]
+    const failed = state?.failedAt != null
+    return {
+      cell: probe.column,
+      color: failed ? probeColors.failed : probeColors.working,
+      caption: failed ? 'failed' : state?.reading != null ? formatMoisture(state.reading, profileBasis) : undefined,
     }
-  }, [moistureUnit])
-
-  const getUnitForParameter = useCallback((paramName: keyof SimulationParams) => {
-    switch (paramName) {
-      case 'diffusionCoefficient':
-        return '' // Unitless
-      case 'evapotranspirationRate':
-        return units === 'metric' ? 'mm/h' : 'in/h'
-      case 'irrigationRate':
-        return units === 'metric' ? 'mm/h' : 'in/h'
-      case 'moistureThreshold':
-        return moistureUnit === 'percentage' ? '%' : 'm³/m³'
-      default:
-        return ''
+  }), [simulation, profileBasis, formatMoisture])
+
+  const runoffArrows = useMemo(() => field ? { x: field.runoffX, y: field.runoffY, color: runoffColor } : undefined, [field])
+
+  const formatCellLabel = useCallback((index: number) => {
+    if (!field) return ''
+    const cell = displayLayer * field.rows * field.cols + index
+    return formatMoisture(field.moisture[cell], cellMoistureBasis(field, cell))
+  }, [field, displayLayer, formatMoisture])
+
+  const describeCell = useCallback((index: number) => {
+    if (!field) return ''
+    const row = Math.floor(index / field.cols)
+    const col = index % field.cols
+    const cell = getCell(field, row, col, displayLayer)
+    return `Cell ${row},${col}. Soil: ${cell.soil}. Moisture: ${formatCellLabel(index)}. Tap: ${cell.tapStatus ? 'On' : 'Off'}. Override: ${cell.overrideTap ? 'Yes' : 'No'}${cell.zone ? `. Zone ${cell.zone}` : ''}`
+  }, [field, displayLayer, formatCellLabel])
+
+  // How each parameter is shown: unit, conversion from the simulation's units, range and input step
+  const parameterDisplay = useMemo(() => {
+    const rate = (max: number, metricStep: number, imperialStep: number) => ({
+      unit: rateUnit(units),
+      toDisplay: (value: number) => toDisplayRate(value, units),
+      fromDisplay: (value: number) => fromDisplayRate(value, units),
+      max,
+      step: units === 'metric' ? metricStep : imperialStep,
+    })
+    return {
+      evapotranspirationRate: rate(maxParams.evapotranspirationRate, 0.01, 0.001),
+      irrigationRate: rate(maxParams.irrigationRate, 0.1, 0.01),
+      moistureThreshold: {
+        unit: moistureUnitLabel(moistureUnit, units),
+        toDisplay: (value: number) => toDisplayMoisture(value, profileBasis, moistureUnit, units),
+        fromDisplay: (value: number) => fromDisplayMoisture(value, profileBasis, moistureUnit, units),
+        max: maxParams.moistureThreshold,
+        step: moistureStep(moistureUnit, units),
+      },
     }
-  }, [units, moistureUnit])
+  }, [units, moistureUnit, profileBasis])
 
   const formatParameterName = useCallback((name: string): string => {
     return name
@@ -205,9 +504,9 @@ function SimulationContent() {
   }, [])
 
   const ColorLegend = useMemo(() => {
-    const minLabel = moistureUnit === 'percentage' ? '0% (Dry)' : '0.000 m³/m³ (Dry)'
-    const midLabel = moistureUnit === 'percentage' ? '50%' : '0.250 m³/m³'
-    const maxLabel = moistureUnit === 'percentage' ? '100% (Wet)' : '0.500 m³/m³ (Wet)'
+    const minLabel = `${formatMoisture(0)} (Dry)`
+    const midLabel = formatMoisture(0.5)
+    const maxLabel = `${formatMoisture(1)} (Wet)${moistureUnit === 'percentage' ? '' : ` in ${defaultSoil.name.toLowerCase()}`}`
 
     return (
       <div className="flex items-center justify-between mt-4 bg-white p-2 rounded-md shadow">
@@ -225,17 +524,22 @@ function SimulationContent() {
         </div>
       </div>
     )
-  }, [colorScheme, moistureUnit])
+  }, [colorScheme, moistureUnit, formatMoisture, defaultSoil])
 
-  const ParamControl = useCallback(({ name, value, onChange, min, max, step }: {
+  const ParamControl = useCallback(({ name, value, onChange }: {
     name: keyof SimulationParams
+    // In the simulation's units
     value: number
     onChange: (value: number) => void
-    min: number
-    max: number
-    step: number
   }) => {
-    const unit = getUnitForParameter(name)
+    const { unit, toDisplay, fromDisplay, step } = parameterDisplay[name]
+    const min = 0
+    const max = toDisplay(parameterDisplay[name].max)
+    const decimals = (String(step).split('.')[1] ?? '').length
+    const displayValue = parseFloat(toDisplay(value).toFixed(decimals + 1))
+    const measuredET = name === 'evapotranspirationRate' && etMethod ? referenceETExplanations[etMethod] : null
+    const explanation = measuredET?.explanation ?? parameterExplanations[name]
+    const formula = measuredET?.formula ?? parameterFormulas[name]
     return (
       <div className="space-y-2">
         <div className="flex items-center justify-between">
@@ -253,9 +557,9 @@ function SimulationContent() {
         {openInfoPanel === name && (
           <Card>
             <CardContent className="p-4">
-              <p>{parameterExplanations[name]}</p>
-              {parameterFormulas[name] && parameterFormulas[name].trim() !== '' && (
-                <BlockMath math={parameterFormulas[name]} />
+              <p>{explanation}</p>
+              {formula.trim() !== '' && (
+                <BlockMath math={formula} />
               )}
             </CardContent>
           </Card>
@@ -267,11 +571,11 @@ function SimulationContent() {
             min={min}
             max={max}
             step={step}
-            value={value}
+            value={displayValue}
             onChange={(e) => {
               const newValue = parseFloat(e.target.value)
               if (!isNaN(newValue) && newValue >= min && newValue <= max) {
-                onChange(newValue)
+                onChange(fromDisplay(newValue))
               }
             }}
             className="w-20"
@@ -280,44 +584,88 @@ function SimulationContent() {
             min={min}
             max={max}
             step={step}
-            value={[value]}
-            onValueChange={(value) => onChange(value[0])}
+            value={[displayValue]}
+            onValueChange={(value) => onChange(fromDisplay(value[0]))}
             className="flex-1"
           />
         </div>
       </div>
     )
-  }, [getUnitForParameter, formatParameterName, openInfoPanel])
+  }, [parameterDisplay, formatParameterName, openInfoPanel, etMethod])
+
+  if (setupErrors.length > 0) {
+    return (
+      <div className="container mx-auto p-4">
+        <Card>
+          <CardHeader>
+            <CardTitle>This link cannot be opened</CardTitle>
+            <CardDescription>Its setup parameters are not ones the simulation can run with.</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <ul role="alert" className="list-disc space-y-1 pl-5 text-red-600">
+              {setupErrors.map((error) => <li key={error}>{error}</li>)}
+            </ul>
+            <p>
+              The link may have been edited by hand or cut short when it was copied.{' '}
+              <Link href="/setup" className="underline">Set up a new simulation</Link>
+            </p>
+          </CardContent>
+        </Card>
+      </div>
+    )
+  }
 
   return (
     <div className="grid grid-cols-1 md:grid-cols-3 gap-4 p-4">
       <div className="md:col-span-2">
         <h2 className="text-2xl font-bold mb-4">Simulation Grid</h2>
-        {grid.length > 0 ? (
-          <div className="grid gap-1 overflow-auto max-h-[60vh]" style={{ gridTemplateColumns: `repeat(${grid[0].length}, minmax(0, 1fr))` }}>
-            {grid.flat().map((cell, index) => (
-              <div
-                key={index}
-                className="aspect-square rounded cursor-pointer relative"
-                style={{
-                  backgroundColor: getColorForMoisture(cell.moisture, colorScheme),
-                  border: cell.tapStatus ? '2px solid yellow' : '1px solid gray',
-                  boxShadow: cell.overrideTap ? '0 0 0 2px red inset' : 'none',
-                }}
-                onClick={() => handleCellClick(Math.floor(index / grid[0].length), index % grid[0].length)}
-                aria-label={`Cell ${Math.floor(index / grid[0].length)},${index % grid[0].length}. Moisture: ${formatMoisture(cell.moisture)}. Tap: ${cell.tapStatus ? 'On' : 'Off'}. Override:  ${cell.overrideTap ? 'Yes' : 'No'}`}
-              >
-                {displayValuesInCells && (
-                  <span
-                    className="absolute inset-0 flex items-center justify-center text-xs font-bold"
-                    style={{ color: getTextColorForMoisture(cell.moisture) }}
-                  >
-                    {formatMoisture(cell.moisture)}
-                  </span>
-                )}
-              </div>
-            ))}
+        {field && field.layers > 1 && (
+          <div className="flex items-center space-x-2 mb-4">
+            <Label htmlFor="displayLayer">Layer</Label>
+            <Select value={String(displayLayer)} onValueChange={(value) => setDisplayLayer(parseInt(value))}>
+              <SelectTrigger id="displayLayer" className="w-56">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {field.layerThickness.map((_, layer) => (
+                  <SelectItem key={layer} value={String(layer)}>
+                    {`Layer ${layer + 1} (${formatDepth(layerDepth(field, layer).top)} – ${formatDepth(layerDepth(field, layer).bottom)})`}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+        {field && (
+          <div className="mb-4">
+            <PaintToolbar paint={paint} moistureBasis={defaultBasis} zones={simulation?.zones ?? []} />
           </div>
+        )}
+        {field && layerValues ? (
+          <GridCanvas
+            rows={field.rows}
+            cols={field.cols}
+            values={layerValues}
+            colorScheme={colorScheme}
+            tapStatus={unzonedTaps ?? field.tapStatus}
+            overrideTap={field.overrideTap}
+            highlight={paint.preview}
+            groups={zoneOutlines}
+            markers={probeMarkers}
+            arrows={runoffArrows}
+            formatLabel={displayValuesInCells ? formatCellLabel : undefined}
+            describeCell={describeCell}
+            onCellClick={handleCellClick}
+            stroke={paint.stroke}
+            label="Soil moisture grid"
+          />
+        ) : loadError ? (
+          <p role="alert" className="text-red-600">
+            {loadError}{' '}
+            {snapshotId
+              ? <Link href="/load" className="underline">Back to saved simulations</Link>
+              : <Link href="/setup" className="underline">Set up a new simulation</Link>}
+          </p>
         ) : (
           <p>Loading grid...</p>
         )}
@@ -330,17 +678,136 @@ function SimulationContent() {
           <div className="space-x-2">
             <Button onClick={toggleSimulation}>{isRunning ? 'Pause' : 'Start'}</Button>
             <Button onClick={resetSimulation}>Reset</Button>
-            <Button onClick={updateGrid} disabled={isRunning}>Step Forward</Button>
+            <Button onClick={stepForward} disabled={isRunning}>Step Forward</Button>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="speed">Speed</Label>
+            <Select value={speed} onValueChange={changeSpeed}>
+              <SelectTrigger id="speed">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {simulationSpeeds.map(({ id, name }) => (
+                  <SelectItem key={id} value={id}>{name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="flex items-end space-x-2">
+            <div className="space-y-2">
+              <Label htmlFor="runSteps">Steps</Label>
+              <Input
+                id="runSteps"
+                type="number"
+                min={1}
+                step={1}
+                value={runSteps}
+                onChange={(e) => {
+                  const value = parseInt(e.target.value)
+                  if (!isNaN(value) && value >= 1) setRunSteps(value)
+                }}
+                className="w-28"
+              />
+            </div>
+            <Button onClick={() => run(speed, { steps: runSteps })} disabled={!simulation || isRunning}>
+              Run Steps
+            </Button>
+          </div>
+          <div className="flex items-end space-x-2">
+            <div className="space-y-2">
+              <Label htmlFor="runUntil">Until (hours from start)</Label>
+              <Input
+                id="runUntil"
+                type="number"
+                min={0}
+                step={1}
+                value={runUntil}
+                onChange={(e) => {
+                  const value = parseFloat(e.target.value)
+                  if (!isNaN(value) && value >= 0) setRunUntil(value)
+                }}
+                className="w-28"
+              />
+            </div>
+            <Button
+              onClick={() => run(speed, { hours: runUntil })}
+              disabled={!simulation || isRunning || runUntil <= simulation.elapsed}
+            >
+              Run Until
+            </Button>
+          </div>
+          {engineError && (
+            <p role="alert" className="text-sm text-red-600">{`The simulation stopped: ${engineError}`}</p>
+          )}
+          <div className="space-y-2">
+            <Label htmlFor="snapshotName">Save Simulation</Label>
+            <div className="flex items-center space-x-2">
+              <Input
+                id="snapshotName"
+                placeholder="Name"
+                value={snapshotName}
+                onChange={(e) => setSnapshotName(e.target.value)}
+              />
+              <Button onClick={handleSave} disabled={!simulation || isRunning}>Save</Button>
+              <Button variant="outline" onClick={handleExport} disabled={!simulation || isRunning}>Export</Button>
+              <Button
+                variant="outline"
+                onClick={handleCopyLink}
+                disabled={!simulation || !canShare}
+                title={snapshotId ? 'Saved simulations are shared by exporting them' : undefined}
+              >
+                Copy Link
+              </Button>
+            </div>
+            {saveStatus && (
+              <p role="status" className="text-sm text-muted-foreground">
+                {saveStatus} <Link href="/load" className="underline">Saved simulations</Link>
+              </p>
+            )}
+            {linkStatus && <p role="status" className="text-sm text-muted-foreground">{linkStatus}</p>}
           </div>
+          <p className="text-sm text-muted-foreground">
+            {weather ? `Time: ${formatWeatherTime(currentTime)} UTC` : `Step: ${timeStep}`}
+          </p>
+          <WeatherControl weather={drivingWeather} site={site} onChange={handleWeatherChange} onSiteChange={setSite} />
+          {field && <CropControl field={field} onPlant={plantAllCells} />}
+          {simulation && (
+            <ZonePanel
+              field={simulation.field}
+              zones={simulation.zones}
+              valves={simulation.valves}
+              delivery={simulation.supplyStatus.zoneDelivery}
+              showPriority={simulation.supply.policy === 'priority'}
+              defaultThreshold={params.moistureThreshold}
+              thresholdBasis={profileBasis}
+              onChange={changeZones}
+              onDelete={deleteZone}
+            />
+          )}
+          {simulation && (
+            <SupplyPanel
+              supply={simulation.supply}
+              status={simulation.supplyStatus}
+              formatTime={formatElapsed}
+              onChange={changeSupply}
+            />
+          )}
+          {simulation && (
+            <SensorPanel
+              field={simulation.field}
+              sensors={simulation.sensors}
+              probeStates={simulation.probeStates}
+              estimateError={sensedError}
+              basis={profileBasis}
+              onChange={changeSensors}
+            />
+          )}
           {Object.entries(params).map(([key, value]) => (
             <ParamControl
               key={key}
               name={key as keyof SimulationParams}
               value={value}
               onChange={(newValue) => setParams(prev => ({ ...prev, [key]: newValue }))}
-              min={0}
-              max={key === 'diffusionCoefficient' || key === 'moistureThreshold' ? 1 : 0.5}
-              step={0.01}
             />
           ))}
           <div className="space-y-2">
@@ -348,17 +815,30 @@ function SimulationContent() {
             <Input
               id="timeStepSize"
               type="number"
-              min={0.1}
-              max={24}
+              min={MIN_TIME_STEP}
+              max={MAX_TIME_STEP}
               step={0.1}
               value={timeStepSize}
               onChange={(e) => {
                 const value = parseFloat(e.target.value)
-                if (!isNaN(value) && value >= 0.1 && value <= 24) {
+                if (!isNaN(value) && value >= MIN_TIME_STEP && value <= MAX_TIME_STEP) {
                   setTimeStepSize(value)
                 }
               }}
             />
+            {stability && (!stability.stable || unstableTime > 0) && (
+              <div role="alert" className="flex items-start space-x-2 rounded-md border border-yellow-500 bg-yellow-50 p-2 text-sm text-yellow-800 dark:bg-yellow-950 dark:text-yellow-200">
+                <AlertTriangle className="h-4 w-4 mt-0.5 shrink-0" />
+                <p>
+                  {!stability.stable && `D × Δt / Δx² = ${stability.courantNumber.toFixed(2)} for the wettest cells exceeds the explicit stability limit of ${stability.limit}. `}
+                  {unstableTime > 0
+                    ? `The last step needed more than ${MAX_SUBSTEPS} sub-steps, so it took its final ${+unstableTime.toFixed(3)} h in one sub-step beyond the limit and is not stable; the clamp terms of the water budget show the error. Shorten the time step or use larger cells.`
+                    : stability.capped
+                      ? `Even ${MAX_SUBSTEPS} sub-steps are not enough, so the last one of each step will go beyond the limit and the steps will not be stable. Shorten the time step or use larger cells.`
+                      : `Each step is split into about ${stability.substeps} sub-steps, which slows the simulation down.`}
+                </p>
+              </div>
+            )}
           </div>
           <div className="flex items-center space-x-2">
             <Switch
@@ -370,7 +850,7 @@ function SimulationContent() {
           </div>
           <div className="space-y-2">
             <Label htmlFor="colorScheme">Color Scheme</Label>
-            <Select value={colorScheme} onValueChange={(value: 'default' | 'blue' | 'grayscale') => setColorScheme(value)}>
+            <Select value={colorScheme} onValueChange={(value: ColorScheme) => setColorScheme(value)}>
               <SelectTrigger id="colorScheme">
                 <SelectValue placeholder="Select color scheme" />
               </SelectTrigger>
@@ -412,7 +892,7 @@ function SimulationContent() {
             <Label htmlFor="moistureUnit">Moisture Unit</Label>
             <Select
               value={moistureUnit}
-              onValueChange={(value: 'percentage' | 'volumetric') => setMoistureUnit(value)}
+              onValueChange={(value: MoistureUnit) => setMoistureUnit(value)}
             >
               <SelectTrigger id="moistureUnit">
                 <SelectValue placeholder="Select moisture unit" />
@@ -420,6 +900,7 @@ function SimulationContent() {
               <SelectContent>
                 <SelectItem value="percentage">Percentage (%)</SelectItem>
                 <SelectItem value="volumetric">Volumetric (m³/m³)</SelectItem>
+                <SelectItem value="depth">{`Water Depth (${units === 'metric' ? 'mm' : 'in'})`}</SelectItem>
               </SelectContent>
             </Select>
           </div>
@@ -431,40 +912,77 @@ function SimulationContent() {
           <TabsList>
             <TabsTrigger value="timeSeries">Time Series</TabsTrigger>
             <TabsTrigger value="heatmap">Heatmap</TabsTrigger>
+            <TabsTrigger value="waterBudget">Water Budget</TabsTrigger>
+            <TabsTrigger value="crossSection">Cross Section</TabsTrigger>
           </TabsList>
           <TabsContent value="timeSeries">
             <ResponsiveContainer width="100%" height={300}>
               <LineChart data={moistureHistory}>
                 <CartesianGrid strokeDasharray="3 3" />
-                <XAxis dataKey="time" />
+                {weather ? (
+                  <XAxis
+                    dataKey="time"
+                    type="number"
+                    scale="time"
+                    domain={['dataMin', 'dataMax']}
+                    tickFormatter={(value) => formatWeatherTime(value)}
+                  />
+                ) : (
+                  <XAxis dataKey="time" />
+                )}
                 <YAxis
-                  label={{ value: moistureUnit === 'percentage' ? 'Moisture (%)' : 'Moisture (m³/m³)', angle: -90, position: 'insideLeft' }}
-                  tickFormatter={(value) => formatMoisture(value)}
+                  label={{ value: `${moistureUnitName(moistureUnit)} (${moistureUnitLabel(moistureUnit, units)})`, angle: -90, position: 'insideLeft' }}
+                  tickFormatter={(value) => formatMoisture(value, selectedBasis)}
+                />
+                <RechartsTooltip
+                  formatter={(value) => formatMoisture(value as number, selectedBasis)}
+                  labelFormatter={(value) => weather ? formatWeatherTime(value) : value}
                 />
-                <RechartsTooltip formatter={(value) => formatMoisture(value as number)} />
                 <Legend />
                 <Line type="monotone" dataKey="moisture" stroke="#8884d8" />
               </LineChart>
             </ResponsiveContainer>
           </TabsContent>
           <TabsContent value="heatmap">
-            {grid.length > 0 ? (
-              <div className="grid gap-1" style={{ gridTemplateColumns: `repeat(${grid[0].length}, minmax(0, 1fr))` }}>
-                {grid.flat().map((cell, index) => (
-                  <div
-                    key={index}
-                    className="aspect-square rounded"
-                    style={{
-                      backgroundColor: getColorForMoisture(cell.moisture, colorScheme)
-                    }}
-                  />
-                ))}
-              </div>
+            {field && layerValues ? (
+              <GridCanvas
+                rows={field.rows}
+                cols={field.cols}
+                values={layerValues}
+                colorScheme={colorScheme}
+                describeCell={describeCell}
+                label="Soil moisture heatmap"
+              />
             ) : (
               <p>Loading heatmap...</p>
             )}
             {ColorLegend}
           </TabsContent>
+          <TabsContent value="waterBudget">
+            {simulation ? (
+              <WaterBudgetPanel
+                lastBudget={simulation.lastBudget}
+                cumulativeBudget={simulation.cumulativeBudget}
+                storage={diagnostics?.storage ?? null}
+                units={units}
+              />
+            ) : (
+              <p>Loading water budget...</p>
+            )}
+          </TabsContent>
+          <TabsContent value="crossSection">
+            {field ? (
+              <CrossSectionView
+                field={field}
+                getColor={(moisture) => getColorForMoisture(moisture, colorScheme)}
+                formatDepth={formatDepth}
+                formatMoisture={formatMoisture}
+              />
+            ) : (
+              <p>Loading cross section...</p>
+            )}
+            {ColorLegend}
+          </TabsContent>
         </Tabs>
       </div>
       <Dialog open={showCellDetails} onOpenChange={setShowCellDetails}>
@@ -472,12 +990,78 @@ function SimulationContent() {
           <DialogHeader>
             <DialogTitle>Cell Details</DialogTitle>
           </DialogHeader>
-          {selectedCell && grid[selectedCell.row] && grid[selectedCell.row][selectedCell.col] && (
+          {selectedCell && selectedCellState && selectedSoil && (
             <DialogDescription>
               <p>Row: {selectedCell.row}, Column: {selectedCell.col}</p>
-              <p>Moisture: {formatMoisture(grid[selectedCell.row][selectedCell.col].moisture)}</p>
-              <p>Tap Status: {grid[selectedCell.row][selectedCell.col].tapStatus ? 'On' : 'Off'}</p>
-              <p>Override: {grid[selectedCell.row][selectedCell.col].overrideTap ? 'Yes' : 'No'}</p>
+              {field && field.layers > 1 && (
+                <>
+                  <p>
+                    Layer: {displayLayer + 1} ({formatDepth(layerDepth(field, displayLayer).top)} – {formatDepth(layerDepth(field, displayLayer).bottom)})
+                  </p>
+                  {selectedProfile && <p>Profile Total: {formatMoisture(selectedProfile.saturation, selectedProfile.basis)}</p>}
+                  <p>
+                    Profile: {field.layerThickness.map((_, layer) => {
+                      const index = cellIndex(field, selectedCell.row, selectedCell.col, layer)
+                      return formatMoisture(field.moisture[index], cellMoistureBasis(field, index))
+                    }).join(' / ')}
+                  </p>
+                </>
+              )}
+              <p>Moisture: {formatMoisture(selectedCellState.moisture, selectedBasis)}</p>
+              <p>
+                Soil: {selectedSoil.name} (porosity {selectedSoil.porosity.toFixed(2)}, field capacity {selectedSoil.fieldCapacity.toFixed(2)},
+                wilting point {selectedSoil.wiltingPoint.toFixed(2)} m³/m³)
+              </p>
+              <p>Matric Potential: {(matricHead(selectedSoil, selectedCellState.moisture * selectedSoil.porosity) * 0.0981).toFixed(1)} kPa</p>
+              <p>
+                Hydraulic Conductivity: {toDisplayRate(hydraulicConductivity(selectedSoil, selectedCellState.moisture * selectedSoil.porosity) * 10, units).toExponential(2)} {rateUnit(units)}
+                {selectedCellState.diffusivityScale !== 1 && ` × ${selectedCellState.diffusivityScale} (cell multiplier)`}
+              </p>
+              {field && selectedColumn !== null && (
+                <p>
+                  Surface: elevation {toDisplaySoilDepth(field.elevation[selectedColumn], units).toFixed(1)} {soilDepthUnit(units)}, ponded {formatWaterDepth(field.ponding[selectedColumn], units)},
+                  runoff {toDisplayRate(Math.hypot(field.runoffX[selectedColumn], field.runoffY[selectedColumn]), units).toFixed(2)} {rateUnit(units)}
+                </p>
+              )}
+              <p>Tap Status: {selectedCellState.tapStatus ? 'On' : 'Off'}</p>
+              <p>Override: {selectedCellState.overrideTap ? 'Yes' : 'No'}</p>
+              <p>
+                Irrigation Zone: {selectedZone
+                  ? `${selectedZone.name} (valve ${simulation?.valves[selectedZone.id]?.open ? 'open' : 'closed'}${selectedColumn !== null && selectedZone.sensors.includes(selectedColumn) ? ', sensor cell' : ''})`
+                  : 'None'}
+              </p>
+              {selectedProbe && (
+                <p>
+                  Probe: {selectedProbeState?.failedAt != null
+                    ? `failed at ${formatElapsed(selectedProbeState.failedAt)}`
+                    : selectedProbeState?.reading != null && selectedProbeState.sampledAt !== null
+                      ? `reads ${formatMoisture(selectedProbeState.reading, profileBasis)} (profile), taken at ${formatElapsed(selectedProbeState.sampledAt)}`
+                      : 'no reading yet'}
+                </p>
+              )}
+              {selectedZone && (
+                <p>Controller: {describeController(selectedZone, simulation?.valves[selectedZone.id], profileBasis, moistureUnit, units)}</p>
+              )}
+              <p>
+                Crop: {selectedCellState.crop ? crops[selectedCellState.crop].name : 'None'}
+                {selectedCellState.crop && ` (planted on day ${selectedCellState.plantingDay}, ${selectedRootZone ? `${growthStage(selectedRootZone.crop.kc, selectedRootZone.daysAfterPlanting)} stage` : 'not growing'})`}
+              </p>
+              {field && selectedColumn !== null && selectedRootZone && thresholdDepletion !== null && (
+                <>
+                  <p>
+                    Root Depth: {formatDepth(selectedRootZone.depth)}, Kc = {selectedRootZone.cropCoefficient.toFixed(2)}, Ks = {selectedRootZone.waterStressCoefficient.toFixed(2)}
+                  </p>
+                  <p>
+                    Root Zone: TAW {formatWaterDepth(selectedRootZone.totalAvailableWater, units)}, RAW {formatWaterDepth(selectedRootZone.readilyAvailableWater, units)},
+                    depletion {formatWaterDepth(selectedRootZone.depletion, units)}
+                  </p>
+                  <p>
+                    Moisture Threshold: depletion {formatWaterDepth(thresholdDepletion, units)}
+                    {` (${(thresholdDepletion / selectedRootZone.totalAvailableWater * 100).toFixed(0)}% of TAW, stress starts at ${(selectedRootZone.crop.depletionFraction * 100).toFixed(0)}%)`}
+                  </p>
+                  <p>Relative Yield Loss: {(columnYieldLoss(field, selectedColumn) * 100).toFixed(1)}%</p>
+                </>
+              )}
               <div className="space-y-4 mt-4">
                 <div>
                   <Label htmlFor="manualMoisture">Set Moisture Manually</Label>
@@ -486,56 +1070,45 @@ function SimulationContent() {
                       id="manualMoisture"
                       type="number"
                       min={0}
-                      max={moistureUnit === 'percentage' ? 100 : 0.5}
-                      step={moistureUnit === 'percentage' ? 1 : 0.01}
-                      value={moistureUnit === 'percentage' ? 
-                        (grid[selectedCell.row][selectedCell.col].moisture * 100).toFixed(0) : 
-                        (grid[selectedCell.row][selectedCell.col].moisture * 0.5).toFixed(3)
-                      }
+                      max={roundMoisture(toDisplayMoisture(1, selectedBasis, moistureUnit, units), moistureUnit, units)}
+                      step={moistureStep(moistureUnit, units)}
+                      value={roundMoisture(toDisplayMoisture(selectedCellState.moisture, selectedBasis, moistureUnit, units), moistureUnit, units)}
                       onChange={(e) => {
                         const value = parseFloat(e.target.value)
                         if (!isNaN(value)) {
-                          const newMoisture = moistureUnit === 'percentage' ? value / 100 : value / 0.5
-                          setGrid(prevGrid => {
-                            const newGrid = [...prevGrid]
-                            newGrid[selectedCell.row] = [...newGrid[selectedCell.row]]
-                            newGrid[selectedCell.row][selectedCell.col] = {
-                              ...newGrid[selectedCell.row][selectedCell.col],
-                              moisture: Math.min(1, Math.max(0, newMoisture)),
-                              overrideTap: true,
-                            }
-                            return newGrid
+                          const newMoisture = fromDisplayMoisture(value, selectedBasis, moistureUnit, units)
+                          editCell(selectedCell.row, selectedCell.col, {
+                            moisture: Math.min(1, Math.max(0, newMoisture)),
+                            overrideTap: true,
                           })
                         }
                       }}
                       className="w-20"
                     />
-                    <span>{moistureUnit === 'percentage' ? '%' : 'm³/m³'}</span>
+                    <span>{moistureUnitLabel(moistureUnit, units)}</span>
                   </div>
                 </div>
                 <Button onClick={() => {
-                  setGrid(prevGrid => {
-                    const newGrid = [...prevGrid]
-                    newGrid[selectedCell.row] = [...newGrid[selectedCell.row]]
-                    newGrid[selectedCell.row][selectedCell.col] = {
-                      ...newGrid[selectedCell.row][selectedCell.col],
-                      tapStatus: !newGrid[selectedCell.row][selectedCell.col].tapStatus,
-                      overrideTap: true,
-                    }
-                    return newGrid
+                  editCell(selectedCell.row, selectedCell.col, {
+                    tapStatus: !selectedCellState.tapStatus,
+                    overrideTap: true,
                   })
                 }}>
                   Toggle Tap
                 </Button>
+                {selectedColumn !== null && (
+                  <Button variant="outline" onClick={() => toggleProbeAt(selectedColumn)}>
+                    {selectedProbe ? 'Remove Probe' : 'Place Probe'}
+                  </Button>
+                )}
+                {selectedZone && selectedColumn !== null && (
+                  <Button variant="outline" onClick={() => toggleSensor(selectedZone.id, selectedColumn)}>
+                    {selectedZone.sensors.includes(selectedColumn) ? 'Remove Sensor' : `Use as Sensor for ${selectedZone.name}`}
+                  </Button>
+                )}
                 <Button onClick={() => {
-                  setGrid(prevGrid => {
-                    const newGrid = [...prevGrid]
-                    newGrid[selectedCell.row] = [...newGrid[selectedCell.row]]
-                    newGrid[selectedCell.row][selectedCell.col] = {
-                      ...newGrid[selectedCell.row][selectedCell.col],
-                      overrideTap: false,
-                    }
-                    return newGrid
+                  editCell(selectedCell.row, selectedCell.col, {
+                    overrideTap: false,
                   })
                 }}>
                   Reset Tap Control
@@ -552,7 +1125,9 @@ function SimulationContent() {
 export default function Simulation() {
   return (
     <Suspense fallback={<div>Loading...</div>}>
-      <SimulationContent />
+      <ViewSettingsProvider>
+        <SimulationContent />
+      </ViewSettingsProvider>
     </Suspense>
   )
 }
\ No newline at end of file
@@ -0,0 +1,62 @@
+import React, { useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { cropIds, crops, type CropId, type CropMapEntry } from '@/lib/simulation/crops'
+import type { Field } from '@/lib/simulation/field'
+import { fieldYieldLoss } from '@/lib/simulation/rootzone'
+
+export function CropControl({ field, onPlant }: {
+  field: Field
+  onPlant: (crop: CropId | null, plantingDay: number) => void
+}) {
+  const [crop, setCrop] = useState<CropMapEntry>('maize')
+  const [plantingDay, setPlantingDay] = useState(0)
+
+  const cropped = field.crop.reduce((count, id) => count + (id === -1 ? 0 : 1), 0)
+  const yieldLoss = fieldYieldLoss(field)
+
+  return (
+    <div className="space-y-2">
+      <Label htmlFor="crop">Crop</Label>
+      <p className="text-sm text-muted-foreground">
+        {yieldLoss === null
+          ? 'No cells are planted. Bare cells lose ET₀ from the surface layer.'
+          : `${cropped} of ${field.rows * field.cols} cells planted, relative yield loss so far ${(yieldLoss * 100).toFixed(1)}%`}
+      </p>
+      <div className="flex items-center space-x-2">
+        <Select value={crop} onValueChange={(value: CropMapEntry) => setCrop(value)}>
+          <SelectTrigger id="crop">
+            <SelectValue placeholder="Select crop" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="none">None</SelectItem>
+            {cropIds.map((id) => (
+              <SelectItem key={id} value={id}>{crops[id].name}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button onClick={() => onPlant(crop === 'none' ? null : crop, plantingDay)}>Apply to All Cells</Button>
+      </div>
+      {crop !== 'none' && (
+        <>
+          <Label htmlFor="plantingDay">Planting Day</Label>
+          <Input
+            id="plantingDay"
+            type="number"
+            min={-365}
+            max={365}
+            step={1}
+            value={plantingDay}
+            onChange={(e) => {
+              const value = parseInt(e.target.value)
+              if (!isNaN(value)) setPlantingDay(value)
+            }}
+          />
+          <p className="text-sm text-muted-foreground">Days from the start of the simulation; negative days plant before it.</p>
+        </>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,87 @@
+import React, { useState } from 'react'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { cellIndex, layerDepth, type Field } from '@/lib/simulation/field'
+import { cellMoistureBasis, type MoistureBasis } from '@/lib/units'
+
+// Pixels per cm of depth
+const DEPTH_SCALE = 3
+
+export function CrossSectionView({ field, getColor, formatDepth, formatMoisture }: {
+  field: Field
+  getColor: (moisture: number) => string
+  formatDepth: (depth: number) => string
+  formatMoisture: (moisture: number, basis: MoistureBasis) => string
+}) {
+  const [axis, setAxis] = useState<'row' | 'column'>('row')
+  const [position, setPosition] = useState(0)
+
+  const lastPosition = (axis === 'row' ? field.rows : field.cols) - 1
+  const current = Math.min(position, lastPosition)
+  const length = axis === 'row' ? field.cols : field.rows
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-end space-x-4">
+        <div className="space-y-2">
+          <Label htmlFor="crossSectionAxis">Section Along</Label>
+          <Select value={axis} onValueChange={(value: 'row' | 'column') => setAxis(value)}>
+            <SelectTrigger id="crossSectionAxis" className="w-32">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="row">Row</SelectItem>
+              <SelectItem value="column">Column</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="crossSectionPosition">{axis === 'row' ? 'Row' : 'Column'}</Label>
+          <Input
+            id="crossSectionPosition"
+            type="number"
+            min={0}
+            max={lastPosition}
+            value={current}
+            onChange={(e) => {
+              const value = parseInt(e.target.value)
+              if (!isNaN(value) && value >= 0 && value <= lastPosition) setPosition(value)
+            }}
+            className="w-20"
+          />
+        </div>
+      </div>
+      <div className="flex overflow-auto">
+        <div className="flex flex-col pr-2 text-xs text-right">
+          {field.layerThickness.map((thickness, layer) => (
+            <div key={layer} style={{ height: thickness * DEPTH_SCALE }} className="flex items-start justify-end">
+              {formatDepth(layerDepth(field, layer).top)}
+            </div>
+          ))}
+          <div className="text-xs">{formatDepth(layerDepth(field, field.layers - 1).bottom)}</div>
+        </div>
+        <div className="flex-1 flex flex-col">
+          {field.layerThickness.map((thickness, layer) => (
+            <div key={layer} className="flex" style={{ height: thickness * DEPTH_SCALE }}>
+              {Array.from({ length }, (_, offset) => {
+                const index = axis === 'row'
+                  ? cellIndex(field, current, offset, layer)
+                  : cellIndex(field, offset, current, layer)
+                const moisture = field.moisture[index]
+                return (
+                  <div
+                    key={offset}
+                    className="flex-1 border border-background"
+                    style={{ backgroundColor: getColor(moisture) }}
+                    title={`${axis === 'row' ? 'Column' : 'Row'} ${offset}, layer ${layer + 1}: ${formatMoisture(moisture, cellMoistureBasis(field, index))}`}
+                  />
+                )
+              })}
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  )
+}
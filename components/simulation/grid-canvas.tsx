@@ -0,0 +1,432 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react'
+import { Maximize, Minus, Plus } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import type { ColorScheme } from '@/lib/settings'
+import { createGridRenderer, visibleCells, type GridRenderer, type GridView } from './grid-renderer'
+import { getTextColorForMoisture, moistureColorTable, MOISTURE_COLOR_STEPS } from './palettes'
+
+// Cell size (CSS pixels) below which values are not written into cells
+const MIN_LABEL_PIXELS = 40
+const MAX_CELL_PIXELS = 200
+// Cell size (CSS pixels) below which flow arrows are not drawn
+const MIN_ARROW_PIXELS = 8
+// Pointer travel (CSS pixels) that turns a click into a pan
+const DRAG_THRESHOLD = 4
+const ZOOM_STEP = 1.5
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value))
+
+/** Pointer strokes over cells, e.g. for painting; while given, dragging with Shift held pans instead. */
+export interface GridStroke {
+  start: (row: number, col: number) => void
+  move: (row: number, col: number) => void
+  end: () => void
+}
+
+/**
+ * Moisture grid drawn on a canvas, with WebGL when available. Drag to pan,
+ * scroll or use the buttons to zoom, and click or use the arrow keys and
+ * Enter to pick a cell.
+ */
+export function GridCanvas({
+  rows,
+  cols,
+  values,
+  colorScheme,
+  tapStatus,
+  overrideTap,
+  highlight,
+  groups,
+  markers,
+  arrows,
+  formatLabel,
+  describeCell,
+  onCellClick,
+  stroke,
+  label,
+}: {
+  rows: number
+  cols: number
+  // Degree of saturation per cell, row-major
+  values: ArrayLike<number>
+  colorScheme: ColorScheme
+  // Tap outlines are drawn when given
+  tapStatus?: Uint8Array
+  overrideTap?: Uint8Array
+  // Cells to shade, e.g. the preview of a paint stroke; one byte per cell, row-major
+  highlight?: Uint8Array | null
+  // Outlines groups of cells, e.g. irrigation zones: a group id per cell (0 for none) and each group's color
+  groups?: { map: Uint8Array; colors: Record<number, string> }
+  // Dots at the top of single cells, e.g. sensor probes, with a caption at the bottom when the cells are large enough
+  markers?: { cell: number; color: string; caption?: string }[]
+  // Flow per cell, e.g. overland runoff, along the rows (right positive) and columns (down positive), drawn as arrows scaled to the largest
+  arrows?: { x: ArrayLike<number>; y: ArrayLike<number>; color: string }
+  // Values are written into cells when given and the cells are large enough
+  formatLabel?: (index: number) => string
+  describeCell?: (index: number) => string
+  onCellClick?: (row: number, col: number) => void
+  stroke?: GridStroke
+  label: string
+}) {
+  const containerRef = useRef<HTMLDivElement>(null)
+  const canvasRef = useRef<HTMLCanvasElement>(null)
+  const overlayRef = useRef<HTMLCanvasElement>(null)
+  const rendererRef = useRef<GridRenderer | null>(null)
+  const dragRef = useRef<{ pointerX: number; pointerY: number; view: GridView; moved: boolean } | null>(null)
+  const strokeRef = useRef<number | null>(null)
+  const [preferCanvas, setPreferCanvas] = useState(false)
+  const [rendererReady, setRendererReady] = useState(0)
+  const [size, setSize] = useState({ width: 0, height: 0 })
+  const [view, setView] = useState<GridView | null>(null)
+  const [focusedCell, setFocusedCell] = useState<number | null>(null)
+
+  // Fits the whole grid into the canvas
+  const fitView = useMemo(() => {
+    if (!size.width || !size.height) return null
+    const scale = Math.min(size.width / cols, size.height / rows)
+    return { scale, x: (size.width - cols * scale) / 2, y: (size.height - rows * scale) / 2 }
+  }, [size, rows, cols])
+  const minScale = fitView ? fitView.scale / 2 : 0
+
+  // Refit when the grid itself changes, not on every resize
+  const fittedGridRef = useRef<string | null>(null)
+  useEffect(() => {
+    const grid = `${rows}x${cols}`
+    if (!fitView || fittedGridRef.current === grid) return
+    fittedGridRef.current = grid
+    setView(fitView)
+  }, [fitView, rows, cols])
+
+  useEffect(() => {
+    const container = containerRef.current
+    if (!container) return
+    const observer = new ResizeObserver(([entry]) => {
+      const width = entry.contentRect.width
+      setSize({ width, height: Math.min(width * rows / cols, window.innerHeight * 0.6) })
+    })
+    observer.observe(container)
+    return () => observer.disconnect()
+  }, [rows, cols])
+
+  useEffect(() => {
+    const canvas = canvasRef.current
+    if (!canvas) return
+    const renderer = createGridRenderer(canvas, preferCanvas)
+    if (!renderer) {
+      // A failed WebGL setup leaves the canvas unusable for 2D, so start over on a new one
+      if (!preferCanvas) setPreferCanvas(true)
+      return
+    }
+    if (Math.max(rows, cols) > renderer.maxGridSize) {
+      renderer.dispose()
+      setPreferCanvas(true)
+      return
+    }
+    rendererRef.current = renderer
+    setRendererReady(ready => ready + 1)
+    return () => {
+      renderer.dispose()
+      rendererRef.current = null
+    }
+  }, [preferCanvas, rows, cols])
+
+  const colors = useMemo(() => {
+    const table = moistureColorTable(colorScheme)
+    const bytes = new Uint8Array(rows * cols * 4)
+    for (let index = 0; index < rows * cols; index++) {
+      const step = Math.round(clamp(values[index], 0, 1) * (MOISTURE_COLOR_STEPS - 1)) * 4
+      bytes[index * 4] = table[step]
+      bytes[index * 4 + 1] = table[step + 1]
+      bytes[index * 4 + 2] = table[step + 2]
+      bytes[index * 4 + 3] = 255
+    }
+    return bytes
+  }, [values, colorScheme, rows, cols])
+
+  const flags = useMemo(() => {
+    if (!tapStatus || !overrideTap) return null
+    const bytes = new Uint8Array(rows * cols * 4)
+    for (let index = 0; index < rows * cols; index++) {
+      bytes[index * 4] = tapStatus[index] ? 255 : 0
+      bytes[index * 4 + 1] = overrideTap[index] ? 255 : 0
+    }
+    return bytes
+  }, [tapStatus, overrideTap, rows, cols])
+
+  useEffect(() => {
+    const canvas = canvasRef.current
+    const overlay = overlayRef.current
+    const renderer = rendererRef.current
+    if (!canvas || !overlay || !renderer || !view || !size.width) return
+    const frame = requestAnimationFrame(() => {
+      const pixelRatio = window.devicePixelRatio || 1
+      for (const target of [canvas, overlay]) {
+        // Assigning the size clears the canvas, so only do it when it changes
+        if (target.width !== Math.round(size.width * pixelRatio)) target.width = Math.round(size.width * pixelRatio)
+        if (target.height !== Math.round(size.height * pixelRatio)) target.height = Math.round(size.height * pixelRatio)
+      }
+      const scene = { rows, cols, colors, flags, view, width: size.width, height: size.height, pixelRatio }
+      renderer.draw(scene)
+
+      const context = overlay.getContext('2d')
+      if (!context) return
+      context.setTransform(pixelRatio, 0, 0, pixelRatio, 0, 0)
+      context.clearRect(0, 0, size.width, size.height)
+      if (formatLabel && view.scale >= MIN_LABEL_PIXELS) {
+        const { firstRow, lastRow, firstCol, lastCol } = visibleCells(scene)
+        context.font = 'bold 11px sans-serif'
+        context.textAlign = 'center'
+        context.textBaseline = 'middle'
+        for (let row = firstRow; row <= lastRow; row++) {
+          for (let col = firstCol; col <= lastCol; col++) {
+            const index = row * cols + col
+            const text = formatLabel(index)
+            // Skip values too wide to read inside their cell
+            if (context.measureText(text).width > view.scale - 4) continue
+            context.fillStyle = getTextColorForMoisture(values[index])
+            context.fillText(text, view.x + (col + 0.5) * view.scale, view.y + (row + 0.5) * view.scale)
+          }
+        }
+      }
+      if (groups) {
+        const { firstRow, lastRow, firstCol, lastCol } = visibleCells(scene)
+        const { map } = groups
+        // One path per color, each drawn just inside the cells of its group
+        const paths = new Map<string, Path2D>()
+        const inset = Math.min(1.5, view.scale / 4)
+        for (let row = firstRow; row <= lastRow; row++) {
+          for (let col = firstCol; col <= lastCol; col++) {
+            const group = map[row * cols + col]
+            const color = groups.colors[group]
+            if (!group || !color) continue
+            const path = paths.get(color) ?? new Path2D()
+            paths.set(color, path)
+            const left = view.x + col * view.scale + inset
+            const top = view.y + row * view.scale + inset
+            const right = view.x + (col + 1) * view.scale - inset
+            const bottom = view.y + (row + 1) * view.scale - inset
+            const edge = (x1: number, y1: number, x2: number, y2: number) => {
+              path.moveTo(x1, y1)
+              path.lineTo(x2, y2)
+            }
+            if (row === 0 || map[(row - 1) * cols + col] !== group) edge(left, top, right, top)
+            if (row === rows - 1 || map[(row + 1) * cols + col] !== group) edge(left, bottom, right, bottom)
+            if (col === 0 || map[row * cols + col - 1] !== group) edge(left, top, left, bottom)
+            if (col === cols - 1 || map[row * cols + col + 1] !== group) edge(right, top, right, bottom)
+          }
+        }
+        context.lineWidth = 2
+        paths.forEach((path, color) => {
+          context.strokeStyle = color
+          context.stroke(path)
+        })
+      }
+      if (arrows && view.scale >= MIN_ARROW_PIXELS) {
+        let largest = 0
+        for (let index = 0; index < rows * cols; index++) largest = Math.max(largest, Math.hypot(arrows.x[index], arrows.y[index]))
+        const { firstRow, lastRow, firstCol, lastCol } = visibleCells(scene)
+        context.strokeStyle = arrows.color
+        context.lineWidth = clamp(view.scale / 20, 1, 3)
+        context.lineCap = 'round'
+        for (let row = firstRow; row <= lastRow && largest > 0; row++) {
+          for (let col = firstCol; col <= lastCol; col++) {
+            const index = row * cols + col
+            const magnitude = Math.hypot(arrows.x[index], arrows.y[index])
+            // Flows too small to see are left out rather than drawn as specks
+            if (magnitude < largest * 0.05) continue
+            const length = view.scale * 0.8 * magnitude / largest
+            const dx = arrows.x[index] / magnitude * length / 2
+            const dy = arrows.y[index] / magnitude * length / 2
+            const x = view.x + (col + 0.5) * view.scale
+            const y = view.y + (row + 0.5) * view.scale
+            const head = Math.min(length / 2, view.scale * 0.15)
+            const angle = Math.atan2(dy, dx)
+            context.beginPath()
+            context.moveTo(x - dx, y - dy)
+            context.lineTo(x + dx, y + dy)
+            context.moveTo(x + dx - head * Math.cos(angle - Math.PI / 6), y + dy - head * Math.sin(angle - Math.PI / 6))
+            context.lineTo(x + dx, y + dy)
+            context.lineTo(x + dx - head * Math.cos(angle + Math.PI / 6), y + dy - head * Math.sin(angle + Math.PI / 6))
+            context.stroke()
+          }
+        }
+      }
+      if (markers) {
+        const radius = clamp(view.scale * 0.2, 2, 8)
+        context.font = '10px sans-serif'
+        context.textAlign = 'center'
+        context.textBaseline = 'bottom'
+        for (const { cell, color, caption } of markers) {
+          const x = view.x + (cell % cols + 0.5) * view.scale
+          const top = view.y + Math.floor(cell / cols) * view.scale
+          const y = top + Math.min(radius + 2, view.scale / 2)
+          context.beginPath()
+          context.arc(x, y, radius, 0, 2 * Math.PI)
+          context.fillStyle = color
+          context.fill()
+          context.lineWidth = 1
+          context.strokeStyle = '#ffffff'
+          context.stroke()
+          if (caption && view.scale >= MIN_LABEL_PIXELS) {
+            context.fillStyle = color
+            context.fillText(caption, x, top + view.scale - 2)
+          }
+        }
+      }
+      if (highlight) {
+        const { firstRow, lastRow, firstCol, lastCol } = visibleCells(scene)
+        context.fillStyle = 'rgba(255, 255, 255, 0.5)'
+        for (let row = firstRow; row <= lastRow; row++) {
+          for (let col = firstCol; col <= lastCol; col++) {
+            if (highlight[row * cols + col]) {
+              context.fillRect(view.x + col * view.scale, view.y + row * view.scale, view.scale, view.scale)
+            }
+          }
+        }
+      }
+      if (focusedCell !== null) {
+        context.lineWidth = 2
+        context.strokeStyle = '#2563eb'
+        const x = view.x + (focusedCell % cols) * view.scale
+        const y = view.y + Math.floor(focusedCell / cols) * view.scale
+        context.strokeRect(x - 1, y - 1, view.scale + 2, view.scale + 2)
+      }
+    })
+    return () => cancelAnimationFrame(frame)
+  }, [rendererReady, rows, cols, colors, flags, view, size, values, highlight, groups, markers, arrows, formatLabel, focusedCell])
+
+  // Zooms by `factor` keeping the point (x, y) of the canvas in place
+  const zoom = (factor: number, x = size.width / 2, y = size.height / 2) => {
+    setView(current => {
+      if (!current) return current
+      const scale = clamp(current.scale * factor, minScale, MAX_CELL_PIXELS)
+      return { scale, x: x - (x - current.x) * scale / current.scale, y: y - (y - current.y) * scale / current.scale }
+    })
+  }
+  const zoomRef = useRef(zoom)
+  zoomRef.current = zoom
+
+  useEffect(() => {
+    const canvas = overlayRef.current
+    if (!canvas) return
+    // Registered by hand because React's wheel listener is passive and cannot stop the page scrolling
+    const handleWheel = (event: WheelEvent) => {
+      event.preventDefault()
+      const bounds = canvas.getBoundingClientRect()
+      zoomRef.current(Math.exp(-event.deltaY * 0.002), event.clientX - bounds.left, event.clientY - bounds.top)
+    }
+    canvas.addEventListener('wheel', handleWheel, { passive: false })
+    return () => canvas.removeEventListener('wheel', handleWheel)
+  }, [])
+
+  const cellAt = (clientX: number, clientY: number) => {
+    const canvas = overlayRef.current
+    if (!canvas || !view) return null
+    const bounds = canvas.getBoundingClientRect()
+    const col = Math.floor((clientX - bounds.left - view.x) / view.scale)
+    const row = Math.floor((clientY - bounds.top - view.y) / view.scale)
+    return row >= 0 && row < rows && col >= 0 && col < cols ? { row, col } : null
+  }
+
+  const handleKeyDown = (event: React.KeyboardEvent) => {
+    const moves: Record<string, [number, number]> = { ArrowUp: [-1, 0], ArrowDown: [1, 0], ArrowLeft: [0, -1], ArrowRight: [0, 1] }
+    if (event.key in moves) {
+      event.preventDefault()
+      const [rowStep, colStep] = moves[event.key]
+      const current = focusedCell ?? 0
+      const row = clamp(Math.floor(current / cols) + rowStep, 0, rows - 1)
+      const col = clamp(current % cols + colStep, 0, cols - 1)
+      setFocusedCell(row * cols + col)
+    } else if ((event.key === 'Enter' || event.key === ' ') && focusedCell !== null) {
+      event.preventDefault()
+      onCellClick?.(Math.floor(focusedCell / cols), focusedCell % cols)
+    } else if (event.key === '+' || event.key === '=') {
+      zoom(ZOOM_STEP)
+    } else if (event.key === '-') {
+      zoom(1 / ZOOM_STEP)
+    }
+  }
+
+  return (
+    <div ref={containerRef} className="relative w-full" style={{ height: size.height || undefined }}>
+      <canvas
+        key={preferCanvas ? 'canvas' : 'webgl'}
+        ref={canvasRef}
+        className="absolute inset-0"
+        style={{ width: size.width, height: size.height }}
+      />
+      <canvas
+        ref={overlayRef}
+        className={`absolute inset-0 touch-none ${stroke ? 'cursor-crosshair' : 'cursor-pointer'} focus:outline-none focus-visible:ring-2 focus-visible:ring-ring`}
+        style={{ width: size.width, height: size.height }}
+        tabIndex={0}
+        role="application"
+        aria-label={`${label}. ${stroke ? 'Drag to paint, Shift and drag' : 'Drag'} to pan, scroll to zoom, arrow keys to move between cells${onCellClick ? ' and Enter to open one' : ''}.`}
+        onPointerDown={(event) => {
+          if (!view) return
+          event.currentTarget.setPointerCapture(event.pointerId)
+          const cell = stroke && !event.shiftKey && event.button === 0 ? cellAt(event.clientX, event.clientY) : null
+          if (stroke && cell) {
+            strokeRef.current = cell.row * cols + cell.col
+            stroke.start(cell.row, cell.col)
+            return
+          }
+          dragRef.current = { pointerX: event.clientX, pointerY: event.clientY, view, moved: false }
+        }}
+        onPointerMove={(event) => {
+          if (strokeRef.current !== null) {
+            const cell = cellAt(event.clientX, event.clientY)
+            if (!cell || cell.row * cols + cell.col === strokeRef.current) return
+            strokeRef.current = cell.row * cols + cell.col
+            stroke?.move(cell.row, cell.col)
+            return
+          }
+          const drag = dragRef.current
+          if (!drag) return
+          const dx = event.clientX - drag.pointerX
+          const dy = event.clientY - drag.pointerY
+          if (!drag.moved && Math.hypot(dx, dy) < DRAG_THRESHOLD) return
+          drag.moved = true
+          setView({ ...drag.view, x: drag.view.x + dx, y: drag.view.y + dy })
+        }}
+        onPointerUp={(event) => {
+          if (strokeRef.current !== null) {
+            strokeRef.current = null
+            stroke?.end()
+            return
+          }
+          const drag = dragRef.current
+          dragRef.current = null
+          if (!drag || drag.moved) return
+          const cell = cellAt(event.clientX, event.clientY)
+          if (!cell) return
+          setFocusedCell(cell.row * cols + cell.col)
+          onCellClick?.(cell.row, cell.col)
+        }}
+        onPointerCancel={() => {
+          dragRef.current = null
+          if (strokeRef.current !== null) {
+            strokeRef.current = null
+            stroke?.end()
+          }
+        }}
+        onKeyDown={handleKeyDown}
+        onBlur={() => setFocusedCell(null)}
+      />
+      <div className="absolute right-2 top-2 flex flex-col space-y-1">
+        <Button size="icon" variant="secondary" aria-label="Zoom in" onClick={() => zoom(ZOOM_STEP)}>
+          <Plus className="h-4 w-4" />
+        </Button>
+        <Button size="icon" variant="secondary" aria-label="Zoom out" onClick={() => zoom(1 / ZOOM_STEP)}>
+          <Minus className="h-4 w-4" />
+        </Button>
+        <Button size="icon" variant="secondary" aria-label="Fit grid" onClick={() => setView(fitView)}>
+          <Maximize className="h-4 w-4" />
+        </Button>
+      </div>
+      <p className="sr-only" aria-live="polite">
+        {focusedCell !== null && describeCell ? describeCell(focusedCell) : ''}
+      </p>
+    </div>
+  )
+}
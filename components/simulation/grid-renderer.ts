@@ -0,0 +1,235 @@
+// Cell size (CSS pixels) from which grid lines and tap outlines are drawn
+export const MIN_OUTLINE_PIXELS = 6
+
+/** Placement of the grid on the canvas: CSS pixels per cell and the canvas position of the grid's top-left corner. */
+export interface GridView {
+  scale: number
+  x: number
+  y: number
+}
+
+export interface GridScene {
+  rows: number
+  cols: number
+  // RGBA bytes per cell, row-major
+  colors: Uint8Array
+  // RGBA bytes per cell: red set where the tap is on, green where it is overridden
+  flags: Uint8Array | null
+  view: GridView
+  // CSS pixels
+  width: number
+  height: number
+  pixelRatio: number
+}
+
+export interface GridRenderer {
+  kind: 'webgl' | 'canvas'
+  // Largest number of rows or columns the renderer can draw
+  maxGridSize: number
+  draw: (scene: GridScene) => void
+  dispose: () => void
+}
+
+/** Rows and columns at least partly inside the canvas. */
+export const visibleCells = ({ rows, cols, view, width, height }: Pick<GridScene, 'rows' | 'cols' | 'view' | 'width' | 'height'>) => ({
+  firstRow: Math.max(0, Math.floor(-view.y / view.scale)),
+  lastRow: Math.min(rows - 1, Math.floor((height - view.y) / view.scale)),
+  firstCol: Math.max(0, Math.floor(-view.x / view.scale)),
+  lastCol: Math.min(cols - 1, Math.floor((width - view.x) / view.scale)),
+})
+
+const vertexShaderSource = `
+attribute vec2 position;
+void main() {
+  gl_Position = vec4(position, 0.0, 1.0);
+}
+`
+
+// Works per screen pixel: finds the cell under it, looks its color up in a
+// one-texel-per-cell texture and adds grid lines and tap outlines near edges.
+const fragmentShaderSource = `
+#ifdef GL_FRAGMENT_PRECISION_HIGH
+precision highp float;
+#else
+precision mediump float;
+#endif
+uniform sampler2D colors;
+uniform sampler2D flags;
+uniform vec2 gridSize;
+uniform vec2 origin;
+uniform float cellPixels;
+uniform float canvasHeight;
+uniform float pixelRatio;
+uniform bool outlines;
+void main() {
+  vec2 pixel = vec2(gl_FragCoord.x, canvasHeight - gl_FragCoord.y) / pixelRatio;
+  vec2 position = (pixel - origin) / cellPixels;
+  if (position.x < 0.0 || position.y < 0.0 || position.x >= gridSize.x || position.y >= gridSize.y) discard;
+  vec2 cell = floor(position);
+  vec2 uv = (cell + 0.5) / gridSize;
+  vec4 color = texture2D(colors, uv);
+  if (outlines) {
+    vec2 inside = position - cell;
+    vec2 edge = min(inside, 1.0 - inside) * cellPixels;
+    float distance = min(edge.x, edge.y);
+    vec4 flag = texture2D(flags, uv);
+    if (flag.r > 0.5 && distance < 2.0) color = vec4(1.0, 1.0, 0.0, 1.0);
+    else if (distance < 0.5) color = vec4(0.5, 0.5, 0.5, 1.0);
+    else if (flag.g > 0.5 && distance < 4.0) color = vec4(1.0, 0.0, 0.0, 1.0);
+  }
+  gl_FragColor = color;
+}
+`
+
+const compileShader = (gl: WebGLRenderingContext, type: number, source: string) => {
+  const shader = gl.createShader(type)
+  if (!shader) return null
+  gl.shaderSource(shader, source)
+  gl.compileShader(shader)
+  return gl.getShaderParameter(shader, gl.COMPILE_STATUS) ? shader : null
+}
+
+const createTexture = (gl: WebGLRenderingContext) => {
+  const texture = gl.createTexture()
+  gl.bindTexture(gl.TEXTURE_2D, texture)
+  gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, gl.NEAREST)
+  gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MAG_FILTER, gl.NEAREST)
+  gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_S, gl.CLAMP_TO_EDGE)
+  gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_T, gl.CLAMP_TO_EDGE)
+  return texture
+}
+
+const createWebGLRenderer = (canvas: HTMLCanvasElement): GridRenderer | null => {
+  const gl = canvas.getContext('webgl', { antialias: false, premultipliedAlpha: false })
+  if (!gl) return null
+  const vertexShader = compileShader(gl, gl.VERTEX_SHADER, vertexShaderSource)
+  const fragmentShader = compileShader(gl, gl.FRAGMENT_SHADER, fragmentShaderSource)
+  const program = gl.createProgram()
+  if (!vertexShader || !fragmentShader || !program) return null
+  gl.attachShader(program, vertexShader)
+  gl.attachShader(program, fragmentShader)
+  gl.linkProgram(program)
+  if (!gl.getProgramParameter(program, gl.LINK_STATUS)) return null
+  gl.useProgram(program)
+
+  const quad = gl.createBuffer()
+  gl.bindBuffer(gl.ARRAY_BUFFER, quad)
+  gl.bufferData(gl.ARRAY_BUFFER, new Float32Array([-1, -1, 1, -1, -1, 1, 1, 1]), gl.STATIC_DRAW)
+  const position = gl.getAttribLocation(program, 'position')
+  gl.enableVertexAttribArray(position)
+  gl.vertexAttribPointer(position, 2, gl.FLOAT, false, 0, 0)
+
+  const colorTexture = createTexture(gl)
+  const flagTexture = createTexture(gl)
+  gl.uniform1i(gl.getUniformLocation(program, 'colors'), 0)
+  gl.uniform1i(gl.getUniformLocation(program, 'flags'), 1)
+  const uniform = (name: string) => gl.getUniformLocation(program, name)
+  const uniforms = {
+    gridSize: uniform('gridSize'),
+    origin: uniform('origin'),
+    cellPixels: uniform('cellPixels'),
+    canvasHeight: uniform('canvasHeight'),
+    pixelRatio: uniform('pixelRatio'),
+    outlines: uniform('outlines'),
+  }
+  const emptyFlags = new Uint8Array(4)
+  let uploadedColors: Uint8Array | null = null
+  let uploadedFlags: Uint8Array | null = null
+
+  const upload = (unit: number, texture: WebGLTexture | null, data: Uint8Array, cols: number, rows: number) => {
+    gl.activeTexture(unit)
+    gl.bindTexture(gl.TEXTURE_2D, texture)
+    gl.texImage2D(gl.TEXTURE_2D, 0, gl.RGBA, cols, rows, 0, gl.RGBA, gl.UNSIGNED_BYTE, data)
+  }
+
+  return {
+    kind: 'webgl',
+    maxGridSize: gl.getParameter(gl.MAX_TEXTURE_SIZE),
+    draw: ({ rows, cols, colors, flags, view, width, height, pixelRatio }) => {
+      gl.viewport(0, 0, Math.round(width * pixelRatio), Math.round(height * pixelRatio))
+      gl.clearColor(0, 0, 0, 0)
+      gl.clear(gl.COLOR_BUFFER_BIT)
+      if (colors !== uploadedColors) {
+        upload(gl.TEXTURE0, colorTexture, colors, cols, rows)
+        uploadedColors = colors
+      }
+      if (flags !== uploadedFlags) {
+        upload(gl.TEXTURE1, flagTexture, flags ?? emptyFlags, flags ? cols : 1, flags ? rows : 1)
+        uploadedFlags = flags
+      }
+      gl.uniform2f(uniforms.gridSize, cols, rows)
+      gl.uniform2f(uniforms.origin, view.x, view.y)
+      gl.uniform1f(uniforms.cellPixels, view.scale)
+      gl.uniform1f(uniforms.canvasHeight, Math.round(height * pixelRatio))
+      gl.uniform1f(uniforms.pixelRatio, pixelRatio)
+      gl.uniform1i(uniforms.outlines, flags && view.scale >= MIN_OUTLINE_PIXELS ? 1 : 0)
+      gl.drawArrays(gl.TRIANGLE_STRIP, 0, 4)
+    },
+    dispose: () => {
+      gl.deleteTexture(colorTexture)
+      gl.deleteTexture(flagTexture)
+      gl.deleteBuffer(quad)
+      gl.deleteProgram(program)
+    },
+  }
+}
+
+const createCanvas2DRenderer = (canvas: HTMLCanvasElement): GridRenderer | null => {
+  const context = canvas.getContext('2d')
+  // One pixel per cell, scaled up without smoothing when drawn
+  const bitmap = document.createElement('canvas')
+  const bitmapContext = bitmap.getContext('2d')
+  if (!context || !bitmapContext) return null
+  let drawnColors: Uint8Array | null = null
+
+  return {
+    kind: 'canvas',
+    maxGridSize: Infinity,
+    draw: (scene) => {
+      const { rows, cols, colors, flags, view, pixelRatio } = scene
+      if (colors !== drawnColors) {
+        bitmap.width = cols
+        bitmap.height = rows
+        bitmapContext.putImageData(new ImageData(new Uint8ClampedArray(colors.buffer, colors.byteOffset, colors.length), cols, rows), 0, 0)
+        drawnColors = colors
+      }
+      context.setTransform(1, 0, 0, 1, 0, 0)
+      context.clearRect(0, 0, canvas.width, canvas.height)
+      context.imageSmoothingEnabled = false
+      context.setTransform(pixelRatio * view.scale, 0, 0, pixelRatio * view.scale, pixelRatio * view.x, pixelRatio * view.y)
+      context.drawImage(bitmap, 0, 0)
+      if (!flags || view.scale < MIN_OUTLINE_PIXELS) return
+
+      context.setTransform(pixelRatio, 0, 0, pixelRatio, 0, 0)
+      const { firstRow, lastRow, firstCol, lastCol } = visibleCells(scene)
+      for (let row = firstRow; row <= lastRow; row++) {
+        for (let col = firstCol; col <= lastCol; col++) {
+          const x = view.x + col * view.scale
+          const y = view.y + row * view.scale
+          const index = (row * cols + col) * 4
+          context.lineWidth = 1
+          context.strokeStyle = 'gray'
+          context.strokeRect(x, y, view.scale, view.scale)
+          if (flags[index + 1]) {
+            context.lineWidth = 2
+            context.strokeStyle = 'red'
+            context.strokeRect(x + 3, y + 3, view.scale - 6, view.scale - 6)
+          }
+          if (flags[index]) {
+            context.lineWidth = 2
+            context.strokeStyle = 'yellow'
+            context.strokeRect(x + 1, y + 1, view.scale - 2, view.scale - 2)
+          }
+        }
+      }
+    },
+    dispose: () => {
+      bitmap.width = 0
+      bitmap.height = 0
+    },
+  }
+}
+
+/** WebGL renderer where the browser supports it, 2D canvas otherwise or when `preferCanvas` is set. */
+export const createGridRenderer = (canvas: HTMLCanvasElement, preferCanvas = false) =>
+  (preferCanvas ? null : createWebGLRenderer(canvas)) ?? createCanvas2DRenderer(canvas)
@@ -0,0 +1,45 @@
+import React, { useState } from 'react'
+
+export const MAX_PAINT_CELLS = 2500
+
+/** Click-and-drag painter for a row-major map of categories (soil textures, crops). */
+export function MapPainter<T extends string>({ rows, cols, map, brush, colors, onChange }: {
+  rows: number
+  cols: number
+  map: T[]
+  brush: T
+  colors: Record<T, string>
+  onChange: (map: T[]) => void
+}) {
+  const [painting, setPainting] = useState(false)
+
+  const paint = (index: number) => {
+    if (map[index] === brush) return
+    const next = [...map]
+    next[index] = brush
+    onChange(next)
+  }
+
+  return (
+    <div
+      className="grid gap-px select-none overflow-auto max-h-[40vh]"
+      style={{ gridTemplateColumns: `repeat(${cols}, minmax(0, 1fr))` }}
+      onMouseLeave={() => setPainting(false)}
+      onMouseUp={() => setPainting(false)}
+    >
+      {map.slice(0, rows * cols).map((category, index) => (
+        <div
+          key={index}
+          className="aspect-square cursor-crosshair"
+          style={{ backgroundColor: colors[category] }}
+          onMouseDown={() => {
+            setPainting(true)
+            paint(index)
+          }}
+          onMouseEnter={() => painting && paint(index)}
+          aria-label={`Cell ${Math.floor(index / cols)},${index % cols}: ${category}`}
+        />
+      ))}
+    </div>
+  )
+}
@@ -0,0 +1,182 @@
+import React from 'react'
+import { Brush, Minus, PaintBucket, Redo2, Square, Undo2 } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { useSettings } from '@/contexts/SettingsContext'
+import { soilTextureIds, soilTextures, type SoilTextureId } from '@/lib/simulation/soil'
+import type { PaintTool, PaintValue } from '@/lib/simulation/paint'
+import type { IrrigationZone } from '@/lib/simulation/zones'
+import { fromDisplayMoisture, moistureStep, moistureUnitLabel, roundMoisture, toDisplayMoisture, type MoistureBasis } from '@/lib/units'
+import type { PaintTools } from './use-paint-tools'
+
+const tools: { id: PaintTool; name: string; icon: React.ElementType }[] = [
+  { id: 'brush', name: 'Brush', icon: Brush },
+  { id: 'rectangle', name: 'Rectangle', icon: Square },
+  { id: 'line', name: 'Line', icon: Minus },
+  { id: 'fill', name: 'Flood Fill', icon: PaintBucket },
+]
+
+// A fresh value of each kind when switching what is painted
+const defaultValues: Record<PaintValue['kind'], PaintValue> = {
+  moisture: { kind: 'moisture', moisture: 0.8 },
+  soil: { kind: 'soil', soil: 'sand' },
+  diffusivity: { kind: 'diffusivity', scale: 2 },
+  tap: { kind: 'tap', tap: 'on' },
+  zone: { kind: 'zone', zone: 0 },
+}
+
+/** Tool, value and undo/redo controls for painting on the simulation grid. */
+export function PaintToolbar({ paint, moistureBasis, zones }: {
+  paint: PaintTools
+  // Moisture is entered against this basis in the chosen moisture unit
+  moistureBasis: MoistureBasis
+  zones: IrrigationZone[]
+}) {
+  const { units, moistureUnit } = useSettings()
+  const { tool, setTool, value, setValue, radius, setRadius } = paint
+
+  return (
+    <div className="space-y-2">
+      <Label>Paint</Label>
+      <div className="flex flex-wrap items-center gap-2">
+        {tools.map(({ id, name, icon: Icon }) => (
+          <Button
+            key={id}
+            size="icon"
+            variant={tool === id ? 'default' : 'outline'}
+            aria-label={name}
+            aria-pressed={tool === id}
+            title={name}
+            onClick={() => setTool(tool === id ? null : id)}
+          >
+            <Icon className="h-4 w-4" />
+          </Button>
+        ))}
+        <Button size="icon" variant="ghost" aria-label="Undo" title="Undo (Ctrl+Z)" onClick={paint.undo} disabled={!paint.canUndo}>
+          <Undo2 className="h-4 w-4" />
+        </Button>
+        <Button size="icon" variant="ghost" aria-label="Redo" title="Redo (Ctrl+Shift+Z)" onClick={paint.redo} disabled={!paint.canRedo}>
+          <Redo2 className="h-4 w-4" />
+        </Button>
+      </div>
+      {tool && (
+        <>
+          <div className="grid grid-cols-2 gap-2">
+            <Select value={value.kind} onValueChange={(kind: PaintValue['kind']) => {
+                // Zones start on the first one defined rather than on none
+                setValue(kind === 'zone' ? { kind: 'zone', zone: zones[0]?.id ?? 0 } : defaultValues[kind])
+              }}>
+              <SelectTrigger aria-label="Paint what">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="moisture">Moisture</SelectItem>
+                <SelectItem value="soil">Soil Texture</SelectItem>
+                <SelectItem value="diffusivity">Diffusivity Multiplier</SelectItem>
+                <SelectItem value="tap">Tap Override</SelectItem>
+                <SelectItem value="zone">Irrigation Zone</SelectItem>
+              </SelectContent>
+            </Select>
+            {value.kind === 'moisture' && (
+              <div className="flex items-center space-x-2">
+                <Input
+                  type="number"
+                  aria-label="Moisture to paint"
+                  min={0}
+                  max={roundMoisture(toDisplayMoisture(1, moistureBasis, moistureUnit, units), moistureUnit, units)}
+                  step={moistureStep(moistureUnit, units)}
+                  value={roundMoisture(toDisplayMoisture(value.moisture, moistureBasis, moistureUnit, units), moistureUnit, units)}
+                  onChange={(e) => {
+                    const entered = parseFloat(e.target.value)
+                    if (isNaN(entered)) return
+                    const moisture = fromDisplayMoisture(entered, moistureBasis, moistureUnit, units)
+                    setValue({ kind: 'moisture', moisture: Math.min(1, Math.max(0, moisture)) })
+                  }}
+                />
+                <span>{moistureUnitLabel(moistureUnit, units)}</span>
+              </div>
+            )}
+            {value.kind === 'soil' && (
+              <Select value={value.soil} onValueChange={(soil: SoilTextureId) => setValue({ kind: 'soil', soil })}>
+                <SelectTrigger aria-label="Soil texture to paint">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {soilTextureIds.map((id) => (
+                    <SelectItem key={id} value={id}>{soilTextures[id].name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+            {value.kind === 'diffusivity' && (
+              <div className="flex items-center space-x-2">
+                <Input
+                  type="number"
+                  aria-label="Diffusivity multiplier to paint"
+                  min={0}
+                  step="any"
+                  value={value.scale}
+                  onChange={(e) => {
+                    const scale = parseFloat(e.target.value)
+                    if (!isNaN(scale) && scale >= 0) setValue({ kind: 'diffusivity', scale })
+                  }}
+                />
+                <span>×</span>
+              </div>
+            )}
+            {value.kind === 'tap' && (
+              <Select value={value.tap} onValueChange={(tap: 'on' | 'off' | 'auto') => setValue({ kind: 'tap', tap })}>
+                <SelectTrigger aria-label="Tap setting to paint">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="on">Forced On</SelectItem>
+                  <SelectItem value="off">Forced Off</SelectItem>
+                  <SelectItem value="auto">Automatic</SelectItem>
+                </SelectContent>
+              </Select>
+            )}
+            {value.kind === 'zone' && (
+              <Select value={String(value.zone)} onValueChange={(zone) => setValue({ kind: 'zone', zone: parseInt(zone) })}>
+                <SelectTrigger aria-label="Zone to paint">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="0">No Zone</SelectItem>
+                  {zones.map((zone) => (
+                    <SelectItem key={zone.id} value={String(zone.id)}>{zone.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+          </div>
+          {tool !== 'fill' && tool !== 'rectangle' && (
+            <div className="flex items-center space-x-2">
+              <Label htmlFor="brushRadius" className="whitespace-nowrap">Brush Radius (cells)</Label>
+              <Input
+                id="brushRadius"
+                type="number"
+                min={0}
+                max={50}
+                step={1}
+                value={radius}
+                onChange={(e) => {
+                  const entered = parseFloat(e.target.value)
+                  if (!isNaN(entered) && entered >= 0 && entered <= 50) setRadius(entered)
+                }}
+                className="w-20"
+              />
+            </div>
+          )}
+          <p className="text-sm text-muted-foreground">
+            {tool === 'fill'
+              ? 'Click a cell to fill the connected area around it.'
+              : 'Drag over the grid to paint. Hold Shift and drag to pan.'}
+          </p>
+        </>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,74 @@
+import type { ColorScheme } from '@/lib/settings'
+import type { CropId } from '@/lib/simulation/crops'
+import type { SoilTextureId } from '@/lib/simulation/soil'
+
+export const soilTextureColors: Record<SoilTextureId, string> = {
+  sand: '#e9c46a',
+  loam: '#8d6346',
+  clay: '#b5533c',
+  custom: '#6b705c',
+}
+
+export const cropColors: Record<CropId | 'none', string> = {
+  none: '#d6ccc2',
+  grass: '#52b788',
+  maize: '#f4a261',
+  wheat: '#e9d8a6',
+  tomato: '#e63946',
+  potato: '#9c6644',
+}
+
+// Zone outlines on the grid by the state of the zone's valve
+export const valveColors = {
+  open: '#2563eb',
+  closed: '#6b7280',
+}
+
+// Probe markers on the grid by the state of the probe
+export const probeColors = {
+  working: '#7c3aed',
+  failed: '#dc2626',
+}
+
+// Arrows of overland runoff on the grid
+export const runoffColor = '#0f766e'
+
+// Hue, saturation and lightness of a moisture value in each color scheme
+const moistureHsl = (moisture: number, colorScheme: ColorScheme): [number, number, number] => {
+  switch (colorScheme) {
+    case 'blue':
+      return [240, 100, 100 - moisture * 50] // 100% to 50%
+    case 'grayscale':
+      return [0, 0, 100 - moisture * 100]
+    default:
+      return [moisture * 240, 100, 50] // 0 (red) to 240 (blue)
+  }
+}
+
+export const getColorForMoisture = (moisture: number, colorScheme: ColorScheme): string => {
+  const [hue, saturation, lightness] = moistureHsl(moisture, colorScheme)
+  return `hsl(${hue}, ${saturation}%, ${lightness}%)`
+}
+
+export const getTextColorForMoisture = (moisture: number): string => {
+  return moisture > 0.5 ? 'white' : 'black'
+}
+
+export const MOISTURE_COLOR_STEPS = 256
+
+/** RGBA bytes of the color scheme at MOISTURE_COLOR_STEPS evenly spaced moisture values, for canvas rendering. */
+export const moistureColorTable = (colorScheme: ColorScheme) => {
+  const table = new Uint8Array(MOISTURE_COLOR_STEPS * 4)
+  for (let step = 0; step < MOISTURE_COLOR_STEPS; step++) {
+    const [hue, saturation, lightness] = moistureHsl(step / (MOISTURE_COLOR_STEPS - 1), colorScheme)
+    const s = saturation / 100
+    const l = lightness / 100
+    const a = s * Math.min(l, 1 - l)
+    const channel = (n: number) => {
+      const k = (n + hue / 30) % 12
+      return Math.round(255 * (l - a * Math.max(-1, Math.min(k - 3, 9 - k, 1))))
+    }
+    table.set([channel(0), channel(8), channel(4), 255], step * 4)
+  }
+  return table
+}
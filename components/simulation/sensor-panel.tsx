@@ -0,0 +1,130 @@
+import React from 'react'
+import { X } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { useSettings } from '@/contexts/SettingsContext'
+import type { Field } from '@/lib/simulation/field'
+import type { ProbeState, SensorNetwork } from '@/lib/simulation/sensors'
+import {
+  formatMoisture,
+  fromDisplayMoisture,
+  moistureStep,
+  moistureUnitLabel,
+  roundMoisture,
+  toDisplayMoisture,
+  type MoistureBasis,
+} from '@/lib/units'
+import { probeColors } from './palettes'
+
+/** How the probes measure, where they are and what they last read. */
+export function SensorPanel({ field, sensors, probeStates, estimateError, basis, onChange }: {
+  field: Field
+  sensors: SensorNetwork
+  probeStates: Record<number, ProbeState>
+  // Root mean square error of the interpolated readings against the true moisture, null when unknown
+  estimateError: number | null
+  // Saturations are of the whole profile, shown against this basis
+  basis: MoistureBasis
+  onChange: (sensors: SensorNetwork) => void
+}) {
+  const { units, moistureUnit } = useSettings()
+  const unit = moistureUnitLabel(moistureUnit, units)
+  const working = sensors.probes.filter((probe) => probeStates[probe.id]?.failedAt == null).length
+
+  // Input for a saturation difference in the chosen moisture unit, which converts without an offset
+  const saturationInput = (key: 'noise' | 'bias' | 'drift', label: string, min: number) => (
+    <div>
+      <Label htmlFor={`sensor-${key}`}>{`${label} (${unit})`}</Label>
+      <Input
+        id={`sensor-${key}`}
+        type="number"
+        min={min}
+        step={moistureStep(moistureUnit, units)}
+        value={roundMoisture(toDisplayMoisture(sensors[key], basis, moistureUnit, units), moistureUnit, units)}
+        onChange={(e) => {
+          const entered = parseFloat(e.target.value)
+          if (!isNaN(entered) && entered >= min) onChange({ ...sensors, [key]: fromDisplayMoisture(entered, basis, moistureUnit, units) })
+        }}
+      />
+    </div>
+  )
+
+  return (
+    <div className="space-y-2">
+      <Label>Sensor Probes</Label>
+      {sensors.probes.length === 0 ? (
+        <p className="text-sm text-muted-foreground">
+          No probes, so irrigation decisions read the true moisture. Place probes from Cell Details.
+        </p>
+      ) : (
+        <p className="text-sm text-muted-foreground">
+          {`${sensors.probes.length} probes, ${working} working. Irrigation decisions read only the probes, interpolated to the cells between them.`}
+          {estimateError !== null && ` The interpolated moisture is off by ${formatMoisture(estimateError, basis, moistureUnit, units)} (RMS) over the field.`}
+        </p>
+      )}
+      <div className="grid grid-cols-3 gap-2">
+        {saturationInput('noise', 'Noise σ', 0)}
+        {saturationInput('bias', 'Bias', -Infinity)}
+        {saturationInput('drift', 'Drift per Day', -Infinity)}
+      </div>
+      <div className="grid grid-cols-3 gap-2">
+        <div>
+          <Label htmlFor="sensor-interval">Interval (h)</Label>
+          <Input
+            id="sensor-interval"
+            type="number"
+            min={0}
+            step="any"
+            value={sensors.interval}
+            onChange={(e) => {
+              const interval = parseFloat(e.target.value)
+              if (!isNaN(interval) && interval >= 0) onChange({ ...sensors, interval })
+            }}
+          />
+        </div>
+        <div>
+          <Label htmlFor="sensor-failure">Failures per Day</Label>
+          <Input
+            id="sensor-failure"
+            type="number"
+            min={0}
+            step="any"
+            value={sensors.failureRate}
+            onChange={(e) => {
+              const failureRate = parseFloat(e.target.value)
+              if (!isNaN(failureRate) && failureRate >= 0) onChange({ ...sensors, failureRate })
+            }}
+          />
+        </div>
+        <div>
+          <Label htmlFor="sensor-seed">Seed</Label>
+          <Input id="sensor-seed" value={sensors.seed} onChange={(e) => onChange({ ...sensors, seed: e.target.value })} />
+        </div>
+      </div>
+      {sensors.probes.length > 0 && (
+        <div className="flex flex-wrap gap-1 text-sm">
+          {sensors.probes.map((probe) => {
+            const state = probeStates[probe.id]
+            const failed = state?.failedAt != null
+            const position = `${Math.floor(probe.column / field.cols)},${probe.column % field.cols}`
+            return (
+              <Button
+                key={probe.id}
+                size="sm"
+                variant="outline"
+                className="h-6 px-2"
+                style={{ color: failed ? probeColors.failed : probeColors.working }}
+                aria-label={`Remove probe at ${position}`}
+                onClick={() => onChange({ ...sensors, probes: sensors.probes.filter((other) => other.id !== probe.id) })}
+              >
+                {`${position}: ${failed ? 'failed' : state?.reading != null ? formatMoisture(state.reading, basis, moistureUnit, units) : 'no reading'}`}
+                <X className="ml-1 h-3 w-3" />
+              </Button>
+            )
+          })}
+        </div>
+      )}
+    </div>
+  )
+}
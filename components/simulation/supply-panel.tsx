@@ -0,0 +1,164 @@
+import React from 'react'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Switch } from '@/components/ui/switch'
+import { useSettings } from '@/contexts/SettingsContext'
+import {
+  defaultPressure,
+  rationingPolicies,
+  type RationingPolicy,
+  type SupplyPressure,
+  type SupplyStatus,
+  type WaterSupply,
+} from '@/lib/simulation/supply'
+import {
+  flowUnit,
+  fromDisplayFlow,
+  fromDisplayPressure,
+  fromDisplayVolume,
+  pressureUnit,
+  toDisplayFlow,
+  toDisplayPressure,
+  toDisplayVolume,
+  volumeUnit,
+} from '@/lib/units'
+
+// Input for a limit that may be left empty for none
+const LimitInput = ({ id, label, value, toDisplay, fromDisplay, onChange }: {
+  id: string
+  label: string
+  value: number | null
+  toDisplay: (value: number) => number
+  fromDisplay: (value: number) => number
+  onChange: (value: number | null) => void
+}) => (
+  <div>
+    <Label htmlFor={id}>{label}</Label>
+    <Input
+      id={id}
+      type="number"
+      min={0}
+      step="any"
+      placeholder="No limit"
+      value={value === null ? '' : parseFloat(toDisplay(value).toFixed(3))}
+      onChange={(e) => {
+        if (e.target.value === '') return onChange(null)
+        const entered = parseFloat(e.target.value)
+        if (!isNaN(entered) && entered >= 0) onChange(fromDisplay(entered))
+      }}
+    />
+  </div>
+)
+
+/** Limits of the water supply and what it delivered over the last step. */
+export function SupplyPanel({ supply, status, formatTime, onChange }: {
+  supply: WaterSupply
+  status: SupplyStatus
+  // Formats hours since the start for when a quota ran out
+  formatTime: (elapsed: number) => string
+  onChange: (supply: WaterSupply) => void
+}) {
+  const { units } = useSettings()
+  const flow = (value: number) => `${toDisplayFlow(value, units).toFixed(1)} ${flowUnit(units)}`
+  const volume = (value: number) => `${toDisplayVolume(value, units).toFixed(0)} ${volumeUnit(units)}`
+  const { pressure } = supply
+
+  const changePressure = (changes: Partial<SupplyPressure>) =>
+    pressure && onChange({ ...supply, pressure: { ...pressure, ...changes } })
+
+  const pressureInput = (key: keyof SupplyPressure, label: string, isPressure: boolean) => pressure && (
+    <div>
+      <Label htmlFor={`supply-${key}`}>{isPressure ? `${label} (${pressureUnit(units)})` : label}</Label>
+      <Input
+        id={`supply-${key}`}
+        type="number"
+        min={0}
+        step="any"
+        value={parseFloat((isPressure ? toDisplayPressure(pressure[key], units) : pressure[key]).toFixed(3))}
+        onChange={(e) => {
+          const entered = parseFloat(e.target.value)
+          if (!isNaN(entered) && entered >= 0) changePressure({ [key]: isPressure ? fromDisplayPressure(entered, units) : entered })
+        }}
+      />
+    </div>
+  )
+
+  return (
+    <div className="space-y-2">
+      <Label>Water Supply</Label>
+      <div className="grid grid-cols-3 gap-2">
+        <LimitInput
+          id="supplyMaxFlow"
+          label={`Capacity (${flowUnit(units)})`}
+          value={supply.maxFlow}
+          toDisplay={(value) => toDisplayFlow(value, units)}
+          fromDisplay={(value) => fromDisplayFlow(value, units)}
+          onChange={(maxFlow) => onChange({ ...supply, maxFlow })}
+        />
+        <LimitInput
+          id="supplyDailyQuota"
+          label={`Daily Quota (${volumeUnit(units)})`}
+          value={supply.dailyQuota}
+          toDisplay={(value) => toDisplayVolume(value, units)}
+          fromDisplay={(value) => fromDisplayVolume(value, units)}
+          onChange={(dailyQuota) => onChange({ ...supply, dailyQuota })}
+        />
+        <LimitInput
+          id="supplySeasonQuota"
+          label={`Season Quota (${volumeUnit(units)})`}
+          value={supply.seasonQuota}
+          toDisplay={(value) => toDisplayVolume(value, units)}
+          fromDisplay={(value) => fromDisplayVolume(value, units)}
+          onChange={(seasonQuota) => onChange({ ...supply, seasonQuota })}
+        />
+      </div>
+      <div>
+        <Label htmlFor="supplyPolicy">When Short</Label>
+        <Select value={supply.policy} onValueChange={(policy: RationingPolicy) => onChange({ ...supply, policy })}>
+          <SelectTrigger id="supplyPolicy">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {(Object.keys(rationingPolicies) as RationingPolicy[]).map((policy) => (
+              <SelectItem key={policy} value={policy}>{rationingPolicies[policy]}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      <div className="flex items-center space-x-2">
+        <Switch
+          id="supplyPressure"
+          checked={pressure !== null}
+          onCheckedChange={(checked) => onChange({ ...supply, pressure: checked ? defaultPressure : null })}
+        />
+        <Label htmlFor="supplyPressure">Pressure-Dependent Delivery</Label>
+      </div>
+      {pressure && (
+        <div className="grid grid-cols-2 gap-2">
+          {pressureInput('source', 'Source Pressure', true)}
+          {pressureInput('friction', `Friction Loss at ${flow(1000)}`, true)}
+          {pressureInput('nominal', 'Emitter Rated Pressure', true)}
+          {pressureInput('exponent', 'Emitter Exponent', false)}
+        </div>
+      )}
+      <div className="text-sm">
+        <p>
+          {`Last step: ${flow(status.delivered)} delivered of ${flow(status.demand)} called for`}
+          {status.pressure !== null && `, ${toDisplayPressure(status.pressure, units).toFixed(0)} ${pressureUnit(units)} at the emitters`}
+        </p>
+        <p>
+          {`Used today: ${volume(status.usedToday)}${supply.dailyQuota !== null ? ` of ${volume(supply.dailyQuota)}` : ''}, `}
+          {`this season: ${volume(status.usedSeason)}${supply.seasonQuota !== null ? ` of ${volume(supply.seasonQuota)}` : ''}`}
+        </p>
+        <p>{`Unmet demand: ${volume(status.unmetVolume)}`}</p>
+        {status.dailyQuotaReachedAt !== null && (
+          <p className="text-red-600">{`Daily quota ran out at ${formatTime(status.dailyQuotaReachedAt)}`}</p>
+        )}
+        {status.seasonQuotaReachedAt !== null && (
+          <p className="text-red-600">{`Season quota ran out at ${formatTime(status.seasonQuotaReachedAt)}`}</p>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,148 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react'
+import type { Field } from '@/lib/simulation/field'
+import {
+  applyEdit,
+  brushCells,
+  fillCells,
+  lineCells,
+  paintField,
+  rectangleCells,
+  type PaintEdit,
+  type PaintTool,
+  type PaintValue,
+} from '@/lib/simulation/paint'
+import type { GridStroke } from './grid-canvas'
+
+// Strokes kept for undo
+const MAX_HISTORY = 100
+
+/**
+ * State of the grid paint tools: the active tool and value, the preview of
+ * the stroke in progress, and undo/redo of finished strokes. `update` applies
+ * a change to the newest field.
+ */
+export function usePaintTools({ field, layer, update }: {
+  field: Field | null
+  layer: number
+  update: (change: (field: Field) => Field) => void
+}) {
+  const [tool, setTool] = useState<PaintTool | null>(null)
+  const [value, setValue] = useState<PaintValue>({ kind: 'moisture', moisture: 0.8 })
+  const [radius, setRadius] = useState(1)
+  const [preview, setPreview] = useState<Set<number> | null>(null)
+  const [undoStack, setUndoStack] = useState<PaintEdit[]>([])
+  const [redoStack, setRedoStack] = useState<PaintEdit[]>([])
+  const strokeRef = useRef<{ from: { row: number; col: number }; last: { row: number; col: number }; cells: Set<number> } | null>(null)
+
+  const commit = useCallback((cells: number[]) => {
+    let edit: PaintEdit | null = null
+    update((current) => {
+      const painted = paintField(current, cells, value, layer)
+      edit = painted.edit
+      return painted.field
+    })
+    const done = edit as PaintEdit | null
+    if (!done || done.changes.length === 0) return
+    setUndoStack((stack) => [...stack, done].slice(-MAX_HISTORY))
+    setRedoStack([])
+  }, [update, value, layer])
+
+  const stroke = useMemo<GridStroke | undefined>(() => {
+    if (!tool || !field) return undefined
+    const { rows, cols } = field
+    const shape = (from: { row: number; col: number }, to: { row: number; col: number }) =>
+      tool === 'rectangle' ? rectangleCells(cols, from, to) : lineCells(rows, cols, from, to, radius)
+    return {
+      start: (row, col) => {
+        if (tool === 'fill') {
+          commit(fillCells(field, row, col, value, layer))
+          return
+        }
+        const cell = { row, col }
+        const cells = new Set(tool === 'brush' ? brushCells(rows, cols, row, col, radius) : shape(cell, cell))
+        strokeRef.current = { from: cell, last: cell, cells }
+        setPreview(new Set(cells))
+      },
+      move: (row, col) => {
+        const current = strokeRef.current
+        if (!current) return
+        const cell = { row, col }
+        if (tool === 'brush') {
+          // Joins fast pointer moves so the stroke has no gaps
+          lineCells(rows, cols, current.last, cell, radius).forEach((index) => current.cells.add(index))
+        } else {
+          current.cells = new Set(shape(current.from, cell))
+        }
+        current.last = cell
+        setPreview(new Set(current.cells))
+      },
+      end: () => {
+        const current = strokeRef.current
+        strokeRef.current = null
+        setPreview(null)
+        if (current) commit(Array.from(current.cells))
+      },
+    }
+  }, [tool, field, radius, value, layer, commit])
+
+  const previewMask = useMemo(() => {
+    if (!preview || !field) return null
+    const mask = new Uint8Array(field.rows * field.cols)
+    preview.forEach((cell) => { mask[cell] = 1 })
+    return mask
+  }, [preview, field])
+
+  const undo = useCallback(() => {
+    const edit = undoStack[undoStack.length - 1]
+    if (!edit) return
+    update((current) => applyEdit(current, edit, 'before'))
+    setUndoStack((stack) => stack.slice(0, -1))
+    setRedoStack((stack) => [...stack, edit])
+  }, [undoStack, update])
+
+  const redo = useCallback(() => {
+    const edit = redoStack[redoStack.length - 1]
+    if (!edit) return
+    update((current) => applyEdit(current, edit, 'after'))
+    setRedoStack((stack) => stack.slice(0, -1))
+    setUndoStack((stack) => [...stack, edit])
+  }, [redoStack, update])
+
+  const clearHistory = useCallback(() => {
+    setUndoStack([])
+    setRedoStack([])
+  }, [])
+
+  // Ctrl+Z / Ctrl+Shift+Z (or ⌘ on macOS) and Ctrl+Y, except while typing in a field
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      const target = event.target as HTMLElement | null
+      if (!(event.ctrlKey || event.metaKey) || target?.closest('input, textarea, select')) return
+      const key = event.key.toLowerCase()
+      if (key === 'z' && !event.shiftKey) undo()
+      else if ((key === 'z' && event.shiftKey) || key === 'y') redo()
+      else return
+      event.preventDefault()
+    }
+    window.addEventListener('keydown', handleKeyDown)
+    return () => window.removeEventListener('keydown', handleKeyDown)
+  }, [undo, redo])
+
+  return {
+    tool,
+    setTool,
+    value,
+    setValue,
+    radius,
+    setRadius,
+    stroke,
+    preview: previewMask,
+    undo,
+    redo,
+    canUndo: undoStack.length > 0,
+    canRedo: redoStack.length > 0,
+    clearHistory,
+  }
+}
+
+export type PaintTools = ReturnType<typeof usePaintTools>
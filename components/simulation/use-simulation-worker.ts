@@ -0,0 +1,119 @@
+import { useCallback, useEffect, useRef, useState } from 'react'
+import type { SimulationState } from '@/lib/simulation/engine'
+import type { SimulationParams } from '@/lib/simulation/types'
+import type { WeatherSeries } from '@/lib/simulation/weather'
+import type { RunLimit, SimulationSpeed, StateDiagnostics, StateView, WorkerRequest, WorkerResponse } from '@/lib/simulation/worker-protocol'
+
+/**
+ * Runs the simulation in a Web Worker. The worker sends states as often as it
+ * likes; only the newest is rendered, once per animation frame, so the page
+ * stays responsive however fast the engine steps. What the page shows of a
+ * state beyond the field itself comes from the worker too, its view with each
+ * state and its slower checks a little behind.
+ */
+export function useSimulationWorker({ params, timeStepSize, weather }: {
+  params: SimulationParams
+  timeStepSize: number
+  weather: WeatherSeries | null
+}) {
+  const [simulation, setSimulation] = useState<SimulationState | null>(null)
+  const [running, setRunning] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [view, setView] = useState<StateView | null>(null)
+  const [diagnostics, setDiagnostics] = useState<StateDiagnostics | null>(null)
+  const workerRef = useRef<Worker | null>(null)
+  // Latest state handed to or received from the worker, ahead of what is rendered
+  const stateRef = useRef<SimulationState | null>(null)
+  const revisionRef = useRef(0)
+  const runRef = useRef(0)
+  const configRef = useRef({ params, timeStepSize, weather })
+  configRef.current = { params, timeStepSize, weather }
+
+  const send = useCallback((message: WorkerRequest) => workerRef.current?.postMessage(message), [])
+
+  useEffect(() => {
+    const worker = new Worker(new URL('../../lib/simulation/simulation.worker.ts', import.meta.url))
+    workerRef.current = worker
+    let pending: { state: SimulationState; view: StateView } | null = null
+    let frame: number | null = null
+
+    worker.addEventListener('message', (event: MessageEvent<WorkerResponse>) => {
+      const message = event.data
+      // States from before the last load would undo an edit
+      if (message.revision !== revisionRef.current) return
+      if (message.type === 'diagnostics') {
+        setDiagnostics(message.diagnostics)
+        return
+      }
+      if (message.type === 'view') {
+        setView(message.view)
+        return
+      }
+      const current = message.run === runRef.current
+      if (message.type === 'error') {
+        if (current) setRunning(false)
+        setError(message.message)
+        return
+      }
+      if (current && !message.running) setRunning(false)
+      stateRef.current = message.state
+      pending = { state: message.state, view: message.view }
+      if (frame === null) {
+        frame = requestAnimationFrame(() => {
+          frame = null
+          if (!pending) return
+          setSimulation(pending.state)
+          setView(pending.view)
+        })
+      }
+    })
+
+    // A new worker (after a remount) picks up where the page is
+    worker.postMessage({ type: 'configure', ...configRef.current } satisfies WorkerRequest)
+    if (stateRef.current) {
+      worker.postMessage({ type: 'load', state: stateRef.current, revision: revisionRef.current } satisfies WorkerRequest)
+    }
+    return () => {
+      if (frame !== null) cancelAnimationFrame(frame)
+      worker.terminate()
+      workerRef.current = null
+      setRunning(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    send({ type: 'configure', params, timeStepSize, weather })
+  }, [send, params, timeStepSize, weather])
+
+  /** Replaces the simulation, in the worker as well as on screen. */
+  const load = useCallback((state: SimulationState) => {
+    revisionRef.current++
+    stateRef.current = state
+    setSimulation(state)
+    setError(null)
+    send({ type: 'load', state, revision: revisionRef.current })
+  }, [send])
+
+  /** Applies a change to the newest state, including steps not yet rendered. */
+  const update = useCallback((change: (state: SimulationState) => SimulationState) => {
+    if (stateRef.current) load(change(stateRef.current))
+  }, [load])
+
+  /** Steps at `speed` until paused or, when given, until `limit` is reached. */
+  const run = useCallback((speed: SimulationSpeed, limit: RunLimit | null = null) => {
+    runRef.current++
+    setRunning(true)
+    setError(null)
+    send({ type: 'run', run: runRef.current, speed, limit })
+  }, [send])
+
+  const pause = useCallback(() => {
+    runRef.current++
+    setRunning(false)
+    send({ type: 'pause', run: runRef.current })
+  }, [send])
+
+  const setSpeed = useCallback((speed: SimulationSpeed) => send({ type: 'speed', speed }), [send])
+
+  return { simulation, view, diagnostics, running, error, load, update, run, pause, setSpeed }
+}
@@ -0,0 +1,65 @@
+import React from 'react'
+import type { Units } from '@/lib/settings'
+import { balanceError, type WaterBudget } from '@/lib/simulation/budget'
+import { formatWaterDepth } from '@/lib/units'
+
+// Rows marked optional are left out while they are zero in both columns
+const budgetRows: { label: string; value: (budget: WaterBudget) => number; optional?: boolean }[] = [
+  { label: 'Rainfall in', value: (budget) => budget.rainfall },
+  { label: 'Irrigation in', value: (budget) => budget.irrigation },
+  { label: 'Evapotranspiration out', value: (budget) => -budget.evapotranspiration },
+  { label: 'Deep percolation out', value: (budget) => -budget.deepPercolation },
+  { label: 'Runoff out', value: (budget) => -budget.runoff },
+  ...(['top', 'bottom', 'left', 'right'] as const).map((edge) => ({
+    label: `Lateral flow in across the ${edge} edge`,
+    value: (budget: WaterBudget) => budget.boundaryInflow[edge],
+    optional: true,
+  })),
+  { label: 'Clamp losses (above saturation)', value: (budget) => -budget.clampLoss },
+  { label: 'Clamp gains (below dry)', value: (budget) => budget.clampGain },
+  { label: 'Net storage change', value: (budget) => budget.storageChange },
+  { label: 'Balance error', value: balanceError },
+]
+
+const formatVolume = (value: number, units: Units) => {
+  const rounded = Math.abs(value) < 5e-10 ? 0 : value
+  return `${rounded > 0 ? '+' : ''}${formatWaterDepth(rounded, units)}`
+}
+
+export function WaterBudgetPanel({ lastBudget, cumulativeBudget, storage, units }: {
+  // mm
+  lastBudget: WaterBudget
+  cumulativeBudget: WaterBudget
+  // mm, null until it has been worked out
+  storage: number | null
+  units: Units
+}) {
+  return (
+    <div className="space-y-2">
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="border-b text-left">
+            <th className="py-2">Term</th>
+            <th className="py-2 text-right">Last step</th>
+            <th className="py-2 text-right">Cumulative</th>
+          </tr>
+        </thead>
+        <tbody>
+          {budgetRows.filter(({ value, optional }) => !optional || value(lastBudget) !== 0 || value(cumulativeBudget) !== 0).map(({ label, value }) => (
+            <tr key={label} className="border-b">
+              <td className="py-2">{label}</td>
+              <td className="py-2 text-right font-mono">{formatVolume(value(lastBudget), units)}</td>
+              <td className="py-2 text-right font-mono">{formatVolume(value(cumulativeBudget), units)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      {storage !== null && (
+        <p className="text-sm">Water currently stored: <span className="font-mono">{formatWaterDepth(storage, units)}</span></p>
+      )}
+      <p className="text-sm text-muted-foreground">
+        Amounts are depths of water averaged over the area of the field.
+      </p>
+    </div>
+  )
+}
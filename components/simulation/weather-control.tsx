@@ -0,0 +1,102 @@
+import React, { useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { referenceETMethod, type SiteInfo } from '@/lib/simulation/evapotranspiration'
+import { formatWeatherTime, parseWeatherCsv, seriesEnd, seriesStart, type ReferenceETMethod, type WeatherSeries } from '@/lib/simulation/weather'
+
+const methodDescriptions: Record<ReferenceETMethod, string> = {
+  'measured': 'ET₀ read from the file.',
+  'penman-monteith': 'ET₀ computed with FAO-56 Penman–Monteith.',
+  'hargreaves': 'ET₀ estimated with Hargreaves from temperature only.',
+}
+
+export function WeatherControl({ weather, site, onChange, onSiteChange }: {
+  // Series with ET₀ already filled in where it could be computed
+  weather: WeatherSeries | null
+  site: SiteInfo
+  onChange: (weather: WeatherSeries | null) => void
+  onSiteChange: (site: SiteInfo) => void
+}) {
+  const [error, setError] = useState<string | null>(null)
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return
+    try {
+      onChange(parseWeatherCsv(await file.text(), file.name))
+      setError(null)
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'The weather file could not be read.')
+    }
+  }
+
+  const method = weather ? referenceETMethod(weather) : null
+
+  return (
+    <div className="space-y-2">
+      <Label htmlFor="weatherFile">Weather Data (CSV)</Label>
+      <Input
+        id="weatherFile"
+        type="file"
+        accept=".csv,text/csv"
+        onChange={(e) => {
+          handleFile(e.target.files?.[0])
+          e.target.value = ''
+        }}
+      />
+      {error && <p role="alert" className="text-sm text-red-600">{error}</p>}
+      {weather ? (
+        <div className="flex items-start justify-between space-x-2 text-sm">
+          <div>
+            <p>{`${weather.name}: ${weather.records.length} records (${weather.interval >= 24 ? 'daily' : `${weather.interval} h`})`}</p>
+            <p className="text-muted-foreground">
+              {`${formatWeatherTime(seriesStart(weather))} to ${formatWeatherTime(seriesEnd(weather))} UTC`}
+            </p>
+            <p className="text-muted-foreground">
+              {method ? methodDescriptions[method] : 'Not enough data for ET₀: the evapotranspiration rate parameter is used.'}
+            </p>
+          </div>
+          <Button variant="ghost" size="sm" onClick={() => onChange(null)}>Remove</Button>
+        </div>
+      ) : null}
+      {weather ? (
+        <div className="grid grid-cols-2 gap-2">
+          <div>
+            <Label htmlFor="latitude">Latitude (°)</Label>
+            <Input
+              id="latitude"
+              type="number"
+              min={-90}
+              max={90}
+              step={0.1}
+              value={site.latitude}
+              onChange={(e) => {
+                const value = parseFloat(e.target.value)
+                if (!isNaN(value) && value >= -90 && value <= 90) onSiteChange({ ...site, latitude: value })
+              }}
+            />
+          </div>
+          <div>
+            <Label htmlFor="elevation">Elevation (m)</Label>
+            <Input
+              id="elevation"
+              type="number"
+              min={-500}
+              max={9000}
+              step={1}
+              value={site.elevation}
+              onChange={(e) => {
+                const value = parseFloat(e.target.value)
+                if (!isNaN(value) && value >= -500 && value <= 9000) onSiteChange({ ...site, elevation: value })
+              }}
+            />
+          </div>
+        </div>
+      ) : (
+        <p className="text-sm text-muted-foreground">
+          Columns: timestamp, rainfall (mm), temperature (°C), humidity (%), wind (m/s), solar radiation (MJ/m²) or ET₀ (mm).
+        </p>
+      )}
+    </div>
+  )
+}
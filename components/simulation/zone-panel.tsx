@@ -0,0 +1,370 @@
+import React from 'react'
+import { Plus, Trash2, X } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent } from '@/components/ui/card'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Switch } from '@/components/ui/switch'
+import { useSettings } from '@/contexts/SettingsContext'
+import type { MoistureUnit, Units } from '@/lib/settings'
+import { controllers, defaultController, type ControllerType, type ZoneController } from '@/lib/simulation/controllers'
+import type { Field } from '@/lib/simulation/field'
+import {
+  cellArea,
+  createZone,
+  emitterLayouts,
+  MAX_ZONES,
+  nextZoneId,
+  type EmitterLayout,
+  type IrrigationZone,
+  type ValveState,
+} from '@/lib/simulation/zones'
+import {
+  flowUnit,
+  formatMoisture,
+  formatWaterDepth,
+  fromDisplayFlow,
+  fromDisplayMoisture,
+  fromDisplayWaterDepth,
+  moistureStep,
+  moistureUnitLabel,
+  rateUnit,
+  roundMoisture,
+  toDisplayFlow,
+  toDisplayMoisture,
+  toDisplayRate,
+  toDisplayWaterDepth,
+  waterDepthUnit,
+  type MoistureBasis,
+} from '@/lib/units'
+import { valveColors } from './palettes'
+
+const numberInput = (value: string, min: number, max: number, apply: (value: number) => void) => {
+  const number = parseFloat(value)
+  if (!isNaN(number) && number >= min && number <= max) apply(number)
+}
+
+/** What the zone's controller last read and decided, for Cell Details. */
+export const describeController = (
+  zone: IrrigationZone,
+  valve: ValveState | undefined,
+  basis: MoistureBasis,
+  moistureUnit: MoistureUnit,
+  units: Units
+) => {
+  const controller = zone.controller
+  const name = controllers[controller.type].name
+  if (!valve) return `${name}, not run yet`
+  const saturation = valve.saturation === null ? 'no reading' : formatMoisture(valve.saturation, basis, moistureUnit, units)
+  const { memory } = valve
+  switch (controller.type) {
+    case 'hysteresis':
+      return `${name}: reads ${saturation}, opens below ${formatMoisture(controller.low, basis, moistureUnit, units)} `
+        + `and closes at ${formatMoisture(controller.high, basis, moistureUnit, units)}, now ${memory.open === 1 ? 'watering' : 'waiting'}`
+    case 'schedule':
+      return `${name}: ${zone.schedule.length} daily windows, open ${(valve.openFraction * 100).toFixed(0)}% of the last step`
+    case 'deficit':
+      return `${name}: deficit ${valve.deficit === null ? 'unknown' : formatWaterDepth(valve.deficit, units)} of `
+        + `${formatWaterDepth(controller.trigger, units)} to refill, ${(memory.remaining ?? 0).toFixed(2)} h of watering left`
+    case 'pid':
+      return `${name}: reads ${saturation} against ${formatMoisture(controller.setpoint, basis, moistureUnit, units)}, `
+        + `output ${((memory.output ?? 0) * 100).toFixed(0)}%, error ${(memory.error ?? 0).toFixed(3)}, integral ${(memory.integral ?? 0).toFixed(3)}`
+    case 'manual':
+      return `${name}: ${controller.open ? 'open' : 'closed'}`
+  }
+}
+
+/** Settings and valve state of every irrigation zone. */
+export function ZonePanel({ field, zones, valves, delivery, showPriority, defaultThreshold, thresholdBasis, onChange, onDelete }: {
+  field: Field
+  zones: IrrigationZone[]
+  valves: Record<number, ValveState>
+  // Fraction of each zone's demand the supply delivered over the last step
+  delivery: Record<number, number>
+  // Whether the supply rations by zone priority
+  showPriority: boolean
+  // Threshold a new zone starts with (degree of saturation)
+  defaultThreshold: number
+  // Thresholds are profile saturations, entered against this basis
+  thresholdBasis: MoistureBasis
+  onChange: (zones: IrrigationZone[]) => void
+  // Also takes the zone's cells out of it
+  onDelete: (id: number) => void
+}) {
+  const { units, moistureUnit } = useSettings()
+  const area = cellArea(field)
+  const cellCounts = new Map<number, number>()
+  field.zone.forEach((id) => cellCounts.set(id, (cellCounts.get(id) ?? 0) + 1))
+  const newId = nextZoneId(zones)
+
+  const updateZone = (id: number, changes: Partial<IrrigationZone>) =>
+    onChange(zones.map((zone) => zone.id === id ? { ...zone, ...changes } : zone))
+
+  const changeController = (zone: IrrigationZone, type: ControllerType) =>
+    updateZone(zone.id, { controller: defaultController(type, defaultThreshold) })
+
+  // Input for a saturation setting of the zone's controller, entered in the chosen moisture unit
+  const saturationInput = (zone: IrrigationZone, key: string, label: string, saturation: number, apply: (saturation: number) => ZoneController) => (
+    <div>
+      <Label htmlFor={`zone-${zone.id}-${key}`}>{`${label} (${moistureUnitLabel(moistureUnit, units)})`}</Label>
+      <Input
+        id={`zone-${zone.id}-${key}`}
+        type="number"
+        min={0}
+        step={moistureStep(moistureUnit, units)}
+        value={roundMoisture(toDisplayMoisture(saturation, thresholdBasis, moistureUnit, units), moistureUnit, units)}
+        onChange={(e) => numberInput(e.target.value, 0, Infinity, (value) => {
+          updateZone(zone.id, { controller: apply(Math.min(1, fromDisplayMoisture(value, thresholdBasis, moistureUnit, units))) })
+        })}
+      />
+    </div>
+  )
+
+  // Input for a PID gain
+  const gainInput = (zone: IrrigationZone, controller: Extract<ZoneController, { type: 'pid' }>, gain: 'kp' | 'ki' | 'kd', label: string) => (
+    <div>
+      <Label htmlFor={`zone-${zone.id}-${gain}`}>{label}</Label>
+      <Input
+        id={`zone-${zone.id}-${gain}`}
+        type="number"
+        min={0}
+        step="any"
+        value={controller[gain]}
+        onChange={(e) => numberInput(e.target.value, 0, Infinity, (value) => updateZone(zone.id, { controller: { ...controller, [gain]: value } }))}
+      />
+    </div>
+  )
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <Label>Irrigation Zones</Label>
+        <Button
+          size="sm"
+          variant="outline"
+          disabled={newId === null}
+          onClick={() => newId !== null && onChange([...zones, createZone(newId, field, 0, defaultThreshold)])}
+        >
+          <Plus className="mr-1 h-4 w-4" />
+          Add Zone
+        </Button>
+      </div>
+      {zones.length === 0 && (
+        <p className="text-sm text-muted-foreground">
+          No zones. Every cell has its own tap that opens below the moisture threshold.
+        </p>
+      )}
+      {zones.map((zone) => {
+        const cells = cellCounts.get(zone.id) ?? 0
+        const valve = valves[zone.id]
+        const controller = zone.controller
+        return (
+          <Card key={zone.id}>
+            <CardContent className="space-y-2 p-3">
+              <div className="flex items-center space-x-2">
+                <span
+                  className="h-3 w-3 shrink-0 rounded-full"
+                  style={{ backgroundColor: valve?.open ? valveColors.open : valveColors.closed }}
+                />
+                <Input
+                  aria-label={`Name of zone ${zone.id}`}
+                  value={zone.name}
+                  onChange={(e) => updateZone(zone.id, { name: e.target.value })}
+                />
+                <Button size="icon" variant="ghost" aria-label={`Delete ${zone.name}`} onClick={() => onDelete(zone.id)}>
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+              <p className="text-sm text-muted-foreground">
+                {`Zone ${zone.id}, ${cells} cells. Valve ${valve?.open ? `open${valve.openFraction < 1 ? ` ${(valve.openFraction * 100).toFixed(0)}% of the step` : ''}` : 'closed'}.`}
+                {valve?.open && delivery[zone.id] !== undefined && delivery[zone.id] < 1 && ` The supply delivered ${(delivery[zone.id] * 100).toFixed(0)}% of its demand.`}
+                {cells === 0 && ' Paint cells into it with the Irrigation Zone paint tool.'}
+              </p>
+              <div className="grid grid-cols-2 gap-2">
+                <div>
+                  <Label htmlFor={`zone-${zone.id}-controller`}>Controller</Label>
+                  <Select value={controller.type} onValueChange={(type: ControllerType) => changeController(zone, type)}>
+                    <SelectTrigger id={`zone-${zone.id}-controller`}>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {(Object.keys(controllers) as ControllerType[]).map((type) => (
+                        <SelectItem key={type} value={type}>{controllers[type].name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                {controller.type === 'deficit' && (
+                  <div>
+                    <Label htmlFor={`zone-${zone.id}-trigger`}>{`Refill at Deficit (${waterDepthUnit(units)})`}</Label>
+                    <Input
+                      id={`zone-${zone.id}-trigger`}
+                      type="number"
+                      min={0}
+                      step="any"
+                      value={parseFloat(toDisplayWaterDepth(controller.trigger, units).toFixed(2))}
+                      onChange={(e) => numberInput(e.target.value, 0, Infinity, (value) => {
+                        updateZone(zone.id, { controller: { ...controller, trigger: fromDisplayWaterDepth(value, units) } })
+                      })}
+                    />
+                  </div>
+                )}
+                {controller.type === 'pid' && saturationInput(zone, 'setpoint', 'Setpoint', controller.setpoint, (setpoint) => ({ ...controller, setpoint }))}
+                {controller.type === 'manual' && (
+                  <div className="flex items-center space-x-2 pt-6">
+                    <Switch
+                      id={`zone-${zone.id}-open`}
+                      checked={controller.open}
+                      onCheckedChange={(open) => updateZone(zone.id, { controller: { type: 'manual', open } })}
+                    />
+                    <Label htmlFor={`zone-${zone.id}-open`}>Valve Open</Label>
+                  </div>
+                )}
+              </div>
+              {controller.type === 'hysteresis' && (
+                <div className="grid grid-cols-2 gap-2">
+                  {saturationInput(zone, 'low', 'Open Below', controller.low, (low) => ({ ...controller, low, high: Math.max(low, controller.high) }))}
+                  {saturationInput(zone, 'high', 'Close At', controller.high, (high) => ({ ...controller, high, low: Math.min(high, controller.low) }))}
+                </div>
+              )}
+              {controller.type === 'pid' && (
+                <div className="grid grid-cols-3 gap-2">
+                  {gainInput(zone, controller, 'kp', 'Kp (1/saturation)')}
+                  {gainInput(zone, controller, 'ki', 'Ki (1/saturation·h)')}
+                  {gainInput(zone, controller, 'kd', 'Kd (h/saturation)')}
+                </div>
+              )}
+              {showPriority && (
+                <div>
+                  <Label htmlFor={`zone-${zone.id}-priority`}>Supply Priority (1 first)</Label>
+                  <Input
+                    id={`zone-${zone.id}-priority`}
+                    type="number"
+                    min={1}
+                    max={MAX_ZONES}
+                    step={1}
+                    value={zone.priority}
+                    onChange={(e) => numberInput(e.target.value, 1, MAX_ZONES, (priority) => updateZone(zone.id, { priority: Math.round(priority) }))}
+                  />
+                </div>
+              )}
+              <div>
+                <Label htmlFor={`zone-${zone.id}-flow`}>{`Flow Rate (${flowUnit(units)})`}</Label>
+                <Input
+                  id={`zone-${zone.id}-flow`}
+                  type="number"
+                  min={0}
+                  step="any"
+                  value={parseFloat(toDisplayFlow(zone.flowRate, units).toFixed(3))}
+                  onChange={(e) => numberInput(e.target.value, 0, Infinity, (value) => updateZone(zone.id, { flowRate: fromDisplayFlow(value, units) }))}
+                />
+                {cells > 0 && (
+                  <p className="text-sm text-muted-foreground">
+                    {`${toDisplayRate(zone.flowRate / (cells * area), units).toFixed(2)} ${rateUnit(units)} averaged over the zone`}
+                  </p>
+                )}
+              </div>
+              <div className="grid grid-cols-2 gap-2">
+                <div>
+                  <Label htmlFor={`zone-${zone.id}-emitters`}>Emitters</Label>
+                  <Select
+                    value={zone.emitters.layout}
+                    onValueChange={(layout: EmitterLayout) => updateZone(zone.id, { emitters: { ...zone.emitters, layout } })}
+                  >
+                    <SelectTrigger id={`zone-${zone.id}-emitters`}>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {(Object.keys(emitterLayouts) as EmitterLayout[]).map((layout) => (
+                        <SelectItem key={layout} value={layout}>{emitterLayouts[layout]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                {zone.emitters.layout !== 'flood' && (
+                  <div>
+                    <Label htmlFor={`zone-${zone.id}-spacing`}>Spacing (cells)</Label>
+                    <Input
+                      id={`zone-${zone.id}-spacing`}
+                      type="number"
+                      min={1}
+                      max={100}
+                      step={1}
+                      value={zone.emitters.spacing}
+                      onChange={(e) => numberInput(e.target.value, 1, 100, (spacing) => updateZone(zone.id, { emitters: { ...zone.emitters, spacing } }))}
+                    />
+                  </div>
+                )}
+              </div>
+              {controller.type === 'schedule' && (
+                <div className="space-y-1">
+                  <Label>Schedule (hour of day, duration in hours)</Label>
+                  {zone.schedule.map((window, index) => (
+                    <div key={index} className="flex items-center space-x-2">
+                      <Input
+                        type="number"
+                        aria-label="Start hour"
+                        min={0}
+                        max={24}
+                        step="any"
+                        value={window.start}
+                        onChange={(e) => numberInput(e.target.value, 0, 24, (start) => updateZone(zone.id, {
+                          schedule: zone.schedule.map((entry, i) => i === index ? { ...entry, start } : entry),
+                        }))}
+                      />
+                      <Input
+                        type="number"
+                        aria-label="Duration in hours"
+                        min={0}
+                        max={24}
+                        step="any"
+                        value={window.duration}
+                        onChange={(e) => numberInput(e.target.value, 0, 24, (duration) => updateZone(zone.id, {
+                          schedule: zone.schedule.map((entry, i) => i === index ? { ...entry, duration } : entry),
+                        }))}
+                      />
+                      <Button
+                        size="icon"
+                        variant="ghost"
+                        aria-label="Remove window"
+                        onClick={() => updateZone(zone.id, { schedule: zone.schedule.filter((_, i) => i !== index) })}
+                      >
+                        <X className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  ))}
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    onClick={() => updateZone(zone.id, { schedule: [...zone.schedule, { start: 18, duration: 1 }] })}
+                  >
+                    Add Window
+                  </Button>
+                </div>
+              )}
+              <div className="text-sm">
+                <span className="text-muted-foreground">Sensors: </span>
+                {zone.sensors.length === 0
+                  ? <span className="text-muted-foreground">none, the controller reads the whole zone. Add them from Cell Details.</span>
+                  : zone.sensors.map((column) => (
+                    <Button
+                      key={column}
+                      size="sm"
+                      variant="outline"
+                      className="mr-1 h-6 px-2"
+                      aria-label={`Remove sensor at ${Math.floor(column / field.cols)},${column % field.cols}`}
+                      onClick={() => updateZone(zone.id, { sensors: zone.sensors.filter((sensor) => sensor !== column) })}
+                    >
+                      {`${Math.floor(column / field.cols)},${column % field.cols}`}
+                      <X className="ml-1 h-3 w-3" />
+                    </Button>
+                  ))}
+              </div>
+            </CardContent>
+          </Card>
+        )
+      })}
+    </div>
+  )
+}
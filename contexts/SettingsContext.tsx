@@ -1,52 +1,127 @@
 'use client'
 
-import React, { createContext, useContext, useState, ReactNode } from 'react'
+import React, { createContext, useCallback, useContext, useEffect, useRef, useState, ReactNode } from 'react'
+import {
+  defaultSettings,
+  loadSettings,
+  saveSettings,
+  SETTINGS_KEY,
+  type ColorScheme,
+  type MoistureUnit,
+  type Settings,
+  type Units,
+} from '@/lib/settings'
 
-type MoistureUnit = 'percentage' | 'volumetric'
-type ColorScheme = 'default' | 'blue' | 'grayscale'
-type Units = 'metric' | 'imperial'
+export type { ColorScheme, MoistureUnit, Settings, Units } from '@/lib/settings'
 
-interface SettingsContextType {
-  colorScheme: ColorScheme
+interface SettingsContextType extends Settings {
+  // False until the saved settings have been read after mounting
+  hydrated: boolean
+  // Every change is saved right away; these return false if saving failed
+  updateSettings: (changes: Partial<Settings>) => boolean
+  resetSettings: () => boolean
   setColorScheme: (colorScheme: ColorScheme) => void
-  units: Units
   setUnits: (units: Units) => void
-  moistureUnit: MoistureUnit
   setMoistureUnit: (moistureUnit: MoistureUnit) => void
-  displayValuesInCells: boolean
   setDisplayValuesInCells: (displayValuesInCells: boolean) => void
 }
 
 const SettingsContext = createContext<SettingsContextType | null>(null)
 
+// One setter per setting, each saving its change through `updateSettings`
+const useSettingSetters = (updateSettings: (changes: Partial<Settings>) => boolean) => ({
+  setColorScheme: useCallback((colorScheme: ColorScheme) => { updateSettings({ colorScheme }) }, [updateSettings]),
+  setUnits: useCallback((units: Units) => { updateSettings({ units }) }, [updateSettings]),
+  setMoistureUnit: useCallback((moistureUnit: MoistureUnit) => { updateSettings({ moistureUnit }) }, [updateSettings]),
+  setDisplayValuesInCells: useCallback((displayValuesInCells: boolean) => {
+    updateSettings({ displayValuesInCells })
+  }, [updateSettings]),
+})
+
 export const SettingsProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
-  const [colorScheme, setColorScheme] = useState<ColorScheme>('default')
-  const [units, setUnits] = useState<Units>('metric')
-  const [moistureUnit, setMoistureUnit] = useState<MoistureUnit>('percentage')
-  const [displayValuesInCells, setDisplayValuesInCells] = useState(false)
+  // The server and the first client render use the defaults, so hydration matches
+  const [settings, setSettings] = useState<Settings>(defaultSettings)
+  const [hydrated, setHydrated] = useState(false)
+  const settingsRef = useRef(settings)
+
+  const applySettings = useCallback((next: Settings) => {
+    settingsRef.current = next
+    setSettings(next)
+  }, [])
+
+  useEffect(() => {
+    applySettings(loadSettings())
+    setHydrated(true)
+
+    // Keep other tabs in sync; the event only fires for changes made elsewhere
+    const handleStorage = (event: StorageEvent) => {
+      if (event.key === SETTINGS_KEY || event.key === null) applySettings(loadSettings())
+    }
+    window.addEventListener('storage', handleStorage)
+    return () => window.removeEventListener('storage', handleStorage)
+  }, [applySettings])
+
+  const updateSettings = useCallback((changes: Partial<Settings>) => {
+    const next = { ...settingsRef.current, ...changes }
+    applySettings(next)
+    return saveSettings(next)
+  }, [applySettings])
+
+  const resetSettings = useCallback(() => updateSettings(defaultSettings), [updateSettings])
+  const setters = useSettingSetters(updateSettings)
 
   return (
-    <SettingsContext.Provider
-      value={{
-        colorScheme,
-        setColorScheme,
-        units,
-        setUnits,
-        moistureUnit,
-        setMoistureUnit,
-        displayValuesInCells,
-        setDisplayValuesInCells,
-      }}
-    >
+    <SettingsContext.Provider value={{ ...settings, hydrated, updateSettings, resetSettings, ...setters }}>
       {children}
     </SettingsContext.Provider>
   )
 }
 
+// Shows settings in one view without saving them, such as those a restored snapshot was saved with
+const ViewSettingsContext = createContext<((settings: Settings | null) => void) | null>(null)
+
+/**
+ * Lets its children show other settings than the saved ones, through
+ * useViewSettings, until the user changes one: changes are still saved, and
+ * the view takes them too.
+ */
+export const ViewSettingsProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
+  const saved = useSettings()
+  const [shown, setShown] = useState<Settings | null>(null)
+  const { updateSettings: saveChanges, resetSettings: resetSaved } = saved
+
+  const updateSettings = useCallback((changes: Partial<Settings>) => {
+    setShown((current) => current && { ...current, ...changes })
+    return saveChanges(changes)
+  }, [saveChanges])
+  const resetSettings = useCallback(() => {
+    setShown(null)
+    return resetSaved()
+  }, [resetSaved])
+  const setters = useSettingSetters(updateSettings)
+
+  return (
+    <ViewSettingsContext.Provider value={setShown}>
+      <SettingsContext.Provider value={{ ...saved, ...shown, updateSettings, resetSettings, ...setters }}>
+        {children}
+      </SettingsContext.Provider>
+    </ViewSettingsContext.Provider>
+  )
+}
+
+/** Shows `settings` in the surrounding ViewSettingsProvider without saving them; null goes back to the saved ones. */
+export const useViewSettings = () => {
+  const context = useContext(ViewSettingsContext)
+  if (!context) {
+    throw new Error('useViewSettings must be used within a ViewSettingsProvider')
+  }
+  return context
+}
+
 export const useSettings = () => {
   const context = useContext(SettingsContext)
   if (!context) {
     throw new Error('useSettings must be used within a SettingsProvider')
   }
   return context
-}
\ No newline at end of file
+}
@@ -0,0 +1,115 @@
+import { parseSnapshot, serializeSnapshot, type SimulationSnapshot } from '@/lib/simulation/snapshot'
+
+export interface SavedSimulation {
+  id: string
+  name: string
+  savedAt: string
+  rows: number
+  cols: number
+  layers: number
+  timeStep: number
+  // Where the snapshot itself lives
+  store: 'localStorage' | 'indexedDB'
+}
+
+const INDEX_KEY = 'soilSimulation.saved'
+const SNAPSHOT_KEY_PREFIX = 'soilSimulation.snapshot.'
+// Snapshots longer than this go to IndexedDB, which has room for large grids
+const LOCAL_STORAGE_LIMIT = 1e6 // characters
+
+const DB_NAME = 'soil-moisture-simulation'
+const STORE_NAME = 'snapshots'
+
+const openDatabase = () =>
+  new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, 1)
+    request.onupgradeneeded = () => request.result.createObjectStore(STORE_NAME)
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+
+const withStore = async <T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>) => {
+  const db = await openDatabase()
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const request = action(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME))
+      request.onsuccess = () => resolve(request.result)
+      request.onerror = () => reject(request.error)
+    })
+  } finally {
+    db.close()
+  }
+}
+
+const readIndex = (): SavedSimulation[] => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(INDEX_KEY) ?? '[]')
+    return Array.isArray(saved) ? saved : []
+  } catch {
+    return []
+  }
+}
+
+const writeIndex = (saved: SavedSimulation[]) => localStorage.setItem(INDEX_KEY, JSON.stringify(saved))
+
+/** Saved simulations, newest first. */
+export const listSavedSimulations = () =>
+  readIndex().sort((a, b) => b.savedAt.localeCompare(a.savedAt))
+
+/** Stores a snapshot and returns its entry in the saved list. */
+export const saveSimulation = async (snapshot: SimulationSnapshot): Promise<SavedSimulation> => {
+  const { field, timeStep } = snapshot.simulation
+  const id = `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`
+  const text = serializeSnapshot(snapshot)
+  let store: SavedSimulation['store'] = 'indexedDB'
+  if (text.length <= LOCAL_STORAGE_LIMIT) {
+    try {
+      localStorage.setItem(SNAPSHOT_KEY_PREFIX + id, text)
+      store = 'localStorage'
+    } catch {
+      // Quota exceeded, fall back to IndexedDB
+    }
+  }
+  if (store === 'indexedDB') await withStore('readwrite', (objects) => objects.put(text, id))
+
+  const entry: SavedSimulation = {
+    id,
+    name: snapshot.name,
+    savedAt: snapshot.savedAt,
+    rows: field.rows,
+    cols: field.cols,
+    layers: field.layers,
+    timeStep,
+    store,
+  }
+  writeIndex([...readIndex(), entry])
+  return entry
+}
+
+/** Reads a saved snapshot back, throwing if it is missing or damaged. */
+export const loadSavedSimulation = async (id: string): Promise<SimulationSnapshot> => {
+  const entry = readIndex().find((saved) => saved.id === id)
+  if (!entry) throw new Error('This saved simulation no longer exists.')
+  const text = entry.store === 'localStorage'
+    ? localStorage.getItem(SNAPSHOT_KEY_PREFIX + id)
+    : await withStore<string | undefined>('readonly', (objects) => objects.get(id))
+  if (!text) throw new Error('The data of this saved simulation is missing.')
+  return parseSnapshot(text)
+}
+
+export const deleteSavedSimulation = async (id: string) => {
+  const entry = readIndex().find((saved) => saved.id === id)
+  if (entry?.store === 'localStorage') localStorage.removeItem(SNAPSHOT_KEY_PREFIX + id)
+  if (entry?.store === 'indexedDB') await withStore('readwrite', (objects) => objects.delete(id))
+  writeIndex(readIndex().filter((saved) => saved.id !== id))
+}
+
+/** Starts a browser download of the snapshot as a JSON file. */
+export const downloadSnapshot = (snapshot: SimulationSnapshot, fileName: string) => {
+  const url = URL.createObjectURL(new Blob([serializeSnapshot(snapshot)], { type: 'application/json' }))
+  const link = document.createElement('a')
+  link.href = url
+  link.download = fileName
+  link.click()
+  URL.revokeObjectURL(url)
+}
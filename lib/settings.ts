@@ -0,0 +1,90 @@
+// Degree of saturation, volumetric water content θ, or depth of water stored
+export type MoistureUnit = 'percentage' | 'volumetric' | 'depth'
+export type ColorScheme = 'default' | 'blue' | 'grayscale'
+export type Units = 'metric' | 'imperial'
+
+export interface Settings {
+  colorScheme: ColorScheme
+  units: Units
+  moistureUnit: MoistureUnit
+  displayValuesInCells: boolean
+}
+
+export const SETTINGS_KEY = 'soilSimulation.settings'
+export const SETTINGS_VERSION = 1
+
+export const defaultSettings: Settings = {
+  colorScheme: 'default',
+  units: 'metric',
+  moistureUnit: 'percentage',
+  displayValuesInCells: false,
+}
+
+// Keys written one by one before settings were versioned
+const legacyKeys = ['units', 'moistureUnit', 'colorScheme', 'displayValuesInCells']
+
+const settingOptions: { [key in keyof Settings]: readonly Settings[key][] } = {
+  colorScheme: ['default', 'blue', 'grayscale'],
+  units: ['metric', 'imperial'],
+  moistureUnit: ['percentage', 'volumetric', 'depth'],
+  displayValuesInCells: [true, false],
+}
+
+// Each entry upgrades stored settings from the version it is keyed by to the next one
+const migrations: Record<number, (stored: Record<string, unknown>) => Record<string, unknown>> = {
+  0: (stored) => ({ ...stored, displayValuesInCells: stored.displayValuesInCells === 'true' }),
+}
+
+/** Keeps the valid values of stored settings and fills the rest in from the defaults. */
+export const sanitizeSettings = (stored: Record<string, unknown>): Settings => {
+  const settings = { ...defaultSettings }
+  for (const key of Object.keys(settingOptions) as (keyof Settings)[]) {
+    if ((settingOptions[key] as readonly unknown[]).includes(stored[key])) {
+      (settings as Record<keyof Settings, unknown>)[key] = stored[key]
+    }
+  }
+  return settings
+}
+
+/** Reads a stored settings record of any known version, or null if there is nothing usable. */
+export const parseStoredSettings = (value: string | null): Settings | null => {
+  if (!value) return null
+  try {
+    const stored = JSON.parse(value)
+    if (typeof stored?.version !== 'number' || stored.version > SETTINGS_VERSION) return null
+    let settings: Record<string, unknown> = stored.settings ?? {}
+    for (let version = stored.version; version < SETTINGS_VERSION; version++) {
+      settings = migrations[version](settings)
+    }
+    return sanitizeSettings(settings)
+  } catch {
+    return null
+  }
+}
+
+/** Settings saved in this browser, migrating the unversioned keys of older releases. */
+export const loadSettings = (): Settings => {
+  try {
+    const stored = parseStoredSettings(localStorage.getItem(SETTINGS_KEY))
+    if (stored) return stored
+    if (legacyKeys.some((key) => localStorage.getItem(key) !== null)) {
+      const legacy = Object.fromEntries(legacyKeys.map((key) => [key, localStorage.getItem(key)]))
+      const migrated = parseStoredSettings(JSON.stringify({ version: 0, settings: legacy }))
+      if (migrated && saveSettings(migrated)) legacyKeys.forEach((key) => localStorage.removeItem(key))
+      return migrated ?? defaultSettings
+    }
+  } catch {
+    // Storage is unavailable, e.g. in private browsing with cookies blocked
+  }
+  return defaultSettings
+}
+
+/** Saves settings, returning false if the browser refused to store them. */
+export const saveSettings = (settings: Settings) => {
+  try {
+    localStorage.setItem(SETTINGS_KEY, JSON.stringify({ version: SETTINGS_VERSION, settings }))
+    return true
+  } catch {
+    return false
+  }
+}
@@ -0,0 +1,85 @@
+import type { FieldEdge } from './field'
+
+/** What happens to soil water at one edge of the field. */
+export type EdgeBoundary =
+  | { type: 'noFlux' }
+  // Soil beyond the edge held at a degree of saturation, e.g. a canal or ditch
+  | { type: 'fixedMoisture'; moisture: number }
+  // Lateral seepage across the edge into the field through every layer, negative out of it (mm/h)
+  | { type: 'fixedFlux'; flux: number }
+  // Water leaving over the edge comes back in over the opposite one
+  | { type: 'periodic' }
+
+export type BoundaryType = EdgeBoundary['type']
+
+export type FieldBoundaries = Record<FieldEdge, EdgeBoundary>
+
+export const boundaryTypes: Record<BoundaryType, string> = {
+  noFlux: 'No Flux',
+  fixedMoisture: 'Fixed Moisture',
+  fixedFlux: 'Fixed Flux',
+  periodic: 'Periodic',
+}
+
+export const oppositeEdges: Record<FieldEdge, FieldEdge> = {
+  top: 'bottom',
+  bottom: 'top',
+  left: 'right',
+  right: 'left',
+}
+
+export const noFluxBoundaries: FieldBoundaries = {
+  top: { type: 'noFlux' },
+  bottom: { type: 'noFlux' },
+  left: { type: 'noFlux' },
+  right: { type: 'noFlux' },
+}
+
+/** Default settings of a boundary type, for switching an edge to it. */
+export const defaultBoundary = (type: BoundaryType): EdgeBoundary => {
+  switch (type) {
+    case 'noFlux':
+      return { type }
+    case 'fixedMoisture':
+      return { type, moisture: 1 }
+    case 'fixedFlux':
+      return { type, flux: 0 }
+    case 'periodic':
+      return { type }
+  }
+}
+
+/**
+ * The boundaries with `edge` set to `boundary`, keeping periodic edges in
+ * pairs: making an edge periodic makes the opposite one periodic too, and
+ * changing a periodic edge to anything else frees the opposite one.
+ */
+export const setBoundary = (boundaries: FieldBoundaries, edge: FieldEdge, boundary: EdgeBoundary): FieldBoundaries => {
+  const opposite = oppositeEdges[edge]
+  const next = { ...boundaries, [edge]: boundary }
+  if (boundary.type === 'periodic') next[opposite] = boundary
+  else if (boundaries[opposite].type === 'periodic') next[opposite] = defaultBoundary('noFlux')
+  return next
+}
+
+const formatBoundary = (boundary: EdgeBoundary) => {
+  switch (boundary.type) {
+    case 'fixedMoisture':
+      return `${boundary.type}:${boundary.moisture * 100}`
+    case 'fixedFlux':
+      return `${boundary.type}:${boundary.flux}`
+    default:
+      return boundary.type
+  }
+}
+
+const queryKey = (edge: FieldEdge) => `${edge}Boundary`
+
+/** Query parameters for the boundaries, with fixed moisture as a percentage and no-flux edges left out. */
+export const boundaryQuery = (boundaries: FieldBoundaries): Record<string, string> => {
+  const query: Record<string, string> = {}
+  for (const edge of Object.keys(boundaries) as FieldEdge[]) {
+    if (boundaries[edge].type !== 'noFlux') query[queryKey(edge)] = formatBoundary(boundaries[edge])
+  }
+  return query
+}
@@ -0,0 +1,78 @@
+import { volumetricMoisture, type Field, type FieldEdge } from './field'
+
+/**
+ * Water moved during one or more steps, as a depth of water (mm) averaged over
+ * the area of the field.
+ */
+export interface WaterBudget {
+  rainfall: number
+  irrigation: number
+  evapotranspiration: number
+  // Free drainage out of the bottom of the profile
+  deepPercolation: number
+  // Surface water running off the field over its outflow edge
+  runoff: number
+  // Soil water flowing in across each edge, negative when it flows out
+  boundaryInflow: Record<FieldEdge, number>
+  // Water removed by the clamp because a cell went above saturation
+  clampLoss: number
+  // Water created by the clamp because a cell went below zero
+  clampGain: number
+  storageChange: number
+}
+
+export const emptyBudget = (): WaterBudget => ({
+  rainfall: 0,
+  irrigation: 0,
+  evapotranspiration: 0,
+  deepPercolation: 0,
+  runoff: 0,
+  boundaryInflow: { top: 0, bottom: 0, left: 0, right: 0 },
+  clampLoss: 0,
+  clampGain: 0,
+  storageChange: 0,
+})
+
+export const addBudgets = (a: WaterBudget, b: WaterBudget): WaterBudget => ({
+  rainfall: a.rainfall + b.rainfall,
+  irrigation: a.irrigation + b.irrigation,
+  evapotranspiration: a.evapotranspiration + b.evapotranspiration,
+  deepPercolation: a.deepPercolation + b.deepPercolation,
+  runoff: a.runoff + b.runoff,
+  boundaryInflow: {
+    top: a.boundaryInflow.top + b.boundaryInflow.top,
+    bottom: a.boundaryInflow.bottom + b.boundaryInflow.bottom,
+    left: a.boundaryInflow.left + b.boundaryInflow.left,
+    right: a.boundaryInflow.right + b.boundaryInflow.right,
+  },
+  clampLoss: a.clampLoss + b.clampLoss,
+  clampGain: a.clampGain + b.clampGain,
+  storageChange: a.storageChange + b.storageChange,
+})
+
+/** Net soil water flowing in across all edges of the field. */
+export const netBoundaryInflow = (budget: WaterBudget) =>
+  budget.boundaryInflow.top + budget.boundaryInflow.bottom + budget.boundaryInflow.left + budget.boundaryInflow.right
+
+/** Inflows minus outflows minus storage change; zero when water is conserved. */
+export const balanceError = (budget: WaterBudget) =>
+  budget.rainfall +
+  netBoundaryInflow(budget) +
+  budget.irrigation -
+  budget.evapotranspiration -
+  budget.deepPercolation -
+  budget.runoff -
+  budget.clampLoss +
+  budget.clampGain -
+  budget.storageChange
+
+/** Water stored in the profile and ponded on the surface (mm), averaged over the field. */
+export const totalStorage = (field: Field) => {
+  const columns = field.rows * field.cols
+  let total = 0
+  for (let index = 0; index < field.moisture.length; index++) {
+    total += volumetricMoisture(field, index) * field.layerThickness[Math.floor(index / columns)] * 10
+  }
+  field.ponding.forEach((depth) => { total += depth })
+  return total / columns
+}
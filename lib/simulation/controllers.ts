@@ -0,0 +1,172 @@
+import { cellIndex, soilAtIndex, volumetricMoisture, type Field } from './field'
+import { depletionAtSaturation, rootZoneAt } from './rootzone'
+
+/** Daily window in which a scheduled valve is open; windows may run past midnight. */
+export interface ScheduleWindow {
+  // Hour of the day (UTC with weather data, hours from the start otherwise)
+  start: number
+  // Hours
+  duration: number
+}
+
+/** Control strategy of a zone's valve and its settings. Saturations are of the whole profile. */
+export type ZoneController =
+  // Opens below `low` and stays open until `high`, so it does not chatter around one threshold
+  | { type: 'hysteresis'; low: number; high: number }
+  // Opens during the zone's schedule windows
+  | { type: 'schedule' }
+  // Once the deficit to field capacity reaches `trigger` (mm), runs long enough to refill it
+  | { type: 'deficit'; trigger: number }
+  // Opens for the fraction of each step the PID output asks for, steering the saturation to `setpoint`
+  | { type: 'pid'; setpoint: number; kp: number; ki: number; kd: number }
+  | { type: 'manual'; open: boolean }
+
+export type ControllerType = ZoneController['type']
+
+/** What a controller sees at the start of a step. */
+export interface ControllerReading {
+  // Mean profile saturation at the sensors
+  saturation: number | null
+  // Mean water (mm) the sensor columns lack to field capacity, over the root zone where a crop grows
+  deficit: number | null
+  hourOfDay: number
+  // Length of the step (h)
+  duration: number
+  // Mean depth (mm/h) the zone receives while its valve is fully open
+  applicationRate: number
+}
+
+/** Whatever a controller carries from one step to the next, kept in the valve state so snapshots save it. */
+export type ControllerMemory = Record<string, number>
+
+export interface Controller<C extends ZoneController> {
+  name: string
+  /** Fraction of the step the valve is open, and the memory for the next step. */
+  decide: (config: C, memory: ControllerMemory, reading: ControllerReading, schedule: ScheduleWindow[]) => {
+    openFraction: number
+    memory: ControllerMemory
+  }
+}
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value))
+
+/** Fraction of the hours [hourOfDay, hourOfDay + duration) covered by the schedule's daily windows. */
+export const scheduledFraction = (schedule: ScheduleWindow[], hourOfDay: number, duration: number) => {
+  if (duration <= 0) return 0
+  const from = hourOfDay
+  const to = hourOfDay + duration
+  let covered = 0
+  for (const window of schedule) {
+    const length = clamp(window.duration, 0, 24)
+    // Every daily repetition of the window that can overlap the interval
+    for (let day = Math.floor(from / 24) - 1; day <= Math.floor(to / 24); day++) {
+      const start = day * 24 + window.start
+      covered += Math.max(0, Math.min(to, start + length) - Math.max(from, start))
+    }
+  }
+  return Math.min(1, covered / duration)
+}
+
+const hysteresis: Controller<Extract<ZoneController, { type: 'hysteresis' }>> = {
+  name: 'On/Off with Hysteresis',
+  decide: ({ low, high }, memory, { saturation }) => {
+    if (saturation === null) return { openFraction: 0, memory: { open: 0 } }
+    const open = memory.open === 1 ? saturation < high : saturation < low
+    return { openFraction: open ? 1 : 0, memory: { open: open ? 1 : 0 } }
+  },
+}
+
+const schedule: Controller<Extract<ZoneController, { type: 'schedule' }>> = {
+  name: 'Timer Schedule',
+  decide: (_, memory, { hourOfDay, duration }, windows) => ({
+    openFraction: scheduledFraction(windows, hourOfDay, duration),
+    memory,
+  }),
+}
+
+const deficit: Controller<Extract<ZoneController, { type: 'deficit' }>> = {
+  name: 'Deficit Refill',
+  decide: ({ trigger }, memory, { deficit: current, duration, applicationRate }) => {
+    // Hours of watering still owed from the last refill
+    let remaining = memory.remaining ?? 0
+    if (remaining <= 0 && current !== null && current >= trigger && applicationRate > 0) {
+      remaining = current / applicationRate
+    }
+    const openFraction = clamp(remaining / duration, 0, 1)
+    return { openFraction, memory: { remaining: Math.max(0, remaining - openFraction * duration) } }
+  },
+}
+
+const pid: Controller<Extract<ZoneController, { type: 'pid' }>> = {
+  name: 'PID',
+  decide: ({ setpoint, kp, ki, kd }, memory, { saturation, duration }) => {
+    if (saturation === null) return { openFraction: 0, memory }
+    const error = setpoint - saturation
+    const integral = memory.integral ?? 0
+    const derivative = memory.error === undefined ? 0 : (error - memory.error) / duration
+    const output = kp * error + ki * (integral + error * duration) + kd * derivative
+    // Conditional integration: the integral stops growing while the valve is saturated, so it does not wind up
+    const saturated = (output >= 1 && error > 0) || (output <= 0 && error < 0)
+    return {
+      openFraction: clamp(output, 0, 1),
+      memory: { integral: saturated ? integral : integral + error * duration, error, output },
+    }
+  },
+}
+
+const manual: Controller<Extract<ZoneController, { type: 'manual' }>> = {
+  name: 'Manual',
+  decide: ({ open }, memory) => ({ openFraction: open ? 1 : 0, memory }),
+}
+
+export const controllers: { [T in ControllerType]: Controller<Extract<ZoneController, { type: T }>> } = {
+  hysteresis,
+  schedule,
+  deficit,
+  pid,
+  manual,
+}
+
+/** Runs the zone's controller for one step. */
+export const runController = (
+  config: ZoneController,
+  memory: ControllerMemory,
+  reading: ControllerReading,
+  windows: ScheduleWindow[]
+) => (controllers[config.type] as Controller<ZoneController>).decide(config, memory, reading, windows)
+
+/** Settings a newly chosen controller starts with, around a threshold saturation. */
+export const defaultController = (type: ControllerType, threshold: number): ZoneController => {
+  switch (type) {
+    case 'hysteresis':
+      return { type, low: threshold, high: Math.min(1, threshold + 0.1) }
+    case 'schedule':
+      return { type }
+    case 'deficit':
+      return { type, trigger: 20 }
+    case 'pid':
+      return { type, setpoint: Math.min(1, threshold + 0.05), kp: 5, ki: 0.5, kd: 0 }
+    case 'manual':
+      return { type, open: false }
+  }
+}
+
+/**
+ * Water (mm) a column lacks to field capacity: over the root zone of a
+ * growing crop, the whole profile otherwise. With `saturation`, as if the
+ * profile were evenly at that saturation rather than at its true moisture.
+ */
+export const columnDeficit = (field: Field, column: number, day: number, saturation?: number) => {
+  const zone = rootZoneAt(field, column, day)
+  if (zone) return saturation === undefined ? zone.depletion : depletionAtSaturation(field, column, zone, saturation)
+  const row = Math.floor(column / field.cols)
+  const col = column % field.cols
+  let deficit = 0
+  for (let layer = 0; layer < field.layers; layer++) {
+    const index = cellIndex(field, row, col, layer)
+    const soil = soilAtIndex(field, index)
+    const moisture = saturation === undefined ? volumetricMoisture(field, index) : saturation * soil.porosity
+    deficit += Math.max(0, soil.fieldCapacity - moisture) * field.layerThickness[layer] * 10
+  }
+  return deficit
+}
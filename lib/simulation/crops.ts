@@ -0,0 +1,134 @@
+import { decodeCategoryMap, encodeCategoryMap } from './rle'
+
+export type CropId = 'grass' | 'maize' | 'wheat' | 'tomato' | 'potato'
+
+export type GrowthStage = 'fallow' | 'initial' | 'development' | 'mid' | 'late'
+
+/** FAO-56 single crop coefficient curve: Kc values and stage lengths (days). */
+export interface CropCoefficientCurve {
+  kcInitial: number
+  kcMid: number
+  kcEnd: number
+  stageLengths: Record<Exclude<GrowthStage, 'fallow'>, number>
+}
+
+export interface Crop {
+  id: CropId
+  name: string
+  kc: CropCoefficientCurve
+  // Rooting depth at planting and at full cover (cm)
+  rootDepth: { min: number; max: number }
+  // FAO-56 depletion fraction p: share of TAW the crop can use without stress
+  depletionFraction: number
+  // FAO-33 yield response factor Ky
+  yieldResponse: number
+}
+
+// Kc of bare soil outside the growing season
+export const FALLOW_KC = 0.3
+
+const INITIAL_ROOT_DEPTH = 15 // cm
+
+// FAO-56 tables 11, 12 and 22; Ky from FAO-33
+export const crops: Record<CropId, Crop> = {
+  grass: {
+    id: 'grass',
+    name: 'Reference Grass',
+    kc: { kcInitial: 1, kcMid: 1, kcEnd: 1, stageLengths: { initial: 0, development: 0, mid: 100000, late: 0 } },
+    rootDepth: { min: 50, max: 50 },
+    depletionFraction: 0.4,
+    yieldResponse: 1,
+  },
+  maize: {
+    id: 'maize',
+    name: 'Maize',
+    kc: { kcInitial: 0.3, kcMid: 1.2, kcEnd: 0.6, stageLengths: { initial: 30, development: 40, mid: 50, late: 30 } },
+    rootDepth: { min: INITIAL_ROOT_DEPTH, max: 100 },
+    depletionFraction: 0.55,
+    yieldResponse: 1.25,
+  },
+  wheat: {
+    id: 'wheat',
+    name: 'Spring Wheat',
+    kc: { kcInitial: 0.3, kcMid: 1.15, kcEnd: 0.3, stageLengths: { initial: 20, development: 25, mid: 60, late: 30 } },
+    rootDepth: { min: INITIAL_ROOT_DEPTH, max: 100 },
+    depletionFraction: 0.55,
+    yieldResponse: 1.15,
+  },
+  tomato: {
+    id: 'tomato',
+    name: 'Tomato',
+    kc: { kcInitial: 0.6, kcMid: 1.15, kcEnd: 0.8, stageLengths: { initial: 30, development: 40, mid: 40, late: 25 } },
+    rootDepth: { min: INITIAL_ROOT_DEPTH, max: 70 },
+    depletionFraction: 0.4,
+    yieldResponse: 1.05,
+  },
+  potato: {
+    id: 'potato',
+    name: 'Potato',
+    kc: { kcInitial: 0.5, kcMid: 1.15, kcEnd: 0.75, stageLengths: { initial: 25, development: 30, mid: 45, late: 30 } },
+    rootDepth: { min: INITIAL_ROOT_DEPTH, max: 50 },
+    depletionFraction: 0.35,
+    yieldResponse: 1.1,
+  },
+}
+
+export const cropIds = Object.keys(crops) as CropId[]
+
+export const growthStage = (curve: CropCoefficientCurve, daysAfterPlanting: number): GrowthStage => {
+  const { initial, development, mid, late } = curve.stageLengths
+  if (daysAfterPlanting < 0) return 'fallow'
+  if (daysAfterPlanting < initial) return 'initial'
+  if (daysAfterPlanting < initial + development) return 'development'
+  if (daysAfterPlanting < initial + development + mid) return 'mid'
+  if (daysAfterPlanting < initial + development + mid + late) return 'late'
+  return 'fallow'
+}
+
+/** Kc on a given day, interpolated linearly through development and late season. */
+export const cropCoefficient = (curve: CropCoefficientCurve, daysAfterPlanting: number) => {
+  const { initial, development, mid, late } = curve.stageLengths
+  switch (growthStage(curve, daysAfterPlanting)) {
+    case 'initial':
+      return curve.kcInitial
+    case 'development':
+      return curve.kcInitial + (curve.kcMid - curve.kcInitial) * (daysAfterPlanting - initial) / development
+    case 'mid':
+      return curve.kcMid
+    case 'late':
+      return curve.kcMid + (curve.kcEnd - curve.kcMid) * (daysAfterPlanting - initial - development - mid) / late
+    default:
+      return FALLOW_KC
+  }
+}
+
+/** Rooting depth (cm), growing linearly from planting until full cover at the end of development. */
+export const rootDepth = (crop: Crop, daysAfterPlanting: number) => {
+  const { initial, development } = crop.kc.stageLengths
+  const growth = initial + development > 0 ? Math.max(0, Math.min(1, daysAfterPlanting / (initial + development))) : 1
+  return crop.rootDepth.min + (crop.rootDepth.max - crop.rootDepth.min) * growth
+}
+
+/**
+ * Water stress coefficient Ks (FAO-56 eq. 84) from the root zone depletion Dr
+ * and total available water TAW, both in mm.
+ */
+export const waterStressCoefficient = (crop: Crop, depletion: number, totalAvailableWater: number) => {
+  const readilyAvailableWater = crop.depletionFraction * totalAvailableWater
+  if (depletion <= readilyAvailableWater) return 1
+  return Math.max(0, (totalAvailableWater - depletion) / ((1 - crop.depletionFraction) * totalAvailableWater))
+}
+
+/** Relative yield loss 1 - Ya/Ym (FAO-33) from season actual and potential crop ET. */
+export const relativeYieldLoss = (crop: Crop, actualET: number, potentialET: number) =>
+  potentialET > 0 ? Math.max(0, Math.min(1, crop.yieldResponse * (1 - actualET / potentialET))) : 0
+
+export type CropMapEntry = CropId | 'none'
+
+const cropMapCodes: Record<CropMapEntry, string> = {
+  none: 'n', grass: 'g', maize: 'm', wheat: 'w', tomato: 't', potato: 'p',
+}
+
+export const encodeCropMap = (map: CropMapEntry[]) => encodeCategoryMap(map, cropMapCodes)
+
+export const decodeCropMap = (encoded: string, size: number) => decodeCategoryMap(encoded, size, cropMapCodes)
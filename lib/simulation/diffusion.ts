@@ -0,0 +1,85 @@
+/** Neighbours each cell exchanges water with inside its layer. */
+export type NeighbourStencil = 'four' | 'eight'
+
+export const neighbourStencils: Record<NeighbourStencil, string> = {
+  four: '4 Neighbours (edges only)',
+  eight: '8 Neighbours (edges and corners)',
+}
+
+/**
+ * How lateral flow depends on direction: the conductivity is multiplied by
+ * `along` in the principal direction and by `across` at right angles to it,
+ * so with an angle of 0 they are the x and y multipliers.
+ */
+export interface LateralDiffusion {
+  stencil: NeighbourStencil
+  along: number
+  across: number
+  // Principal direction, degrees clockwise from the rows (pointing right)
+  angle: number
+}
+
+export const isotropicDiffusion: LateralDiffusion = { stencil: 'four', along: 1, across: 1, angle: 0 }
+
+/** Components of the conductivity multiplier tensor, with x to the right and y down the grid. */
+export const diffusionTensor = ({ along, across, angle }: LateralDiffusion) => {
+  const cos = Math.cos(angle * Math.PI / 180)
+  const sin = Math.sin(angle * Math.PI / 180)
+  return {
+    xx: along * cos * cos + across * sin * sin,
+    yy: along * sin * sin + across * cos * cos,
+    xy: (along - across) * sin * cos,
+  }
+}
+
+/**
+ * Weights of the exchange with each neighbour, such that the sum over
+ * neighbours of weight·offset·offsetᵀ reproduces the tensor: `x` and `y` for
+ * the edge neighbours, `diagonal` for the corners down-right and up-left and
+ * `antiDiagonal` for the other two. The 4-neighbour stencil has no corners,
+ * so it drops the cross term of a rotated tensor. The 8-neighbour stencil
+ * gives the corners a third of the weight of an isotropic field, which rounds
+ * off wetting fronts, or more where the cross term needs it; cross terms
+ * beyond what keeps every weight non-negative are cut back.
+ */
+export const stencilWeights = (diffusion: LateralDiffusion) => {
+  const { xx, yy, xy } = diffusionTensor(diffusion)
+  if (diffusion.stencil === 'four') return { x: xx, y: yy, diagonal: 0, antiDiagonal: 0 }
+  const smaller = Math.min(xx, yy)
+  const cross = Math.max(-smaller, Math.min(smaller, xy))
+  const corners = Math.min(smaller, Math.max(Math.abs(cross), smaller / 3))
+  return {
+    x: xx - corners,
+    y: yy - corners,
+    diagonal: (corners + cross) / 2,
+    antiDiagonal: (corners - cross) / 2,
+  }
+}
+
+/** Offsets of the neighbours a stencil exchanges water with, and the weight of each. */
+export const neighbourLinks = (diffusion: LateralDiffusion) => {
+  const { x, y, diagonal, antiDiagonal } = stencilWeights(diffusion)
+  const links = [
+    { dRow: -1, dCol: 0, weight: y },
+    { dRow: 1, dCol: 0, weight: y },
+    { dRow: 0, dCol: -1, weight: x },
+    { dRow: 0, dCol: 1, weight: x },
+    { dRow: 1, dCol: 1, weight: diagonal },
+    { dRow: -1, dCol: -1, weight: diagonal },
+    { dRow: -1, dCol: 1, weight: antiDiagonal },
+    { dRow: 1, dCol: -1, weight: antiDiagonal },
+  ]
+  return links.filter((link) => link.weight > 0)
+}
+
+/** Query parameters for the lateral diffusion, left out where it is isotropic. */
+export const diffusionQuery = (diffusion: LateralDiffusion): Record<string, string> => {
+  const query: Record<string, string> = {}
+  if (diffusion.stencil !== isotropicDiffusion.stencil) query.stencil = diffusion.stencil
+  if (diffusion.along !== 1 || diffusion.across !== 1) {
+    query.diffusionAlong = String(diffusion.along)
+    query.diffusionAcross = String(diffusion.across)
+    query.diffusionAngle = String(diffusion.angle)
+  }
+  return query
+}
@@ -0,0 +1,107 @@
+import { describe, expect, it } from 'vitest'
+import { balanceError } from './budget'
+import { advanceField, createSimulation, stepSimulation } from './engine'
+import { cellIndex, cloneField, createField, type Field } from './field'
+import type { SimulationParams } from './types'
+
+const params: SimulationParams = { evapotranspirationRate: 0.2, irrigationRate: 5, moistureThreshold: 0.2 }
+
+// Wet in the middle and drier towards the edges, with sand in a ring and both mirror symmetries
+const symmetricField = () => {
+  const size = 9
+  const centre = (size - 1) / 2
+  const distance = (row: number, col: number) => Math.hypot(row - centre, col - centre)
+  return createField(size, size, (row, col, layer) => 0.9 - 0.08 * distance(row, col) - 0.1 * layer, {
+    layers: 2,
+    soilAt: (row, col) => Math.abs(distance(row, col) - 2) < 0.6 ? 'sand' : 'loam',
+  })
+}
+
+// Largest difference between each cell and its mirror image across the vertical and horizontal centre lines
+const asymmetry = (field: Field) => {
+  let largest = 0
+  for (let layer = 0; layer < field.layers; layer++) {
+    for (let row = 0; row < field.rows; row++) {
+      for (let col = 0; col < field.cols; col++) {
+        const value = field.moisture[cellIndex(field, row, col, layer)]
+        const mirrors = [
+          cellIndex(field, row, field.cols - 1 - col, layer),
+          cellIndex(field, field.rows - 1 - row, col, layer),
+        ]
+        for (const mirror of mirrors) largest = Math.max(largest, Math.abs(value - field.moisture[mirror]))
+      }
+    }
+  }
+  return largest
+}
+
+describe('advanceField', () => {
+  it('keeps a symmetric field symmetric', () => {
+    let current = symmetricField()
+    expect(asymmetry(current)).toBe(0)
+    for (let step = 0; step < 24; step++) {
+      const next = cloneField(current)
+      advanceField(current, next, params, 1)
+      current = next
+    }
+    expect(asymmetry(current)).toBeLessThan(1e-12)
+    // The field really did change, so the symmetry is not trivial
+    expect(current.moisture).not.toEqual(symmetricField().moisture)
+  })
+
+  it('conserves water', () => {
+    const current = symmetricField()
+    const next = cloneField(current)
+    const { budget, unstableTime } = advanceField(current, next, params, 6, {
+      rainfall: 2,
+      referenceET: null,
+      elapsed: 0,
+      irrigation: new Float64Array(current.rows * current.cols).fill(3),
+    })
+    expect(Math.abs(balanceError(budget))).toBeLessThan(1e-9)
+    expect(unstableTime).toBe(0)
+  })
+
+  it('dries bare soil no further than its residual moisture', () => {
+    // Loam just above its residual moisture under a hot sun, with no crop to limit what the surface gives up
+    const current = createField(1, 1, () => 0.19, { layers: 2, soilAt: () => 'loam' })
+    const next = cloneField(current)
+    const { budget } = advanceField(current, next, params, 24, {
+      rainfall: 0,
+      referenceET: 2,
+      elapsed: 0,
+      irrigation: null,
+    })
+    expect(budget.evapotranspiration).toBeGreaterThan(0)
+    expect(budget.clampGain).toBe(0)
+    expect(Math.abs(balanceError(budget))).toBeLessThan(1e-9)
+    expect(next.moisture[0] * 0.43).toBeGreaterThanOrEqual(0.078 - 1e-12)
+  })
+
+  it('reports the time it takes beyond the stability limit once it runs out of sub-steps', () => {
+    // Wet sand in 1 cm cells kept wet by heavy rain, which a whole day cannot cover in stable sub-steps
+    const current = createField(5, 5, (row, col) => (row + col) % 2 === 0 ? 0.95 : 0.3, { cellSize: 1, soilAt: () => 'sand' })
+    const { unstableTime } = advanceField(current, cloneField(current), params, 24, {
+      rainfall: 100,
+      referenceET: null,
+      elapsed: 0,
+      irrigation: null,
+    })
+    expect(unstableTime).toBeGreaterThan(0)
+    expect(unstableTime).toBeLessThanOrEqual(24)
+  })
+})
+
+describe('stepSimulation', () => {
+  it('is deterministic and leaves its input untouched', () => {
+    const state = createSimulation(symmetricField())
+    const before = cloneField(state.field)
+    const first = stepSimulation(state, params, 1)
+    const second = stepSimulation(state, params, 1)
+    expect(state.field.moisture).toEqual(before.moisture)
+    expect(second.field.moisture).toEqual(first.field.moisture)
+    expect(second.lastBudget).toEqual(first.lastBudget)
+    expect(first.timeStep).toBe(1)
+    expect(first.elapsed).toBe(1)
+  })
+})
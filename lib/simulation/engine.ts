@@ -0,0 +1,384 @@
+import { addBudgets, emptyBudget, totalStorage, type WaterBudget } from './budget'
+import { FALLOW_KC } from './crops'
+import { diffusionTensor, neighbourLinks } from './diffusion'
+import { cloneField, soilAtIndex, type Field, type FieldEdge } from './field'
+import { rootZoneAt } from './rootzone'
+import { routeOverland } from './runoff'
+import { hydraulicConductivity, matricHead } from './soil'
+import { MAX_SUBSTEPS, stableTimeStep } from './stability'
+import type { SimulationParams } from './types'
+import { emptySensorNetwork, interpolateReadings, sampleProbes, type ProbeState, type SensorNetwork } from './sensors'
+import { initialSupplyStatus, rationIrrigation, unlimitedSupply, type SupplyStatus, type WaterSupply } from './supply'
+import { seriesStart, weatherForcing, type WeatherForcing, type WeatherSeries } from './weather'
+import { planIrrigation, type IrrigationZone, type ValveState } from './zones'
+
+// Largest change in degree of saturation water flow may cause in one sub-step
+const MAX_FLOW_CHANGE = 0.05
+
+/** Conditions held constant over one step. */
+export interface StepInputs extends WeatherForcing {
+  // Simulated time at the start of the step (hours), which sets crop ages
+  elapsed: number
+  // Irrigation applied to the surface of each column (mm/h)
+  irrigation: Float64Array | null
+}
+
+const defaultInputs: StepInputs = { rainfall: 0, referenceET: null, elapsed: 0, irrigation: null }
+
+export interface StepResult {
+  budget: WaterBudget
+  // Hours at the end of the step taken in one sub-step beyond the stability limit, 0 for a stable step
+  unstableTime: number
+}
+
+/**
+ * Computes one time step from `current` into `next`. Every sub-step derives
+ * its fluxes from a snapshot of the previous sub-step, so the update order of
+ * the sweep has no influence on the result. The two fields must have the same
+ * shape and must not share buffers.
+ *
+ * Rainfall and the irrigation decided for the step land on the surface,
+ * where they infiltrate the surface layer up to its saturated conductivity
+ * and pond beyond it, as does water the saturated surface layer cannot
+ * hold. Ponded water runs downhill between columns and off the outflow edge,
+ * and the elevation of the ground adds to the head driving flow between
+ * neighbouring cells. ET₀ comes from the weather data when it has it and
+ * from the ET parameter otherwise. Cropped columns lose Ks·Kc·ET₀ spread over
+ * their root zone, and accumulate season ET for the yield estimate; columns
+ * without a crop lose ET₀ from the surface layer, and fields between seasons
+ * lose the bare soil Kc·ET₀. Water then moves along the total head gradient
+ * (Darcy–Buckingham) between the neighbouring cells of a layer the
+ * field's stencil links, scaled by its anisotropy and each cell's
+ * multiplier, and between layers, crosses the side edges as their boundary
+ * conditions allow, and drains freely out of the bottom of the profile. The
+ * sub-step length is bounded both by the wettest cells' diffusivity and by
+ * how fast any cell is currently gaining or losing water. After MAX_SUBSTEPS
+ * sub-steps the last one covers the rest of the step whatever its length, and
+ * the time it covers is reported as unstable.
+ */
+export function advanceField(
+  current: Field,
+  next: Field,
+  params: SimulationParams,
+  timeStepSize: number,
+  inputs: StepInputs = defaultInputs
+): StepResult {
+  const { rows, cols, layers, cellSize, layerThickness } = current
+  const columns = rows * cols
+  const size = columns * layers
+  const budget = emptyBudget()
+  const heads = new Float64Array(size)
+  const conductivities = new Float64Array(size)
+  const porosities = new Float64Array(size)
+  const flowRates = new Float64Array(size)
+  const drainageRates = new Float64Array(columns)
+  const extractionRates = new Float64Array(size)
+  const potentialETRates = new Float64Array(columns)
+  const actualETRates = new Float64Array(columns)
+  const infiltration = new Float64Array(columns)
+  // Inflow across each edge (mm/h over the field)
+  const boundaryRates: Record<FieldEdge, number> = { top: 0, bottom: 0, left: 0, right: 0 }
+  const links = neighbourLinks(current.lateralDiffusion)
+  const tensor = diffusionTensor(current.lateralDiffusion)
+  const periodic: Record<FieldEdge, boolean> = {
+    top: current.boundaries.top.type === 'periodic',
+    bottom: current.boundaries.bottom.type === 'periodic',
+    left: current.boundaries.left.type === 'periodic',
+    right: current.boundaries.right.type === 'periodic',
+  }
+
+  for (let index = 0; index < size; index++) {
+    porosities[index] = soilAtIndex(current, index).porosity
+  }
+  next.moisture.set(current.moisture)
+  next.ponding.set(current.ponding)
+  next.runoffX.fill(0)
+  next.runoffY.fill(0)
+
+  const moisture = next.moisture
+  const toDepth = (theta: number, layer: number) => theta * layerThickness[layer] * 10 / columns
+  // mm/h of water over the surface layer as a θ rate
+  const surfaceRate = (rate: number) => rate / (layerThickness[0] * 10)
+  // mm/h
+  const irrigationRates = inputs.irrigation ?? new Float64Array(columns)
+  // mm/h
+  const referenceET = inputs.referenceET ?? params.evapotranspirationRate
+  let elapsed = 0
+  let unstableTime = 0
+  for (let substep = 1; elapsed < timeStepSize; substep++) {
+    for (let index = 0; index < size; index++) {
+      const soil = soilAtIndex(next, index)
+      const theta = moisture[index] * porosities[index]
+      heads[index] = matricHead(soil, theta)
+      conductivities[index] = hydraulicConductivity(soil, theta) * next.diffusivityScale[index]
+    }
+
+    const lateralScale = 1 / (cellSize * cellSize)
+    const elevation = current.elevation
+    // Total head: matric head plus the elevation of the ground, which is the same offset in every layer
+    const lateralFlow = (from: number, to: number, fromElevation = elevation[from % columns]) =>
+      0.5 * (conductivities[from] + conductivities[to]) *
+      (heads[from] + fromElevation - heads[to] - elevation[to % columns]) * lateralScale
+
+    // Drop in elevation over one whole field down the given columns or along the given rows, averaged, which the
+    // field repeats with beyond periodic edges so slopes carry on
+    const dropDown = (col: number, other: number) => rows > 1
+      ? (elevation[col] + elevation[other] - elevation[(rows - 1) * cols + col] - elevation[(rows - 1) * cols + other]) / 2 * rows / (rows - 1)
+      : 0
+    const dropAcross = (row: number, other: number) => cols > 1
+      ? (elevation[row * cols] + elevation[other * cols] - elevation[row * cols + cols - 1] - elevation[other * cols + cols - 1]) / 2 * cols / (cols - 1)
+      : 0
+
+    // Adds an inflow rate (θ/h) across an edge into the cell at `index` to that edge's rate
+    const crossing = (index: number, edge: FieldEdge, rate: number) => {
+      boundaryRates[edge] += rate * layerThickness[Math.floor(index / columns)] * 10 / columns
+      return rate
+    }
+
+    // Inflow rate (θ/h) from the cell at `row`, `col` beyond the grid, wrapped around over periodic edges
+    const wrappedFlow = (index: number, row: number, col: number) => {
+      const r = (row + rows) % rows
+      const c = (col + cols) % cols
+      const own = index % columns
+      let shift = 0
+      if (row < 0) shift += dropDown(c, own % cols)
+      else if (row >= rows) shift -= dropDown(c, own % cols)
+      if (col < 0) shift += dropAcross(r, Math.floor(own / cols))
+      else if (col >= cols) shift -= dropAcross(r, Math.floor(own / cols))
+      return lateralFlow(index - own + r * cols + c, index, elevation[r * cols + c] + shift)
+    }
+
+    // Inflow rate (θ/h) across a fixed moisture or fixed flux edge into the cell at `index` beside it
+    const boundaryFlow = (index: number, edge: FieldEdge) => {
+      const boundary = current.boundaries[edge]
+      if (boundary.type === 'fixedFlux') return boundary.flux / 10 / cellSize
+      if (boundary.type !== 'fixedMoisture') return 0
+      // Soil beyond the edge is the cell's own, at the same elevation, and the same all along the edge, so the
+      // corner neighbours beyond it add their weight to the one straight across
+      const soil = soilAtIndex(next, index)
+      const theta = boundary.moisture * soil.porosity
+      const weight = edge === 'top' || edge === 'bottom' ? tensor.yy : tensor.xx
+      const conductivity = hydraulicConductivity(soil, theta) * next.diffusivityScale[index]
+      return weight * 0.5 * (conductivity + conductivities[index]) * (matricHead(soil, theta) - heads[index]) * lateralScale
+    }
+
+    // Inflow rate of each cell (θ/h), from neighbours in the grid or across its edges
+    flowRates.fill(0)
+    boundaryRates.top = boundaryRates.bottom = boundaryRates.left = boundaryRates.right = 0
+    for (let layer = 0; layer < layers; layer++) {
+      for (let i = 0; i < rows; i++) {
+        for (let j = 0; j < cols; j++) {
+          const index = layer * columns + i * cols + j
+          let rate = 0
+          for (const { dRow, dCol, weight } of links) {
+            const row = i + dRow
+            const col = j + dCol
+            const rowEdge = row < 0 ? 'top' : row >= rows ? 'bottom' : null
+            const colEdge = col < 0 ? 'left' : col >= cols ? 'right' : null
+            if (!rowEdge && !colEdge) {
+              rate += weight * lateralFlow(index + dRow * cols + dCol, index)
+              continue
+            }
+            const edge = rowEdge ?? colEdge!
+            if ((!rowEdge || periodic[rowEdge]) && (!colEdge || periodic[colEdge])) {
+              rate += crossing(index, edge, weight * wrappedFlow(index, row, col))
+            } else if (dRow === 0 || dCol === 0) {
+              rate += crossing(index, edge, boundaryFlow(index, edge))
+            }
+          }
+          flowRates[index] += rate
+        }
+      }
+    }
+    for (let layer = 0; layer < layers; layer++) {
+      for (let column = 0; column < columns; column++) {
+        const upper = layer * columns + column
+        // Downward flux (cm/h): matric head gradient plus gravity, or unit
+        // gradient free drainage below the bottom layer
+        let flux: number
+        if (layer < layers - 1) {
+          const lower = upper + columns
+          const distance = (layerThickness[layer] + layerThickness[layer + 1]) / 2
+          flux = 0.5 * (conductivities[upper] + conductivities[lower]) * ((heads[upper] - heads[lower]) / distance + 1)
+          flowRates[lower] += flux / layerThickness[layer + 1]
+        } else {
+          flux = conductivities[upper]
+          drainageRates[column] = flux
+        }
+        flowRates[upper] -= flux / layerThickness[layer]
+      }
+    }
+
+    // Root water uptake (θ/h per cell) and crop ET rates (mm/h per column)
+    const day = (inputs.elapsed + elapsed) / 24
+    extractionRates.fill(0)
+    for (let column = 0; column < columns; column++) {
+      const zone = rootZoneAt(next, column, day)
+      if (zone) {
+        potentialETRates[column] = zone.cropCoefficient * referenceET
+        actualETRates[column] = zone.waterStressCoefficient * potentialETRates[column]
+        zone.layerShares.forEach((share, layer) => {
+          extractionRates[layer * columns + column] = actualETRates[column] * share / (layerThickness[layer] * 10)
+        })
+      } else {
+        potentialETRates[column] = 0
+        actualETRates[column] = 0
+        extractionRates[column] = (next.crop[column] === -1 ? 1 : FALLOW_KC) * surfaceRate(referenceET)
+      }
+    }
+
+    let fastestChange = 0
+    for (let index = 0; index < size; index++) {
+      fastestChange = Math.max(fastestChange, Math.abs(flowRates[index] - extractionRates[index]) / porosities[index])
+    }
+
+    const remaining = timeStepSize - elapsed
+    const bound = Math.min(stableTimeStep(next), fastestChange > 0 ? MAX_FLOW_CHANGE / fastestChange : Infinity)
+    const dt = substep === MAX_SUBSTEPS ? remaining : Math.min(remaining, bound)
+    if (dt > bound) unstableTime = dt
+    elapsed = substep === MAX_SUBSTEPS ? timeStepSize : elapsed + dt
+
+    for (const edge of Object.keys(boundaryRates) as FieldEdge[]) budget.boundaryInflow[edge] += boundaryRates[edge] * dt
+    for (let column = 0; column < columns; column++) {
+      budget.deepPercolation += drainageRates[column] * dt * 10 / columns
+      next.potentialET[column] += potentialETRates[column] * dt
+      next.actualET[column] += actualETRates[column] * dt
+      // Water reaching the surface joins the pond, which infiltrates up to the saturated conductivity (mm)
+      next.ponding[column] += (inputs.rainfall + irrigationRates[column]) * dt
+      budget.rainfall += inputs.rainfall * dt / columns
+      budget.irrigation += irrigationRates[column] * dt / columns
+      infiltration[column] = Math.min(next.ponding[column], soilAtIndex(next, column).saturatedConductivity * 10 * dt)
+      next.ponding[column] -= infiltration[column]
+    }
+
+    for (let index = 0; index < size; index++) {
+      const layer = Math.floor(index / columns)
+      const porosity = porosities[index]
+
+      // Uptake and evaporation take only the water held above residual moisture, which bare soil would otherwise
+      // keep drying past until the clamp refilled it
+      const available = Math.max(0, moisture[index] * porosity - soilAtIndex(next, index).residualMoisture)
+      const extracted = Math.min(extractionRates[index] * dt, available)
+      let deltaTheta = flowRates[index] * dt - extracted
+      budget.evapotranspiration += toDepth(extracted, layer)
+      if (layer === 0) deltaTheta += surfaceRate(infiltration[index] / dt) * dt
+
+      const value = moisture[index] + deltaTheta / porosity
+      // The surface layer pushes what it cannot hold back onto the surface; deeper layers lose it
+      if (value > 1 && layer === 0) next.ponding[index] += (value - 1) * porosity * layerThickness[0] * 10
+      else if (value > 1) budget.clampLoss += toDepth((value - 1) * porosity, layer)
+      if (value < 0) budget.clampGain -= toDepth(value * porosity, layer)
+      moisture[index] = Math.max(0, Math.min(1, value))
+    }
+
+    budget.runoff += routeOverland(next, next.ponding, dt, next.runoffX, next.runoffY) / columns
+  }
+
+  for (let column = 0; column < columns; column++) {
+    next.runoffX[column] /= timeStepSize
+    next.runoffY[column] /= timeStepSize
+  }
+  budget.storageChange = totalStorage(next) - totalStorage(current)
+  return { budget, unstableTime }
+}
+
+export interface SimulationState {
+  field: Field
+  timeStep: number
+  // Simulated time since the start (hours)
+  elapsed: number
+  lastBudget: WaterBudget
+  cumulativeBudget: WaterBudget
+  // Hours of the last step taken beyond the stability limit once it ran out of sub-steps
+  unstableTime: number
+  zones: IrrigationZone[]
+  // Valve of each zone by id, as decided for the last step
+  valves: Record<number, ValveState>
+  supply: WaterSupply
+  supplyStatus: SupplyStatus
+  sensors: SensorNetwork
+  // Last reading of each probe by id
+  probeStates: Record<number, ProbeState>
+}
+
+export const createSimulation = (
+  field: Field,
+  zones: IrrigationZone[] = [],
+  supply: WaterSupply = unlimitedSupply,
+  sensors: SensorNetwork = emptySensorNetwork
+): SimulationState => ({
+  field,
+  timeStep: 0,
+  elapsed: 0,
+  lastBudget: emptyBudget(),
+  cumulativeBudget: emptyBudget(),
+  unstableTime: 0,
+  zones,
+  valves: {},
+  supply,
+  supplyStatus: initialSupplyStatus(),
+  sensors,
+  probeStates: {},
+})
+
+/** External time series feeding the simulation; the first record is time zero. */
+export interface SimulationDrivers {
+  weather?: WeatherSeries | null
+}
+
+// Hours from the midnight before the start to the start
+const startOffset = (weather?: WeatherSeries | null) => {
+  const start = weather ? new Date(seriesStart(weather)) : null
+  return start ? start.getUTCHours() + start.getUTCMinutes() / 60 : 0
+}
+
+/** Hour of the day `elapsed` hours in: UTC with weather data, counted from midnight at the start otherwise. */
+export const hourOfDay = (elapsed: number, weather?: WeatherSeries | null) =>
+  (((startOffset(weather) + elapsed) % 24) + 24) % 24
+
+/** Calendar day `elapsed` hours in, the day of the start being 0. */
+export const calendarDay = (elapsed: number, weather?: WeatherSeries | null) =>
+  Math.floor((startOffset(weather) + elapsed) / 24)
+
+/** Returns the simulation one time step later, leaving the input untouched. */
+export function stepSimulation(
+  state: SimulationState,
+  params: SimulationParams,
+  timeStepSize: number,
+  drivers: SimulationDrivers = {}
+): SimulationState {
+  const field = cloneField(state.field)
+  const forcing = drivers.weather
+    ? weatherForcing(drivers.weather, state.elapsed, state.elapsed + timeStepSize)
+    : defaultInputs
+  const clock = {
+    elapsed: state.elapsed,
+    hourOfDay: hourOfDay(state.elapsed, drivers.weather),
+    day: calendarDay(state.elapsed, drivers.weather),
+    duration: timeStepSize,
+  }
+  // Probes read at the start of the step, and decisions only see what they read
+  const probeStates = sampleProbes(state.field, state.sensors, state.probeStates, state.elapsed, timeStepSize)
+  const estimate = interpolateReadings(state.field, state.sensors, probeStates)
+  const plan = planIrrigation(state.field, state.zones, state.valves, params, clock, estimate)
+  // Taps show what was called for, even when the supply could not deliver it
+  field.tapStatus.set(plan.tapStatus)
+  const supply = rationIrrigation(state.field, state.zones, state.supply, state.supplyStatus, plan.rates, clock, estimate)
+  const { budget, unstableTime } = advanceField(state.field, field, params, timeStepSize, {
+    ...forcing,
+    elapsed: state.elapsed,
+    irrigation: supply.rates,
+  })
+  return {
+    ...state,
+    field,
+    timeStep: state.timeStep + 1,
+    elapsed: state.elapsed + timeStepSize,
+    lastBudget: budget,
+    cumulativeBudget: addBudgets(state.cumulativeBudget, budget),
+    unstableTime,
+    valves: plan.valves,
+    supplyStatus: supply.status,
+    probeStates,
+  }
+}
@@ -0,0 +1,25 @@
+import { describe, expect, it } from 'vitest'
+import { penmanMonteith } from './evapotranspiration'
+
+describe('penmanMonteith', () => {
+  // FAO-56 example 18: Brussels on 6 July, ET₀ = 3.9 mm/day
+  const site = { latitude: 50.8, elevation: 100 }
+  const day = {
+    time: Date.UTC(2023, 6, 6),
+    rainfall: 0,
+    temperatureMin: 12.3,
+    temperatureMax: 21.5,
+    // ea of 1.409 kPa over es of 1.997 kPa
+    humidity: 70.6,
+    windSpeed: 2.078,
+    solarRadiation: 22.07,
+  }
+
+  it('follows eq. 6 for a daily record', () => {
+    expect(penmanMonteith(day, 24, site)).toBeCloseTo(3.9, 1)
+  })
+
+  it('returns null without humidity', () => {
+    expect(penmanMonteith({ ...day, humidity: undefined }, 24, site)).toBeNull()
+  })
+})
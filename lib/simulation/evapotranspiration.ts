@@ -0,0 +1,176 @@
+import { periodHours, type ReferenceETMethod, type WeatherRecord, type WeatherSeries } from './weather'
+
+// Reference evapotranspiration after FAO Irrigation and Drainage Paper 56
+// (Allen et al., 1998). Equation numbers refer to that paper.
+
+export interface SiteInfo {
+  // Degrees, positive north
+  latitude: number
+  // Metres above sea level
+  elevation: number
+}
+
+export const defaultSite: SiteInfo = { latitude: 45, elevation: 100 }
+
+const SOLAR_CONSTANT = 0.082 // MJ/m²/min
+const STEFAN_BOLTZMANN = 4.903e-9 // MJ/K⁴/m²/day
+const DEFAULT_WIND_SPEED = 2 // m/s, FAO-56 recommendation when wind is not measured
+const HOUR = 3600 * 1000
+
+const toRadians = (degrees: number) => degrees * Math.PI / 180
+
+const dayOfYear = (time: number) => {
+  const date = new Date(time)
+  return Math.floor((time - Date.UTC(date.getUTCFullYear(), 0, 1)) / (24 * HOUR)) + 1
+}
+
+// Eq. 7 and 8
+const psychrometricConstant = (elevation: number) =>
+  0.000665 * 101.3 * Math.pow((293 - 0.0065 * elevation) / 293, 5.26)
+
+// Eq. 11
+const saturationVapourPressure = (temperature: number) =>
+  0.6108 * Math.exp(17.27 * temperature / (temperature + 237.3))
+
+// Eq. 13
+const vapourPressureSlope = (temperature: number) =>
+  4098 * saturationVapourPressure(temperature) / Math.pow(temperature + 237.3, 2)
+
+/**
+ * Extraterrestrial radiation (MJ/m²) over `hours` starting at `time`: eq. 21
+ * for whole days, eq. 28 for shorter periods. Timestamps are taken as local
+ * solar time.
+ */
+export const extraterrestrialRadiation = (time: number, hours: number, latitude: number) => {
+  const j = dayOfYear(time)
+  const phi = toRadians(latitude)
+  const inverseDistance = 1 + 0.033 * Math.cos(2 * Math.PI * j / 365)
+  const declination = 0.409 * Math.sin(2 * Math.PI * j / 365 - 1.39)
+  const sunsetAngle = Math.acos(Math.max(-1, Math.min(1, -Math.tan(phi) * Math.tan(declination))))
+
+  if (hours >= 24) {
+    const daily = 24 * 60 / Math.PI * SOLAR_CONSTANT * inverseDistance *
+      (sunsetAngle * Math.sin(phi) * Math.sin(declination) + Math.cos(phi) * Math.cos(declination) * Math.sin(sunsetAngle))
+    return daily * hours / 24
+  }
+
+  const hourOfDay = new Date(time).getUTCHours() + new Date(time).getUTCMinutes() / 60
+  const start = Math.max(-sunsetAngle, Math.PI / 12 * (hourOfDay - 12))
+  const end = Math.min(sunsetAngle, Math.PI / 12 * (hourOfDay + hours - 12))
+  if (end <= start) return 0
+  return 12 * 60 / Math.PI * SOLAR_CONSTANT * inverseDistance *
+    ((end - start) * Math.sin(phi) * Math.sin(declination) + Math.cos(phi) * Math.cos(declination) * (Math.sin(end) - Math.sin(start)))
+}
+
+/**
+ * FAO-56 Penman–Monteith ET₀ (mm) for one weather record spanning `hours`:
+ * eq. 6 for daily records, eq. 53 for hourly ones. Returns null when
+ * temperature, humidity or solar radiation is missing.
+ */
+export const penmanMonteith = (record: WeatherRecord, hours: number, site: SiteInfo): number | null => {
+  const hasRange = record.temperatureMin !== undefined && record.temperatureMax !== undefined
+  const temperature = record.temperature ?? (hasRange ? (record.temperatureMin! + record.temperatureMax!) / 2 : undefined)
+  if (temperature === undefined || record.humidity === undefined || record.solarRadiation === undefined) return null
+
+  const daily = hours >= 24
+  const windSpeed = record.windSpeed ?? DEFAULT_WIND_SPEED
+  const gamma = psychrometricConstant(site.elevation)
+  const delta = vapourPressureSlope(temperature)
+  // Eq. 12, falling back to the mean temperature
+  const es = daily && hasRange
+    ? (saturationVapourPressure(record.temperatureMin!) + saturationVapourPressure(record.temperatureMax!)) / 2
+    : saturationVapourPressure(temperature)
+  // Eq. 19 with mean relative humidity
+  const ea = es * record.humidity / 100
+
+  // Radiation terms per hour (MJ/m²/h), scaled to the period of the equation below
+  const solar = record.solarRadiation / hours
+  const clearSky = (0.75 + 2e-5 * site.elevation) * extraterrestrialRadiation(record.time, hours, site.latitude) / hours
+  // At night the cloudiness ratio is unknown; 0.7 is a typical mid value
+  const relativeShortwave = clearSky > 0.01 ? Math.max(0.25, Math.min(1, solar / clearSky)) : 0.7
+  const netShortwave = 0.77 * solar // Eq. 38, albedo 0.23
+  // Eq. 39, with the mean of the fourth powers of Tmin and Tmax for days that have them
+  const kelvin4 = daily && hasRange
+    ? (Math.pow(record.temperatureMin! + 273.16, 4) + Math.pow(record.temperatureMax! + 273.16, 4)) / 2
+    : Math.pow(temperature + 273.16, 4)
+  const netLongwave = STEFAN_BOLTZMANN / 24 * kelvin4 * (0.34 - 0.14 * Math.sqrt(Math.max(0, ea))) * (1.35 * relativeShortwave - 0.35)
+  const netRadiation = netShortwave - netLongwave
+  // Eq. 42 for days, eq. 45 and 46 for hours
+  const soilHeat = daily ? 0 : netRadiation * (netRadiation > 0 ? 0.1 : 0.5)
+
+  // Eq. 6 gives mm/day with radiation per day, eq. 53 mm/h with radiation per hour
+  const period = daily ? 24 : 1
+  const rate = (0.408 * delta * (netRadiation - soilHeat) * period + gamma * (daily ? 900 : 37) / (temperature + 273) * windSpeed * (es - ea)) /
+    (delta + gamma * (1 + 0.34 * windSpeed))
+  return Math.max(0, rate * hours / period)
+}
+
+/**
+ * Hargreaves ET₀ (mm, eq. 52) for a record spanning `hours`. The daily total
+ * is shared among sub-daily records in proportion to their extraterrestrial
+ * radiation, so it falls at night to zero.
+ */
+export const hargreaves = (
+  record: WeatherRecord,
+  hours: number,
+  day: { mean: number; min: number; max: number },
+  site: SiteInfo
+) => {
+  const dayStart = Math.floor(record.time / (24 * HOUR)) * 24 * HOUR
+  const dailyRadiation = extraterrestrialRadiation(dayStart, 24, site.latitude)
+  const daily = 0.0023 * (day.mean + 17.8) * Math.sqrt(Math.max(0, day.max - day.min)) * 0.408 * dailyRadiation
+  if (hours >= 24) return Math.max(0, daily * hours / 24)
+  const share = dailyRadiation > 0 ? extraterrestrialRadiation(record.time, hours, site.latitude) / dailyRadiation : hours / 24
+  return Math.max(0, daily * share)
+}
+
+/**
+ * Returns a copy of the series where every record without a measured ET₀ gets
+ * one from Penman–Monteith, or from Hargreaves when only temperature is known.
+ * Hargreaves needs a daily temperature range: either Tmin/Tmax columns or
+ * several temperature readings on the same (UTC) day.
+ */
+export const withReferenceET = (series: WeatherSeries, site: SiteInfo): WeatherSeries => {
+  const dailyTemperatures = new Map<number, number[]>()
+  series.records.forEach((record) => {
+    const day = Math.floor(record.time / (24 * HOUR))
+    const values = dailyTemperatures.get(day) ?? []
+    if (record.temperature !== undefined) values.push(record.temperature)
+    if (record.temperatureMin !== undefined) values.push(record.temperatureMin)
+    if (record.temperatureMax !== undefined) values.push(record.temperatureMax)
+    dailyTemperatures.set(day, values)
+  })
+
+  const records = series.records.map((record, index) => {
+    if (record.referenceETMethod === 'measured') return record
+    const hours = periodHours(series, index)
+    const computed: { value: number | null; method: ReferenceETMethod } = {
+      value: penmanMonteith(record, hours, site),
+      method: 'penman-monteith',
+    }
+    if (computed.value === null) {
+      const temperatures = dailyTemperatures.get(Math.floor(record.time / (24 * HOUR))) ?? []
+      if (temperatures.length >= 2) {
+        const min = Math.min(...temperatures)
+        const max = Math.max(...temperatures)
+        const mean = record.temperature ?? (min + max) / 2
+        computed.value = hargreaves(record, hours, { mean, min, max }, site)
+        computed.method = 'hargreaves'
+      }
+    }
+    if (computed.value === null) return record
+    return { ...record, referenceET: computed.value, referenceETMethod: computed.method }
+  })
+  return { ...series, records }
+}
+
+/** The method used for most records of the series, or null if it has no ET₀. */
+export const referenceETMethod = (series: WeatherSeries): ReferenceETMethod | null => {
+  const counts: Partial<Record<ReferenceETMethod, number>> = {}
+  series.records.forEach((record) => {
+    if (record.referenceETMethod) counts[record.referenceETMethod] = (counts[record.referenceETMethod] ?? 0) + 1
+  })
+  const methods = Object.keys(counts) as ReferenceETMethod[]
+  if (methods.length === 0) return null
+  return methods.reduce((best, method) => counts[method]! > counts[best]! ? method : best)
+}
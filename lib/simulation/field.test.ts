@@ -0,0 +1,33 @@
+import { describe, expect, it } from 'vitest'
+import { cropIds } from './crops'
+import { validFieldValues } from './field'
+import { soilTextureIds } from './soil'
+
+describe('validFieldValues', () => {
+  it.each([
+    ['soil', [0, 1, 2, 3]],
+    ['crop', [-1, 0, cropIds.length - 1]],
+    ['zone', [0, 255]],
+    ['tapStatus', [0, 1]],
+    ['overrideTap', [0, 1]],
+    ['diffusivityScale', [0, 1, 25]],
+  ] as const)('accepts %s data of %o', (array, values) => {
+    expect(validFieldValues(array, values, soilTextureIds.length)).toBe(true)
+  })
+
+  it.each([
+    ['soil', 4],
+    ['soil', 0.5],
+    ['soil', -1],
+    ['crop', -2],
+    ['crop', cropIds.length],
+    ['zone', 256],
+    ['zone', 1.5],
+    ['tapStatus', 2],
+    ['overrideTap', 3],
+    ['diffusivityScale', -1],
+    ['diffusivityScale', Infinity],
+  ] as const)('rejects %s data of %d, which a typed array would wrap or truncate', (array, value) => {
+    expect(validFieldValues(array, [0, value], soilTextureIds.length)).toBe(false)
+  })
+})
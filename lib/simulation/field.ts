@@ -0,0 +1,263 @@
+import { noFluxBoundaries, type FieldBoundaries } from './boundaries'
+import { cropIds, type CropId } from './crops'
+import { isotropicDiffusion, type LateralDiffusion } from './diffusion'
+import { soilTextureIds, soilTextures, type SoilTexture, type SoilTextureId } from './soil'
+import type { Cell } from './types'
+
+export const DEFAULT_CELL_SIZE = 10 // cm
+export const DEFAULT_LAYER_THICKNESS = 10 // cm
+
+export type FieldEdge = 'top' | 'bottom' | 'left' | 'right'
+
+/**
+ * Grid state stored as flat typed arrays so a step can read from one buffer
+ * set and write into another without sharing cell objects.
+ *
+ * Per-cell arrays (`soil`, `moisture`, `diffusivityScale`) hold `layers` stacked row-major planes,
+ * surface layer first. Tap and crop arrays hold one value per column of the
+ * grid, as do the surface arrays (`elevation`, `ponding` and runoff).
+ *
+ * `moisture` is the degree of saturation θ/θs of each cell's soil, so 0 is
+ * oven-dry and 1 is saturated whatever the texture.
+ */
+export interface Field {
+  rows: number
+  cols: number
+  layers: number
+  // Edge length of a cell (cm)
+  cellSize: number
+  // Thickness of each layer from the surface down (cm)
+  layerThickness: number[]
+  // Texture palette indexed by `soil`, in the order of soilTextureIds
+  soils: SoilTexture[]
+  soil: Uint8Array
+  moisture: Float64Array
+  // Multiplier of each cell's hydraulic conductivity, e.g. for compacted soil or a tile line
+  diffusivityScale: Float64Array
+  tapStatus: Uint8Array
+  overrideTap: Uint8Array
+  // Index into cropIds, or -1 for no crop
+  crop: Int8Array
+  // Day of planting, counted from the start of the simulation
+  plantingDay: Float64Array
+  // Season totals of potential (Kc·ET₀) and actual (Ks·Kc·ET₀) crop ET (mm)
+  potentialET: Float64Array
+  actualET: Float64Array
+  // Irrigation zone of each column, 0 for none
+  zone: Uint8Array
+  // Ground surface elevation of each column (cm)
+  elevation: Float64Array
+  // Water standing on the surface of each column (mm)
+  ponding: Float64Array
+  // Mean overland outflow of each column over the last step, along the rows
+  // (right positive) and columns (down positive), as a depth rate over the column (mm/h)
+  runoffX: Float64Array
+  runoffY: Float64Array
+  // Edge surface water runs off the field over; null keeps it all in
+  outflowEdge: FieldEdge | null
+  // What happens to soil water at each edge
+  boundaries: FieldBoundaries
+  // Neighbours and direction dependence of flow within a layer
+  lateralDiffusion: LateralDiffusion
+}
+
+export interface FieldOptions {
+  cellSize?: number
+  layers?: number
+  layerThickness?: number
+  customSoil?: SoilTexture
+  soilAt?: (row: number, col: number) => SoilTextureId
+  cropAt?: (row: number, col: number) => CropId | null
+  plantingDay?: number
+  zoneAt?: (row: number, col: number) => number
+  // cm
+  elevationAt?: (row: number, col: number) => number
+  outflowEdge?: FieldEdge | null
+  boundaries?: FieldBoundaries
+  lateralDiffusion?: LateralDiffusion
+}
+
+export const cellIndex = (field: Field, row: number, col: number, layer = 0) =>
+  (layer * field.rows + row) * field.cols + col
+
+export const columnIndex = (field: Field, row: number, col: number) => row * field.cols + col
+
+export const createField = (
+  rows: number,
+  cols: number,
+  initialMoisture: (row: number, col: number, layer: number) => number,
+  options: FieldOptions = {}
+): Field => {
+  const layers = options.layers ?? 1
+  const size = rows * cols * layers
+  const field: Field = {
+    rows,
+    cols,
+    layers,
+    cellSize: options.cellSize ?? DEFAULT_CELL_SIZE,
+    layerThickness: Array(layers).fill(options.layerThickness ?? DEFAULT_LAYER_THICKNESS),
+    soils: soilTextureIds.map((id) => id === 'custom' && options.customSoil ? options.customSoil : soilTextures[id]),
+    soil: new Uint8Array(size),
+    moisture: new Float64Array(size),
+    diffusivityScale: new Float64Array(size).fill(1),
+    tapStatus: new Uint8Array(rows * cols),
+    overrideTap: new Uint8Array(rows * cols),
+    crop: new Int8Array(rows * cols).fill(-1),
+    plantingDay: new Float64Array(rows * cols).fill(options.plantingDay ?? 0),
+    potentialET: new Float64Array(rows * cols),
+    actualET: new Float64Array(rows * cols),
+    zone: new Uint8Array(rows * cols),
+    elevation: new Float64Array(rows * cols),
+    ponding: new Float64Array(rows * cols),
+    runoffX: new Float64Array(rows * cols),
+    runoffY: new Float64Array(rows * cols),
+    outflowEdge: options.outflowEdge ?? null,
+    boundaries: options.boundaries ?? noFluxBoundaries,
+    lateralDiffusion: options.lateralDiffusion ?? isotropicDiffusion,
+  }
+  for (let row = 0; row < rows; row++) {
+    for (let col = 0; col < cols; col++) {
+      const crop = options.cropAt?.(row, col) ?? null
+      field.crop[row * cols + col] = crop === null ? -1 : cropIds.indexOf(crop)
+      field.zone[row * cols + col] = options.zoneAt?.(row, col) ?? 0
+      field.elevation[row * cols + col] = options.elevationAt?.(row, col) ?? 0
+    }
+  }
+  for (let layer = 0; layer < layers; layer++) {
+    for (let row = 0; row < rows; row++) {
+      for (let col = 0; col < cols; col++) {
+        const index = cellIndex(field, row, col, layer)
+        field.moisture[index] = initialMoisture(row, col, layer)
+        field.soil[index] = soilTextureIds.indexOf(options.soilAt?.(row, col) ?? 'loam')
+      }
+    }
+  }
+  return field
+}
+
+// Arrays whose values index into a list or must stay within a range, so values read from a file or link are checked
+export type CheckedFieldArray = 'soil' | 'crop' | 'zone' | 'tapStatus' | 'overrideTap' | 'diffusivityScale'
+
+const validValue: Record<CheckedFieldArray, (value: number, soilCount: number) => boolean> = {
+  soil: (value, soilCount) => Number.isInteger(value) && value >= 0 && value < soilCount,
+  crop: (value) => Number.isInteger(value) && value >= -1 && value < cropIds.length,
+  zone: (value) => Number.isInteger(value) && value >= 0 && value <= 255,
+  tapStatus: (value) => value === 0 || value === 1,
+  overrideTap: (value) => value === 0 || value === 1,
+  diffusivityScale: (value) => isFinite(value) && value >= 0,
+}
+
+/**
+ * Whether every value is valid for the array: soil indices into a palette of
+ * `soilCount` textures, crop indices into cropIds or -1, zone ids of 0–255,
+ * taps of 0 or 1 and non-negative multipliers. Typed arrays would silently
+ * wrap or truncate anything else.
+ */
+export const validFieldValues = (array: CheckedFieldArray, values: ArrayLike<number>, soilCount: number) =>
+  Array.prototype.every.call(values, (value: number) => validValue[array](value, soilCount))
+
+export const cloneField = (field: Field): Field => ({
+  rows: field.rows,
+  cols: field.cols,
+  layers: field.layers,
+  cellSize: field.cellSize,
+  layerThickness: field.layerThickness,
+  soils: field.soils,
+  soil: field.soil.slice(),
+  moisture: field.moisture.slice(),
+  diffusivityScale: field.diffusivityScale.slice(),
+  tapStatus: field.tapStatus.slice(),
+  overrideTap: field.overrideTap.slice(),
+  crop: field.crop.slice(),
+  plantingDay: field.plantingDay.slice(),
+  potentialET: field.potentialET.slice(),
+  actualET: field.actualET.slice(),
+  zone: field.zone.slice(),
+  elevation: field.elevation.slice(),
+  ponding: field.ponding.slice(),
+  runoffX: field.runoffX.slice(),
+  runoffY: field.runoffY.slice(),
+  outflowEdge: field.outflowEdge,
+  boundaries: field.boundaries,
+  lateralDiffusion: field.lateralDiffusion,
+})
+
+export const getSoilTexture = (field: Field, id: SoilTextureId) => field.soils[soilTextureIds.indexOf(id)]
+
+export const cropAtColumn = (field: Field, column: number): CropId | null =>
+  field.crop[column] === -1 ? null : cropIds[field.crop[column]]
+
+export const soilAtIndex = (field: Field, index: number) => field.soils[field.soil[index]]
+
+/** Volumetric water content θ (m³/m³) of the cell at `index`. */
+export const volumetricMoisture = (field: Field, index: number) =>
+  field.moisture[index] * soilAtIndex(field, index).porosity
+
+/** Depth (cm) of the top and bottom of a layer. */
+export const layerDepth = (field: Field, layer: number) => {
+  const top = field.layerThickness.slice(0, layer).reduce((sum, thickness) => sum + thickness, 0)
+  return { top, bottom: top + field.layerThickness[layer] }
+}
+
+/** Thickness-weighted mean degree of saturation over the whole profile of a column. */
+export const columnMoisture = (field: Field, column: number) => {
+  const columns = field.rows * field.cols
+  let weighted = 0
+  let depth = 0
+  for (let layer = 0; layer < field.layers; layer++) {
+    weighted += field.moisture[layer * columns + column] * field.layerThickness[layer]
+    depth += field.layerThickness[layer]
+  }
+  return weighted / depth
+}
+
+export const getCell = (field: Field, row: number, col: number, layer = 0): Cell => {
+  const index = cellIndex(field, row, col, layer)
+  const column = columnIndex(field, row, col)
+  return {
+    moisture: field.moisture[index],
+    soil: soilAtIndex(field, index).id,
+    diffusivityScale: field.diffusivityScale[index],
+    tapStatus: field.tapStatus[column] === 1,
+    overrideTap: field.overrideTap[column] === 1,
+    crop: cropAtColumn(field, column),
+    plantingDay: field.plantingDay[column],
+    zone: field.zone[column],
+  }
+}
+
+export const toCells = (field: Field, layer = 0): Cell[] =>
+  Array.from({ length: field.rows * field.cols }, (_, index) =>
+    getCell(field, Math.floor(index / field.cols), index % field.cols, layer)
+  )
+
+/** Returns a copy of the field with one cell changed. Tap and crop changes apply to the whole column. */
+export const updateCell = (field: Field, row: number, col: number, changes: Partial<Cell>, layer = 0): Field => {
+  const next = cloneField(field)
+  const index = cellIndex(next, row, col, layer)
+  const column = columnIndex(next, row, col)
+  if (changes.moisture !== undefined) next.moisture[index] = changes.moisture
+  if (changes.soil !== undefined) next.soil[index] = soilTextureIds.indexOf(changes.soil)
+  if (changes.diffusivityScale !== undefined) next.diffusivityScale[index] = changes.diffusivityScale
+  if (changes.tapStatus !== undefined) next.tapStatus[column] = changes.tapStatus ? 1 : 0
+  if (changes.overrideTap !== undefined) next.overrideTap[column] = changes.overrideTap ? 1 : 0
+  if (changes.zone !== undefined) next.zone[column] = changes.zone
+  if (changes.crop !== undefined || changes.plantingDay !== undefined) {
+    if (changes.crop !== undefined) next.crop[column] = changes.crop === null ? -1 : cropIds.indexOf(changes.crop)
+    if (changes.plantingDay !== undefined) next.plantingDay[column] = changes.plantingDay
+    // A new crop or planting starts a new season
+    next.potentialET[column] = 0
+    next.actualET[column] = 0
+  }
+  return next
+}
+
+/** Returns a copy of the field with every column planted with `crop` on `plantingDay`. */
+export const plantField = (field: Field, crop: CropId | null, plantingDay: number): Field => {
+  const next = cloneField(field)
+  next.crop.fill(crop === null ? -1 : cropIds.indexOf(crop))
+  next.plantingDay.fill(plantingDay)
+  next.potentialET.fill(0)
+  next.actualET.fill(0)
+  return next
+}
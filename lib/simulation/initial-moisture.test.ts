@@ -0,0 +1,101 @@
+import { describe, expect, it } from 'vitest'
+import { blur, boxWidths, defaultInitialMoisture, initialMoistureMap, type BlurEdge, type InitialMoisture } from './initial-moisture'
+import { setupNumbers } from './setup-schema'
+
+const options = (changes: Partial<InitialMoisture>): InitialMoisture => ({ ...defaultInitialMoisture, seed: 'test', ...changes })
+
+// Grid of pseudo-random values in [0, 1) that repeats for the same size
+const noise = (rows: number, cols: number) => Float64Array.from({ length: rows * cols }, (_, i) => Math.abs(Math.sin(i * 12.9898) * 43758.5453) % 1)
+
+// Blur by summing every cell under each of the three boxes in turn, along the rows and then down the columns
+const directBlur = (values: Float64Array, rows: number, cols: number, sigma: number, edge: BlurEdge) =>
+  boxWidths(sigma).reduce((current, width) => {
+    const reach = (width - 1) / 2
+    const along = new Float64Array(current.length)
+    const down = new Float64Array(current.length)
+    // Value at `row`, `col`, with the grid's edge held beyond it or zero
+    const at = (grid: Float64Array, row: number, col: number) => {
+      if (edge === 'zero' && (row < 0 || row >= rows || col < 0 || col >= cols)) return 0
+      return grid[Math.min(rows - 1, Math.max(0, row)) * cols + Math.min(cols - 1, Math.max(0, col))]
+    }
+    for (let row = 0; row < rows; row++) {
+      for (let col = 0; col < cols; col++) {
+        for (let i = -reach; i <= reach; i++) along[row * cols + col] += at(current, row, col + i) / width
+      }
+    }
+    for (let row = 0; row < rows; row++) {
+      for (let col = 0; col < cols; col++) {
+        for (let i = -reach; i <= reach; i++) down[row * cols + col] += at(along, row + i, col) / width
+      }
+    }
+    return down
+  }, values)
+
+// Number of times a blur reads the grid it is given
+const reads = (rows: number, cols: number, sigma: number, edge: BlurEdge) => {
+  let count = 0
+  const grid = new Proxy(new Float64Array(rows * cols), {
+    get: (target, key) => {
+      if (typeof key === 'string' && /^\d+$/.test(key)) count++
+      return Reflect.get(target, key)
+    },
+  })
+  blur(grid, rows, cols, sigma, edge)
+  return count
+}
+
+const range = (map: Float64Array) => ({
+  min: map.reduce((min, value) => Math.min(min, value)),
+  max: map.reduce((max, value) => Math.max(max, value)),
+})
+
+describe('initialMoistureMap', () => {
+  it.each(['random', 'correlated', 'gradient', 'spots'] as const)('gives the same %s map for the same seed', (distribution) => {
+    const first = initialMoistureMap(20, 30, options({ distribution }))
+    expect(initialMoistureMap(20, 30, options({ distribution }))).toEqual(first)
+    expect(range(first).min).toBeGreaterThanOrEqual(0)
+    expect(range(first).max).toBeLessThanOrEqual(1)
+  })
+
+  it('spreads correlated noise over the full variation', () => {
+    const { min, max } = range(initialMoistureMap(40, 40, options({ distribution: 'correlated', correlationLength: 4 })))
+    expect(min).toBe(0)
+    expect(max).toBe(1)
+  })
+
+  it('peaks a lone spot at the full variation and fades it with distance', () => {
+    const map = initialMoistureMap(41, 41, options({ distribution: 'spots', spots: 1, spotRadius: 4 }))
+    const departures = map.map((value) => Math.abs(value - 0.5))
+    const centre = departures.indexOf(range(departures).max)
+    expect(departures[centre]).toBeCloseTo(0.5, 10)
+    departures.forEach((departure, index) => {
+      const distance = Math.hypot(Math.floor(index / 41) - Math.floor(centre / 41), index % 41 - centre % 41)
+      if (distance > 16) expect(departure).toBeLessThan(0.01)
+    })
+  })
+})
+
+describe('blur', () => {
+  it.each([1, 2.5, 6, 20])('gives boxes that spread as far as a Gaussian of standard deviation %d, to within a third of a cell', (sigma) => {
+    const variance = boxWidths(sigma).reduce((sum, width) => sum + (width * width - 1) / 12, 0)
+    expect(Math.abs(Math.sqrt(variance) - sigma)).toBeLessThan(1 / 3)
+  })
+
+  it.each([
+    [1, 'hold'],
+    [2.5, 'hold'],
+    [4, 'zero'],
+    [10, 'zero'],
+  ] as const)('matches a direct box blur of standard deviation %d with %s edges', (sigma, edge) => {
+    const values = noise(15, 17)
+    const expected = directBlur(values, 15, 17, sigma, edge)
+    blur(values, 15, 17, sigma, edge).forEach((value, i) => expect(value).toBeCloseTo(expected[i], 12))
+  })
+
+  it.each(['hold', 'zero'] as const)('reads each cell a fixed number of times however wide the kernel (%s edges)', (edge) => {
+    const { rows, cols, correlationLength } = setupNumbers
+    const perCell = reads(20, 30, 1, edge) / 600
+    expect(reads(20, 30, correlationLength.max, edge)).toBe(perCell * 600)
+    expect(reads(rows.max, cols.max, correlationLength.max, edge)).toBe(perCell * rows.max * cols.max)
+  })
+})
@@ -0,0 +1,154 @@
+import { createRandom, gaussian } from './random'
+
+export type MoistureDistribution = 'uniform' | 'random' | 'correlated' | 'gradient' | 'spots'
+
+export const moistureDistributions: Record<MoistureDistribution, string> = {
+  uniform: 'Uniform',
+  random: 'Random (uncorrelated)',
+  correlated: 'Correlated Noise',
+  gradient: 'Linear Gradient',
+  spots: 'Wet and Dry Spots',
+}
+
+/** How the starting saturation is laid out over the grid; every layer starts from the same map. */
+export interface InitialMoisture {
+  distribution: MoistureDistribution
+  // Degree of saturation everywhere for a uniform start, the mean level otherwise
+  mean: number
+  // Largest departure from the mean, as a degree of saturation
+  variation: number
+  seed: string
+  // Cells over which correlated noise stays alike (the standard deviation of its smoothing kernel)
+  correlationLength: number
+  // Direction the gradient gets wetter in, degrees clockwise from the top of the grid
+  gradientAngle: number
+  spots: number
+  // Cells
+  spotRadius: number
+}
+
+export const defaultInitialMoisture: InitialMoisture = {
+  distribution: 'uniform',
+  mean: 0.5,
+  variation: 0.5,
+  seed: '',
+  correlationLength: 3,
+  gradientAngle: 90,
+  spots: 3,
+  spotRadius: 2,
+}
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value))
+
+/** Odd widths of three box blurs that in turn approximate a Gaussian blur of standard deviation sigma. */
+export const boxWidths = (sigma: number) => {
+  const ideal = Math.sqrt(4 * sigma * sigma + 1)
+  const lower = Math.floor(ideal) % 2 === 0 ? Math.floor(ideal) - 1 : Math.floor(ideal)
+  const lowerCount = Math.round((12 * sigma * sigma - 3 * lower * lower - 12 * lower - 9) / (-4 * lower - 4))
+  return [0, 1, 2].map((i) => i < lowerCount ? lower : lower + 2)
+}
+
+// How a blur treats the grid beyond its border: holding the edge values, or as zero
+export type BlurEdge = 'hold' | 'zero'
+
+// Box blur of a row-major grid along its rows or down its columns, at a cost per cell that does not depend on `reach`
+const boxPass = (input: Float64Array, rows: number, cols: number, reach: number, alongRows: boolean, edge: BlurEdge) => {
+  const output = new Float64Array(input.length)
+  const length = alongRows ? cols : rows
+  const prefix = new Float64Array(length + 1)
+  for (let line = 0; line < (alongRows ? rows : cols); line++) {
+    const at = (i: number) => alongRows ? line * cols + i : i * cols + line
+    for (let i = 0; i < length; i++) prefix[i + 1] = prefix[i] + input[at(i)]
+    for (let i = 0; i < length; i++) {
+      const from = i - reach
+      const to = i + reach
+      let sum = prefix[Math.min(to, length - 1) + 1] - prefix[Math.max(from, 0)]
+      if (edge === 'hold') sum += Math.max(0, -from) * input[at(0)] + Math.max(0, to - length + 1) * input[at(length - 1)]
+      output[at(i)] = sum / (2 * reach + 1)
+    }
+  }
+  return output
+}
+
+/** Approximate Gaussian blur of a row-major grid in six passes of linear cost, however wide the kernel. */
+export const blur = (values: Float64Array, rows: number, cols: number, sigma: number, edge: BlurEdge) =>
+  boxWidths(sigma).reduce((current, width) => {
+    const reach = (width - 1) / 2
+    return boxPass(boxPass(current, rows, cols, reach, true, edge), rows, cols, reach, false, edge)
+  }, values)
+
+// Value the blur leaves at the cell of a unit impulse, from the 1D kernel of its three boxes
+const blurPeak = (sigma: number) => {
+  const kernel = boxWidths(sigma).reduce((current, width) => {
+    const next = new Float64Array(current.length + width - 1)
+    current.forEach((value, i) => {
+      for (let j = 0; j < width; j++) next[i + j] += value / width
+    })
+    return next
+  }, Float64Array.of(1))
+  return kernel[(kernel.length - 1) / 2] ** 2
+}
+
+// Departures from the mean in [-1, 1] per cell, before scaling by the variation
+const pattern = (rows: number, cols: number, options: InitialMoisture): Float64Array => {
+  const random = createRandom(options.seed)
+  const values = new Float64Array(rows * cols)
+  switch (options.distribution) {
+    case 'uniform':
+      return values
+    case 'random':
+      return values.map(() => 2 * random() - 1)
+    case 'correlated': {
+      const noise = blur(values.map(() => gaussian(random)), rows, cols, Math.max(options.correlationLength, 0.1), 'hold')
+      const mean = noise.reduce((sum, value) => sum + value, 0) / noise.length
+      const spread = Math.sqrt(noise.reduce((sum, value) => sum + (value - mean) ** 2, 0) / noise.length) || 1
+      // Two standard deviations reach the full variation
+      return noise.map((value) => clamp((value - mean) / (2 * spread), -1, 1))
+    }
+    case 'gradient': {
+      const angle = options.gradientAngle * Math.PI / 180
+      const dx = Math.sin(angle)
+      const dy = -Math.cos(angle)
+      const reach = (Math.abs(dx) * (cols - 1) + Math.abs(dy) * (rows - 1)) / 2 || 1
+      for (let row = 0; row < rows; row++) {
+        for (let col = 0; col < cols; col++) {
+          values[row * cols + col] = ((col - (cols - 1) / 2) * dx + (row - (rows - 1) / 2) * dy) / reach
+        }
+      }
+      return values
+    }
+    case 'spots': {
+      // Each spot starts as a wet or dry impulse that the blur spreads into a bell peaking at ±1
+      const radius = Math.max(options.spotRadius, 0.1)
+      for (let spot = 0; spot < options.spots; spot++) {
+        const row = Math.floor(random() * rows)
+        const col = Math.floor(random() * cols)
+        values[row * cols + col] += random() < 0.5 ? -1 : 1
+      }
+      const peak = blurPeak(radius)
+      return blur(values, rows, cols, radius, 'zero').map((value) => clamp(value / peak, -1, 1))
+    }
+  }
+}
+
+/** Starting saturation per cell, row-major. The same options and seed always give the same map. */
+export const initialMoistureMap = (rows: number, cols: number, options: InitialMoisture) =>
+  pattern(rows, cols, options).map((departure) => clamp(options.mean + options.variation * departure, 0, 1))
+
+/** Query parameters for an initial moisture, only those its distribution uses. */
+export const initialMoistureQuery = (options: InitialMoisture): Record<string, string> => {
+  const query: Record<string, string> = {
+    initialMoisture: options.distribution,
+    uniformMoisture: String(options.mean * 100),
+  }
+  if (options.distribution === 'uniform') return query
+  query.moistureVariation = String(options.variation * 100)
+  if (options.distribution !== 'gradient') query.seed = options.seed
+  if (options.distribution === 'correlated') query.correlationLength = String(options.correlationLength)
+  if (options.distribution === 'gradient') query.gradientAngle = String(options.gradientAngle)
+  if (options.distribution === 'spots') {
+    query.spots = String(options.spots)
+    query.spotRadius = String(options.spotRadius)
+  }
+  return query
+}
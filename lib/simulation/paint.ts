@@ -0,0 +1,178 @@
+import { cloneField, type Field } from './field'
+import { soilTextureIds, type SoilTextureId } from './soil'
+
+export type PaintTool = 'brush' | 'rectangle' | 'line' | 'fill'
+
+/** What a stroke writes: moisture, soil and diffusivity go into the displayed layer, taps and zones into whole columns. */
+export type PaintValue =
+  | { kind: 'moisture'; moisture: number }
+  | { kind: 'soil'; soil: SoilTextureId }
+  | { kind: 'diffusivity'; scale: number }
+  // `auto` hands the tap back to the moisture threshold
+  | { kind: 'tap'; tap: 'on' | 'off' | 'auto' }
+  | { kind: 'zone'; zone: number }
+
+type PaintedArray = 'moisture' | 'soil' | 'diffusivityScale' | 'tapStatus' | 'overrideTap' | 'zone'
+
+/** Values one stroke replaced, kept so it can be undone and redone on a field that has moved on since. */
+export interface PaintEdit {
+  changes: { array: PaintedArray; indices: number[]; before: number[]; after: number[] }[]
+}
+
+// Moisture within this of the clicked cell's counts as the same region for flood fill
+const FILL_TOLERANCE = 0.02
+
+/** Columns within `radius` cells of the center, row-major. */
+export const brushCells = (rows: number, cols: number, row: number, col: number, radius: number) => {
+  const cells: number[] = []
+  const reach = Math.floor(radius)
+  for (let r = Math.max(0, row - reach); r <= Math.min(rows - 1, row + reach); r++) {
+    for (let c = Math.max(0, col - reach); c <= Math.min(cols - 1, col + reach); c++) {
+      if ((r - row) ** 2 + (c - col) ** 2 <= radius * radius) cells.push(r * cols + c)
+    }
+  }
+  return cells
+}
+
+export const rectangleCells = (cols: number, from: { row: number; col: number }, to: { row: number; col: number }) => {
+  const cells: number[] = []
+  for (let row = Math.min(from.row, to.row); row <= Math.max(from.row, to.row); row++) {
+    for (let col = Math.min(from.col, to.col); col <= Math.max(from.col, to.col); col++) cells.push(row * cols + col)
+  }
+  return cells
+}
+
+/** Cells along a straight line (Bresenham), widened by the brush radius. */
+export const lineCells = (
+  rows: number,
+  cols: number,
+  from: { row: number; col: number },
+  to: { row: number; col: number },
+  radius: number
+) => {
+  const cells = new Set<number>()
+  const dRow = Math.abs(to.row - from.row)
+  const dCol = Math.abs(to.col - from.col)
+  const stepRow = from.row < to.row ? 1 : -1
+  const stepCol = from.col < to.col ? 1 : -1
+  let { row, col } = from
+  let error = dCol - dRow
+  for (;;) {
+    brushCells(rows, cols, row, col, radius).forEach((cell) => cells.add(cell))
+    if (row === to.row && col === to.col) break
+    const doubled = 2 * error
+    if (doubled > -dRow) {
+      error -= dRow
+      col += stepCol
+    }
+    if (doubled < dCol) {
+      error += dCol
+      row += stepRow
+    }
+  }
+  return Array.from(cells)
+}
+
+const paintedArrays = (value: PaintValue): PaintedArray[] => {
+  switch (value.kind) {
+    case 'moisture':
+      return ['moisture']
+    case 'soil':
+      return ['soil']
+    case 'diffusivity':
+      return ['diffusivityScale']
+    case 'tap':
+      return ['tapStatus', 'overrideTap']
+    case 'zone':
+      return ['zone']
+  }
+}
+
+// Index into the array for a column of the grid
+const arrayIndex = (field: Field, array: PaintedArray, column: number, layer: number) =>
+  array === 'moisture' || array === 'soil' || array === 'diffusivityScale' ? layer * field.rows * field.cols + column : column
+
+/**
+ * Connected cells (4-neighbour) that match the clicked one in what the value
+ * paints: the same soil, diffusivity multiplier, zone or tap setting, or moisture within a small tolerance.
+ */
+export const fillCells = (field: Field, row: number, col: number, value: PaintValue, layer: number) => {
+  const { rows, cols } = field
+  const arrays = paintedArrays(value)
+  const start = row * cols + col
+  const key = (column: number) => arrays.map((array) => field[array][arrayIndex(field, array, column, layer)])
+  const startKey = key(start)
+  const matches = (column: number) => {
+    const current = key(column)
+    return value.kind === 'moisture'
+      ? Math.abs(current[0] - startKey[0]) <= FILL_TOLERANCE
+      : current.every((entry, i) => entry === startKey[i])
+  }
+  const visited = new Uint8Array(rows * cols)
+  const cells: number[] = []
+  const stack = [start]
+  visited[start] = 1
+  while (stack.length > 0) {
+    const cell = stack.pop()!
+    cells.push(cell)
+    const r = Math.floor(cell / cols)
+    const c = cell % cols
+    for (const [nr, nc] of [[r - 1, c], [r + 1, c], [r, c - 1], [r, c + 1]]) {
+      if (nr < 0 || nr >= rows || nc < 0 || nc >= cols) continue
+      const neighbour = nr * cols + nc
+      if (visited[neighbour] || !matches(neighbour)) continue
+      visited[neighbour] = 1
+      stack.push(neighbour)
+    }
+  }
+  return cells
+}
+
+const paintedNumber = (value: PaintValue, array: PaintedArray) => {
+  switch (value.kind) {
+    case 'moisture':
+      return value.moisture
+    case 'soil':
+      return soilTextureIds.indexOf(value.soil)
+    case 'diffusivity':
+      return value.scale
+    case 'tap':
+      if (array === 'overrideTap') return value.tap === 'auto' ? 0 : 1
+      return value.tap === 'on' ? 1 : 0
+    case 'zone':
+      return value.zone
+  }
+}
+
+/** Returns a copy of the field with `value` painted over the given columns, and the edit that undoes it. */
+export const paintField = (field: Field, columns: number[], value: PaintValue, layer: number) => {
+  const next = cloneField(field)
+  const edit: PaintEdit = { changes: [] }
+  for (const array of paintedArrays(value)) {
+    // Handing a tap back to automatic control leaves its state to the next step
+    if (value.kind === 'tap' && value.tap === 'auto' && array === 'tapStatus') continue
+    const target = paintedNumber(value, array)
+    const change = { array, indices: [] as number[], before: [] as number[], after: [] as number[] }
+    for (const column of columns) {
+      const index = arrayIndex(field, array, column, layer)
+      if (next[array][index] === target) continue
+      change.indices.push(index)
+      change.before.push(next[array][index])
+      change.after.push(target)
+      next[array][index] = target
+    }
+    if (change.indices.length > 0) edit.changes.push(change)
+  }
+  return { field: next, edit }
+}
+
+/** Applies an edit's values (`after`) or restores the ones it replaced (`before`). */
+export const applyEdit = (field: Field, edit: PaintEdit, direction: 'before' | 'after') => {
+  const next = cloneField(field)
+  for (const change of edit.changes) {
+    change.indices.forEach((index, i) => {
+      next[change.array][index] = change[direction][i]
+    })
+  }
+  return next
+}
@@ -0,0 +1,32 @@
+/** Random source returning numbers in [0, 1), like Math.random. */
+export type Random = () => number
+
+/** 32-bit FNV-1a hash of a seed, so any text can serve as one. */
+export const hashSeed = (seed: string) => {
+  let hash = 0x811c9dc5
+  for (let i = 0; i < seed.length; i++) {
+    hash ^= seed.charCodeAt(i)
+    hash = Math.imul(hash, 0x01000193)
+  }
+  return hash >>> 0
+}
+
+/** Mulberry32: small and fast, and the same sequence for the same seed on every platform. */
+export const createRandom = (seed: string): Random => {
+  let state = hashSeed(seed)
+  return () => {
+    state = (state + 0x6d2b79f5) | 0
+    let t = Math.imul(state ^ (state >>> 15), 1 | state)
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+/** Standard normal sample (Box–Muller). */
+export const gaussian = (random: Random) => {
+  const u = 1 - random()
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * random())
+}
+
+/** Short seed for a new scenario. */
+export const newSeed = () => Math.floor(Math.random() * 1e6).toString().padStart(6, '0')
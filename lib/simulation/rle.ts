@@ -0,0 +1,30 @@
+/** Run-length encodes a map of categories as code/count pairs, e.g. `l12s3c85`. */
+export const encodeCategoryMap = <T extends string>(map: T[], codes: Record<T, string>) => {
+  let encoded = ''
+  for (let index = 0; index < map.length;) {
+    let run = 1
+    while (index + run < map.length && map[index + run] === map[index]) run++
+    encoded += `${codes[map[index]]}${run}`
+    index += run
+  }
+  return encoded
+}
+
+/** Decodes a category map, or returns null if it is malformed or has the wrong size. */
+export const decodeCategoryMap = <T extends string>(encoded: string, size: number, codes: Record<T, string>): T[] | null => {
+  const categories = Object.keys(codes) as T[]
+  const map: T[] = []
+  const pattern = /([a-z])(\d+)/g
+  let consumed = 0
+  let match: RegExpExecArray | null
+  while ((match = pattern.exec(encoded)) !== null) {
+    if (match.index !== consumed) return null
+    consumed += match[0].length
+    const code = match[1]
+    const category = categories.find((id) => codes[id] === code)
+    const run = parseInt(match[2])
+    if (category === undefined || map.length + run > size) return null
+    for (let i = 0; i < run; i++) map.push(category)
+  }
+  return consumed === encoded.length && map.length === size ? map : null
+}
@@ -0,0 +1,90 @@
+import { cropCoefficient, crops, growthStage, relativeYieldLoss, rootDepth, waterStressCoefficient, type Crop } from './crops'
+import { cropAtColumn, soilAtIndex, volumetricMoisture, type Field } from './field'
+
+export interface RootZone {
+  crop: Crop
+  daysAfterPlanting: number
+  // Effective rooting depth, limited by the depth of the profile (cm)
+  depth: number
+  cropCoefficient: number
+  // mm
+  totalAvailableWater: number
+  readilyAvailableWater: number
+  depletion: number
+  waterStressCoefficient: number
+  // Share of the root zone in each layer, summing to 1
+  layerShares: number[]
+}
+
+/**
+ * Root zone water balance of one column on `day` (days since the start), or
+ * null if the column has no crop growing that day.
+ */
+export const rootZoneAt = (field: Field, column: number, day: number): RootZone | null => {
+  const cropId = cropAtColumn(field, column)
+  if (!cropId) return null
+  const crop = crops[cropId]
+  const daysAfterPlanting = day - field.plantingDay[column]
+  if (growthStage(crop.kc, daysAfterPlanting) === 'fallow') return null
+
+  const columns = field.rows * field.cols
+  const profileDepth = field.layerThickness.reduce((sum, thickness) => sum + thickness, 0)
+  const depth = Math.min(rootDepth(crop, daysAfterPlanting), profileDepth)
+  const layerShares: number[] = []
+  let totalAvailableWater = 0
+  let depletion = 0
+  let top = 0
+  for (let layer = 0; layer < field.layers; layer++) {
+    const rooted = Math.max(0, Math.min(field.layerThickness[layer], depth - top))
+    top += field.layerThickness[layer]
+    layerShares.push(rooted / depth)
+    if (rooted === 0) continue
+    const index = layer * columns + column
+    const soil = soilAtIndex(field, index)
+    totalAvailableWater += (soil.fieldCapacity - soil.wiltingPoint) * rooted * 10
+    depletion += Math.max(0, soil.fieldCapacity - volumetricMoisture(field, index)) * rooted * 10
+  }
+  depletion = Math.min(depletion, totalAvailableWater)
+
+  return {
+    crop,
+    daysAfterPlanting,
+    depth,
+    cropCoefficient: cropCoefficient(crop.kc, daysAfterPlanting),
+    totalAvailableWater,
+    readilyAvailableWater: crop.depletionFraction * totalAvailableWater,
+    depletion,
+    waterStressCoefficient: waterStressCoefficient(crop, depletion, totalAvailableWater),
+    layerShares,
+  }
+}
+
+/** Relative yield loss of one column's crop from its season ET so far. */
+export const columnYieldLoss = (field: Field, column: number) => {
+  const cropId = cropAtColumn(field, column)
+  return cropId ? relativeYieldLoss(crops[cropId], field.actualET[column], field.potentialET[column]) : 0
+}
+
+/** Mean relative yield loss over the cropped columns, or null if nothing is planted. */
+export const fieldYieldLoss = (field: Field): number | null => {
+  let cropped = 0
+  let loss = 0
+  for (let column = 0; column < field.rows * field.cols; column++) {
+    if (field.crop[column] === -1) continue
+    cropped++
+    loss += columnYieldLoss(field, column)
+  }
+  return cropped > 0 ? loss / cropped : null
+}
+
+/** Root zone depletion (mm) when every rooted layer of the column sits at `saturation`. */
+export const depletionAtSaturation = (field: Field, column: number, zone: RootZone, saturation: number) => {
+  const columns = field.rows * field.cols
+  let depletion = 0
+  zone.layerShares.forEach((share, layer) => {
+    if (share === 0) return
+    const soil = soilAtIndex(field, layer * columns + column)
+    depletion += Math.max(0, soil.fieldCapacity - saturation * soil.porosity) * share * zone.depth * 10
+  })
+  return Math.min(depletion, zone.totalAvailableWater)
+}
@@ -0,0 +1,77 @@
+import type { Field, FieldEdge } from './field'
+
+// Manning's roughness of the surface (s/m^(1/3)), about that of short grass
+const MANNING_N = 0.15
+// Smallest drop (cm) from an edge cell to the ground beyond the outflow edge, so flat ground still drains over it
+const MIN_OUTFALL_DROP = 0.1
+
+// Row and column offset of each neighbour, and the edge a neighbour outside the grid lies beyond
+const neighbours: { dRow: number; dCol: number; edge: FieldEdge }[] = [
+  { dRow: -1, dCol: 0, edge: 'top' },
+  { dRow: 1, dCol: 0, edge: 'bottom' },
+  { dRow: 0, dCol: -1, edge: 'left' },
+  { dRow: 0, dCol: 1, edge: 'right' },
+]
+
+/**
+ * Moves water ponded on the surface (`ponding`, mm) downhill for `dt` hours:
+ * each column sheds water to every neighbour whose water level is lower, at
+ * the rate Manning's equation gives for the slope of the water surface, and
+ * over the outflow edge to ground extrapolated from the slope toward it. An
+ * exchange between columns moves at most a quarter of their difference in
+ * level, so levels never cross, and no column sheds more than it holds.
+ * Adds the water each column shed to `runoffX` and `runoffY` (mm) along its
+ * direction, and returns the depth (mm, summed over columns) that left the
+ * field.
+ */
+export const routeOverland = (field: Field, ponding: Float64Array, dt: number, runoffX: Float64Array, runoffY: Float64Array) => {
+  const { rows, cols, cellSize, elevation, outflowEdge } = field
+  const start = ponding.slice()
+  // Surface water level (mm)
+  const level = (column: number) => elevation[column] * 10 + start[column]
+  const length = cellSize * 10
+  const moves: { to: number; depth: number; dRow: number; dCol: number }[] = []
+  let left = 0
+  for (let row = 0; row < rows; row++) {
+    for (let col = 0; col < cols; col++) {
+      const column = row * cols + col
+      if (start[column] <= 0) continue
+      // Flow per unit width (m²/s) as a depth rate over the column (mm/h)
+      const rate = (drop: number) =>
+        Math.pow(start[column] / 1000, 5 / 3) * Math.sqrt(drop / length) / MANNING_N / (cellSize / 100) * 3.6e6
+      moves.length = 0
+      let shed = 0
+      for (const { dRow, dCol, edge } of neighbours) {
+        const r = row + dRow
+        const c = col + dCol
+        if (r < 0 || r >= rows || c < 0 || c >= cols) {
+          if (edge !== outflowEdge) continue
+          // Ground beyond the edge continues the slope from the inner neighbour, or drops a little on the flat
+          const inner = r < 0 || r >= rows ? (row - dRow) * cols + col : row * cols + col - dCol
+          const innerRise = (rows === 1 && dRow !== 0) || (cols === 1 && dCol !== 0) ? 0 : elevation[inner] - elevation[column]
+          const drop = start[column] + Math.max(innerRise, MIN_OUTFALL_DROP) * 10
+          const depth = rate(drop) * dt
+          moves.push({ to: -1, depth, dRow, dCol })
+          shed += depth
+          continue
+        }
+        const to = r * cols + c
+        const drop = level(column) - level(to)
+        if (drop <= 0) continue
+        const depth = Math.min(rate(drop) * dt, drop / 4)
+        moves.push({ to, depth, dRow, dCol })
+        shed += depth
+      }
+      const scale = shed > start[column] ? start[column] / shed : 1
+      for (const { to, depth, dRow, dCol } of moves) {
+        const moved = depth * scale
+        ponding[column] -= moved
+        if (to === -1) left += moved
+        else ponding[to] += moved
+        runoffX[column] += moved * dCol
+        runoffY[column] += moved * dRow
+      }
+    }
+  }
+  return left
+}
@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest'
+import { createSimulation } from './engine'
+import { defaultSite } from './evapotranspiration'
+import { createField, updateCell } from './field'
+import { applyScenario, captureScenario, decodeScenario, encodeScenario, validateScenario, type Scenario } from './scenario'
+import { emptySensorNetwork } from './sensors'
+
+const field = createField(3, 4, () => 0.5, { layers: 2 })
+const params = { evapotranspirationRate: 0.2, irrigationRate: 5, moistureThreshold: 0.3 }
+const scenario = captureScenario('rows=3&cols=4&layers=2', createSimulation(field), params, 2, defaultSite)
+
+// A copy of the scenario with one edited array replaced
+const withArray = (array: keyof Scenario['field'], values: number[]) =>
+  ({ ...scenario, field: { ...scenario.field, [array]: values } })
+
+describe('scenario links', () => {
+  it('round-trips through a link', async () => {
+    expect(await decodeScenario(await encodeScenario(scenario))).toEqual(scenario)
+  })
+
+  it('reopens a tap forced on, and moisture painted before the first step', async () => {
+    const edited = updateCell(updateCell(field, 1, 2, { tapStatus: true, overrideTap: true }), 0, 0, { moisture: 0.9 })
+    const shared = await decodeScenario(await encodeScenario(captureScenario('', createSimulation(edited), params, 2, defaultSite)))
+    const opened = applyScenario(field, shared)
+    expect(opened.tapStatus).toEqual(edited.tapStatus)
+    expect(opened.overrideTap).toEqual(edited.overrideTap)
+    expect(opened.moisture).toEqual(edited.moisture)
+  })
+
+  it('leaves moisture out once the run has started', () => {
+    const started = { ...createSimulation(field), timeStep: 3 }
+    expect(captureScenario('', started, params, 2, defaultSite).moisture).toBeNull()
+  })
+
+  it('rejects field data out of range instead of wrapping it into the field', () => {
+    const values = [...scenario.field.soil]
+    values[0] = 7
+    expect(() => applyScenario(field, withArray('soil', values))).toThrow("The link's soil data has values out of range.")
+  })
+
+  it('rejects edits that do not match the size of the field', () => {
+    expect(() => applyScenario(field, withArray('zone', [0]))).toThrow('does not match the size of the field')
+  })
+
+  it.each([
+    [{ params: { ...params, moistureThreshold: 1.5 } }, 'simulation parameters'],
+    [{ params: { ...params, moistureThreshold: -0.1 } }, 'simulation parameters'],
+    [{ params: { ...params, evapotranspirationRate: 3 } }, 'simulation parameters'],
+    [{ params: { ...params, irrigationRate: 60 } }, 'simulation parameters'],
+    [{ moisture: [1.2] }, 'moisture settings'],
+    [{ sensors: { ...emptySensorNetwork, probes: [{ id: 1, column: -1 }] } }, 'sensor settings'],
+    [{ sensors: { ...emptySensorNetwork, probes: [{ id: 1, column: 0 }, { id: 1, column: 2 }] } }, 'sensor settings'],
+    [{ timeStepSize: 0.01 }, 'time step settings'],
+    [{ timeStepSize: 48 }, 'time step settings'],
+  ])('rejects settings outside what the page allows (%o)', (changes, part) => {
+    expect(() => validateScenario({ ...scenario, ...changes })).toThrow(`The link's ${part} are malformed.`)
+  })
+})
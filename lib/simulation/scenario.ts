@@ -0,0 +1,154 @@
+import type { SiteInfo } from './evapotranspiration'
+import { cloneField, validFieldValues, type CheckedFieldArray, type Field } from './field'
+import type { SensorNetwork } from './sensors'
+import type { WaterSupply } from './supply'
+import type { SimulationParams } from './types'
+import { isNumber, isObject, validParams, validSensors, validSite, validSupply, validTimeStep, validZones } from './validation'
+import type { IrrigationZone } from './zones'
+
+export const SCENARIO_VERSION = 2
+// Key of the scenario in the URL hash
+export const SCENARIO_HASH_KEY = 'scenario'
+
+// Field settings the run can change but the setup query does not record
+type EditedArray = 'soil' | 'diffusivityScale' | 'crop' | 'plantingDay' | 'zone' | 'tapStatus' | 'overrideTap'
+const editedArrays: EditedArray[] = ['soil', 'diffusivityScale', 'crop', 'plantingDay', 'zone', 'tapStatus', 'overrideTap']
+
+/**
+ * Everything needed to set up a run again from the start: the query the
+ * setup page built the field from, the field settings edited since, and the
+ * controls. Moisture is state rather than configuration once the run has
+ * started, so only a scenario copied before the first step carries it.
+ */
+export interface Scenario {
+  setup: string
+  field: Record<EditedArray, number[]>
+  // Starting saturation of every cell as painted before the first step, null to start from the setup's
+  moisture: number[] | null
+  params: SimulationParams
+  timeStepSize: number
+  zones: IrrigationZone[]
+  supply: WaterSupply
+  sensors: SensorNetwork
+  site: SiteInfo
+}
+
+/** The scenario of a running simulation set up from `setup`. */
+export const captureScenario = (
+  setup: string,
+  simulation: { field: Field; timeStep: number; zones: IrrigationZone[]; supply: WaterSupply; sensors: SensorNetwork },
+  params: SimulationParams,
+  timeStepSize: number,
+  site: SiteInfo
+): Scenario => ({
+  setup,
+  field: Object.fromEntries(editedArrays.map((array) => [array, Array.from(simulation.field[array])])) as Scenario['field'],
+  moisture: simulation.timeStep === 0 ? Array.from(simulation.field.moisture) : null,
+  params,
+  timeStepSize,
+  zones: simulation.zones,
+  supply: simulation.supply,
+  sensors: simulation.sensors,
+  site,
+})
+
+const isChecked = (array: EditedArray): array is EditedArray & CheckedFieldArray => array !== 'plantingDay'
+
+/** Returns a copy of a field built from the scenario's setup with its edits applied, throwing an Error if they do not fit. */
+export const applyScenario = (field: Field, scenario: Scenario) => {
+  const next = cloneField(field)
+  for (const array of editedArrays) {
+    const values = scenario.field[array]
+    if (values.length !== next[array].length) {
+      throw new Error(`The link's ${array} data does not match the size of the field.`)
+    }
+    if (isChecked(array) && !validFieldValues(array, values, next.soils.length)) {
+      throw new Error(`The link's ${array} data has values out of range.`)
+    }
+    next[array].set(values)
+  }
+  if (scenario.moisture) {
+    if (scenario.moisture.length !== next.moisture.length) throw new Error("The link's moisture data does not match the size of the field.")
+    next.moisture.set(scenario.moisture)
+  }
+  const columns = field.rows * field.cols
+  if (scenario.sensors.probes.some((probe) => probe.column >= columns) || scenario.zones.some((zone) => zone.sensors.some((column) => column >= columns))) {
+    throw new Error('The link places sensors outside the field.')
+  }
+  return next
+}
+
+// Throws an Error naming the part of the scenario that is wrong
+const check = (ok: boolean, part: string) => {
+  if (!ok) throw new Error(`The link's ${part} are malformed.`)
+}
+
+/** Checks the shape of decoded scenario data, throwing an Error that explains what is wrong. */
+export const validateScenario = (data: unknown): Scenario => {
+  check(isObject(data), 'contents')
+  const scenario = data as Record<string, unknown>
+  check(typeof scenario.setup === 'string', 'setup parameters')
+  const field = scenario.field
+  check(isObject(field) && editedArrays.every((array) => Array.isArray(field[array]) && (field[array] as unknown[]).every((value) => isNumber(value))), 'field settings')
+  const moisture = scenario.moisture
+  check(moisture === null || (Array.isArray(moisture) && moisture.every((value) => isNumber(value, 0, 1))), 'moisture settings')
+  check(validParams(scenario.params), 'simulation parameters')
+  check(validTimeStep(scenario.timeStepSize), 'time step settings')
+  check(validZones(scenario.zones), 'irrigation zones')
+  check(validSupply(scenario.supply), 'water supply settings')
+  check(validSensors(scenario.sensors), 'sensor settings')
+  check(validSite(scenario.site), 'site settings')
+  return scenario as unknown as Scenario
+}
+
+// base64url without padding, which survives in a URL untouched
+const toBase64Url = (bytes: Uint8Array) => {
+  let binary = ''
+  // Converted in chunks so large scenarios do not overflow the argument list
+  for (let i = 0; i < bytes.length; i += 0x8000) binary += String.fromCharCode(...Array.from(bytes.subarray(i, i + 0x8000)))
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '')
+}
+
+const fromBase64Url = (text: string) => {
+  const binary = atob(text.replace(/-/g, '+').replace(/_/g, '/'))
+  return Uint8Array.from(binary, (char) => char.charCodeAt(0))
+}
+
+const transform = async (bytes: Uint8Array, stream: CompressionStream | DecompressionStream) =>
+  new Uint8Array(await new Response(new Blob([bytes]).stream().pipeThrough(stream)).arrayBuffer())
+
+/** Compresses a scenario into the text stored in the URL hash: the version, a dot and deflated JSON in base64url. */
+export const encodeScenario = async (scenario: Scenario) => {
+  const json = new TextEncoder().encode(JSON.stringify(scenario))
+  return `${SCENARIO_VERSION}.${toBase64Url(await transform(json, new CompressionStream('deflate-raw')))}`
+}
+
+/** Reads a scenario written by encodeScenario, throwing an Error that explains what is wrong. */
+export const decodeScenario = async (text: string): Promise<Scenario> => {
+  const match = /^(\d+)\.([\w-]+)$/.exec(text)
+  if (!match) throw new Error('The link does not contain a scenario.')
+  const version = parseInt(match[1])
+  if (version !== SCENARIO_VERSION) {
+    throw new Error(`The link has scenario version ${version}, but this app reads version ${SCENARIO_VERSION}.`)
+  }
+  let json: string
+  try {
+    json = new TextDecoder().decode(await transform(fromBase64Url(match[2]), new DecompressionStream('deflate-raw')))
+  } catch {
+    throw new Error('The link is damaged; it may have been cut short when it was copied.')
+  }
+  let data: unknown
+  try {
+    data = JSON.parse(json)
+  } catch {
+    throw new Error('The link is damaged; its scenario is not valid JSON.')
+  }
+  return validateScenario(data)
+}
+
+/** URL of the simulation page that opens the scenario. */
+export const scenarioUrl = async (origin: string, scenario: Scenario) =>
+  `${origin}/simulation#${SCENARIO_HASH_KEY}=${await encodeScenario(scenario)}`
+
+/** The encoded scenario in a URL hash, or null when it has none. */
+export const scenarioInHash = (hash: string) => new URLSearchParams(hash.replace(/^#/, '')).get(SCENARIO_HASH_KEY)
@@ -0,0 +1,144 @@
+import { columnMoisture, type Field } from './field'
+import { createRandom, gaussian } from './random'
+
+/** Virtual moisture probe reading the mean saturation of a column's profile. */
+export interface Probe {
+  id: number
+  column: number
+}
+
+/** Probes placed in the field and how they all measure. Without any, decisions read the true moisture. */
+export interface SensorNetwork {
+  probes: Probe[]
+  // Standard deviation of the measurement noise (degree of saturation)
+  noise: number
+  // Constant offset of every reading (degree of saturation)
+  bias: number
+  // Offset gained per day since the start (degree of saturation)
+  drift: number
+  // Hours between readings; 0 reads every step
+  interval: number
+  // Chance per day of a probe failing for good
+  failureRate: number
+  // Seeds the noise and failures, so a run repeats exactly
+  seed: string
+}
+
+export const emptySensorNetwork: SensorNetwork = {
+  probes: [],
+  noise: 0.02,
+  bias: 0,
+  drift: 0,
+  interval: 1,
+  failureRate: 0,
+  seed: '1',
+}
+
+/** Last reading of a probe. */
+export interface ProbeState {
+  // Degree of saturation, null before the first reading
+  reading: number | null
+  // Hours since the start of the last reading
+  sampledAt: number | null
+  // Hours since the start the probe failed at, null while it works
+  failedAt: number | null
+}
+
+/** The network with a probe placed on `column`, or taken off it if there is one. */
+export const toggleProbe = (network: SensorNetwork, column: number): SensorNetwork => {
+  if (network.probes.some((probe) => probe.column === column)) {
+    return { ...network, probes: network.probes.filter((probe) => probe.column !== column) }
+  }
+  const id = network.probes.reduce((max, probe) => Math.max(max, probe.id), 0) + 1
+  return { ...network, probes: [...network.probes, { id, column }] }
+}
+
+/**
+ * Readings of every probe after a step starting `elapsed` hours in and
+ * lasting `duration` hours. Each probe reads when its interval has passed,
+ * adding bias, drift and noise to the true profile saturation, and may fail
+ * during the step. Random draws depend only on the seed, the probe and the
+ * time, so a run repeats exactly.
+ */
+export const sampleProbes = (
+  field: Field,
+  network: SensorNetwork,
+  states: Record<number, ProbeState>,
+  elapsed: number,
+  duration: number
+) => {
+  const { noise, bias, drift, interval, failureRate } = network
+  const next: Record<number, ProbeState> = {}
+  for (const probe of network.probes) {
+    const state = states[probe.id] ?? { reading: null, sampledAt: null, failedAt: null }
+    if (state.failedAt !== null) {
+      next[probe.id] = state
+      continue
+    }
+    const random = createRandom(`${network.seed}:${probe.id}:${elapsed}`)
+    if (random() < 1 - Math.exp(-failureRate * duration / 24)) {
+      next[probe.id] = { reading: null, sampledAt: state.sampledAt, failedAt: elapsed }
+      continue
+    }
+    // Allows for rounding in the elapsed time, so an interval equal to the step reads every step
+    if (state.sampledAt !== null && elapsed - state.sampledAt < interval - 1e-9) {
+      next[probe.id] = state
+      continue
+    }
+    const error = bias + drift * elapsed / 24 + noise * gaussian(random)
+    const reading = Math.min(1, Math.max(0, columnMoisture(field, probe.column) + error))
+    next[probe.id] = { reading, sampledAt: elapsed, failedAt: null }
+  }
+  return next
+}
+
+/**
+ * Profile saturation of every column as far as the probes tell, by inverse
+ * distance weighting of their last readings. Null without probes, so the
+ * true moisture is read instead; NaN everywhere when none has a reading.
+ */
+export const interpolateReadings = (field: Field, network: SensorNetwork, states: Record<number, ProbeState>) => {
+  if (network.probes.length === 0) return null
+  const { rows, cols } = field
+  const readings = network.probes.flatMap((probe) => {
+    const reading = states[probe.id]?.reading
+    return reading === null || reading === undefined
+      ? []
+      : [{ row: Math.floor(probe.column / cols), col: probe.column % cols, reading }]
+  })
+  const estimate = new Float64Array(rows * cols).fill(NaN)
+  if (readings.length === 0) return estimate
+  for (let row = 0; row < rows; row++) {
+    for (let col = 0; col < cols; col++) {
+      let weighted = 0
+      let total = 0
+      // Probes on the cell itself decide it alone
+      let onCell = 0
+      let onCellSum = 0
+      for (const probe of readings) {
+        const distance2 = (probe.row - row) ** 2 + (probe.col - col) ** 2
+        if (distance2 === 0) {
+          onCell++
+          onCellSum += probe.reading
+          continue
+        }
+        weighted += probe.reading / distance2
+        total += 1 / distance2
+      }
+      estimate[row * cols + col] = onCell > 0 ? onCellSum / onCell : weighted / total
+    }
+  }
+  return estimate
+}
+
+/** Root mean square error of an estimate against the true profile saturation, over the known columns. */
+export const estimateError = (field: Field, estimate: Float64Array) => {
+  let sum = 0
+  let known = 0
+  estimate.forEach((value, column) => {
+    if (isNaN(value)) return
+    sum += (value - columnMoisture(field, column)) ** 2
+    known++
+  })
+  return known > 0 ? Math.sqrt(sum / known) : null
+}
@@ -0,0 +1,95 @@
+import { describe, expect, it } from 'vitest'
+import { boundaryQuery, noFluxBoundaries, setBoundary } from './boundaries'
+import { diffusionQuery } from './diffusion'
+import { cellIndex, columnIndex, cropAtColumn, getSoilTexture, soilAtIndex } from './field'
+import { defaultInitialMoisture, initialMoistureQuery } from './initial-moisture'
+import { createSetupField, parseSetup } from './setup-schema'
+import { encodeSoilMap, soilTextures } from './soil'
+import { defaultTopography, topographyQuery } from './topography'
+
+const setup = (query: Record<string, string>) => parseSetup(new URLSearchParams(query))
+
+describe('parseSetup', () => {
+  it('reads an empty query as the defaults', () => {
+    const { inputs, errors } = setup({})
+    expect(errors).toEqual([])
+    expect(inputs.initialMoisture).toEqual(defaultInitialMoisture)
+    expect(inputs.topography).toEqual(defaultTopography)
+    expect(inputs.boundaries).toEqual(noFluxBoundaries)
+    expect(inputs.customSoil).toBe(soilTextures.custom)
+  })
+
+  it('reads back what the setup page writes', () => {
+    const initialMoisture = { ...defaultInitialMoisture, distribution: 'spots' as const, mean: 0.4, variation: 0.25, seed: 'abc', spots: 5, spotRadius: 3 }
+    const topography = { ...defaultTopography, source: 'slope' as const, slope: 4, aspect: 90 }
+    const boundaries = setBoundary(setBoundary(noFluxBoundaries, 'left', { type: 'periodic' }), 'top', { type: 'fixedMoisture', moisture: 0.8 })
+    const lateralDiffusion = { stencil: 'eight' as const, along: 2, across: 0.5, angle: 30 }
+    const { inputs, errors } = setup({
+      rows: '4',
+      cols: '5',
+      ...initialMoistureQuery(initialMoisture),
+      ...topographyQuery(topography, 'bottom'),
+      ...boundaryQuery(boundaries),
+      ...diffusionQuery(lateralDiffusion),
+    })
+    expect(errors).toEqual([])
+    expect(inputs.initialMoisture).toEqual(initialMoisture)
+    expect(inputs.topography).toEqual(topography)
+    expect(inputs.outflowEdge).toBe('bottom')
+    expect(inputs.boundaries).toEqual(boundaries)
+    expect(inputs.lateralDiffusion).toEqual(lateralDiffusion)
+  })
+
+  it('reads an elevation map in place of a slope', () => {
+    const grid = Float64Array.from([0, 1.5, 3, 4.5])
+    const { inputs, errors } = setup({ rows: '2', cols: '2', ...topographyQuery({ ...defaultTopography, source: 'grid', grid }, null) })
+    expect(errors).toEqual([])
+    expect(inputs.topography.source).toBe('grid')
+    expect(inputs.topography.grid).toEqual(grid)
+  })
+
+  it('reads a valid custom soil and reports an invalid one', () => {
+    expect(setup({ customSoil: '0.4,0.05,10,0.1,2' }).inputs.customSoil.porosity).toBe(0.4)
+    const { inputs, errors } = setup({ customSoil: '0.4,0.5,10,0.1,2' })
+    expect(inputs.customSoil).toBe(soilTextures.custom)
+    expect(errors).toEqual(['The residual moisture of the custom soil must be less than its porosity.'])
+  })
+
+  it.each([
+    [{ rows: 'ten' }, 'Rows must be a whole number between 1 and 500; the link has "ten".'],
+    [{ correlationLength: '-3' }, 'Correlation length must be a number between 0.1 cells and 1000 cells; the link has "-3".'],
+    [{ initialMoisture: 'wavy' }, 'The link has an unknown moisture distribution "wavy".'],
+    [{ rows: '2', cols: '2', soilMap: 's3' }, "The link's soil texture map is damaged or does not match its rows and columns."],
+    [{ rows: '2', cols: '2', elevationMap: '1,2,3' }, "The link's elevation map is damaged or does not match its rows and columns."],
+    [{ leftBoundary: 'periodic' }, 'The left and right edges must both be periodic or neither.'],
+    [{ topBoundary: 'fixedMoisture:150' }, 'Moisture beyond the top edge must be a number between 0% and 100%.'],
+    [{ rows: '500', cols: '500', layers: '2' }, 'The field would have 500,000 cells over all its layers; it can have at most 250,000.'],
+  ])('reports %o', (query, error) => {
+    expect(setup(query).errors).toContain(error)
+  })
+})
+
+describe('createSetupField', () => {
+  it('builds the field the inputs describe', () => {
+    const { inputs } = setup({
+      rows: '2',
+      cols: '3',
+      layers: '2',
+      soil: 'clay',
+      soilMap: encodeSoilMap(['sand', 'sand', 'clay', 'loam', 'loam', 'custom']),
+      crop: 'maize',
+      uniformMoisture: '30',
+      customSoil: '0.4,0.05,10,0.1,2',
+      ...topographyQuery({ ...defaultTopography, source: 'slope', slope: 10, aspect: 90 }, null),
+    })
+    const field = createSetupField(inputs)
+    expect(field.layers).toBe(2)
+    expect(Array.from(field.moisture)).toEqual(Array(12).fill(0.3))
+    expect(soilAtIndex(field, cellIndex(field, 0, 1, 1)).id).toBe('sand')
+    expect(soilAtIndex(field, cellIndex(field, 1, 2)).id).toBe('custom')
+    expect(getSoilTexture(field, 'custom').porosity).toBe(0.4)
+    expect(cropAtColumn(field, columnIndex(field, 1, 1))).toBe('maize')
+    // Downhill to the right over 10 cm cells at 10%
+    expect(Array.from(field.elevation.subarray(0, 3))).toEqual([2, 1, 0])
+  })
+})
@@ -0,0 +1,292 @@
+import type { Units } from '@/lib/settings'
+import { soilDepthUnit, toDisplaySoilDepth } from '@/lib/units'
+import { boundaryTypes, noFluxBoundaries, oppositeEdges, type EdgeBoundary, type FieldBoundaries } from './boundaries'
+import { cropIds, decodeCropMap, type CropId, type CropMapEntry } from './crops'
+import { isotropicDiffusion, neighbourStencils, type LateralDiffusion, type NeighbourStencil } from './diffusion'
+import { createField, type FieldEdge } from './field'
+import { defaultInitialMoisture, initialMoistureMap, moistureDistributions, type InitialMoisture, type MoistureDistribution } from './initial-moisture'
+import {
+  createSoilTexture,
+  customSoilParams,
+  decodeSoilMap,
+  soilTextureIds,
+  soilTextures,
+  type SoilTexture,
+  type SoilTextureId,
+} from './soil'
+import { decodeElevationGrid, defaultTopography, elevationMap, fieldEdges, type Topography } from './topography'
+
+// Most cells over all layers the page can simulate without stalling
+export const MAX_CELLS = 250000
+
+/** Limits of a numeric setup input, and the value used when the query leaves it out. */
+export interface NumberInput {
+  label: string
+  min: number
+  max: number
+  fallback: number
+  integer?: boolean
+  // Soil lengths, held in cm and shown in the form's units
+  length?: boolean
+  // Appended to the limits in messages
+  suffix?: string
+}
+
+export type SetupNumber =
+  | 'rows'
+  | 'cols'
+  | 'layers'
+  | 'cellSize'
+  | 'layerThickness'
+  | 'uniformMoisture'
+  | 'moistureVariation'
+  | 'correlationLength'
+  | 'gradientAngle'
+  | 'spots'
+  | 'spotRadius'
+  | 'plantingDay'
+  | 'slope'
+  | 'aspect'
+  | 'diffusionAlong'
+  | 'diffusionAcross'
+  | 'diffusionAngle'
+
+/** Numeric setup inputs by query key; moisture is a percentage and lengths are in cm. */
+export const setupNumbers: Record<SetupNumber, NumberInput> = {
+  rows: { label: 'Rows', min: 1, max: 500, fallback: 10, integer: true },
+  cols: { label: 'Columns', min: 1, max: 500, fallback: 10, integer: true },
+  layers: { label: 'Soil layers', min: 1, max: 20, fallback: 1, integer: true },
+  cellSize: { label: 'Cell size', min: 1, max: 10000, fallback: 10, length: true },
+  layerThickness: { label: 'Layer thickness', min: 0.1, max: 1000, fallback: 10, length: true },
+  uniformMoisture: { label: 'Initial moisture', min: 0, max: 100, fallback: defaultInitialMoisture.mean * 100, suffix: '%' },
+  moistureVariation: { label: 'Moisture variation', min: 0, max: 100, fallback: defaultInitialMoisture.variation * 100, suffix: '%' },
+  correlationLength: { label: 'Correlation length', min: 0.1, max: 1000, fallback: defaultInitialMoisture.correlationLength, suffix: ' cells' },
+  gradientAngle: { label: 'Gradient direction', min: 0, max: 360, fallback: defaultInitialMoisture.gradientAngle, suffix: '°' },
+  spots: { label: 'Number of spots', min: 0, max: 1000, fallback: defaultInitialMoisture.spots, integer: true },
+  spotRadius: { label: 'Spot radius', min: 0.1, max: 1000, fallback: defaultInitialMoisture.spotRadius, suffix: ' cells' },
+  plantingDay: { label: 'Planting day', min: -365, max: 365, fallback: 0 },
+  slope: { label: 'Slope', min: 0, max: 100, fallback: defaultTopography.slope, suffix: '%' },
+  aspect: { label: 'Downhill direction', min: 0, max: 360, fallback: defaultTopography.aspect, suffix: '°' },
+  diffusionAlong: { label: 'Diffusivity along', min: 0, max: 100, fallback: isotropicDiffusion.along },
+  diffusionAcross: { label: 'Diffusivity across', min: 0, max: 100, fallback: isotropicDiffusion.across },
+  diffusionAngle: { label: 'Along direction', min: 0, max: 180, fallback: isotropicDiffusion.angle, suffix: '°' },
+}
+
+/**
+ * Setup inputs read from a query, with defaults for those it leaves out. The
+ * settings made of several inputs are assembled, so the field can be built
+ * from them alone.
+ */
+export type SetupInputs = Record<SetupNumber, number> & {
+  soil: SoilTextureId
+  // Texture of the custom soil, the default one when the query has none
+  customSoil: SoilTexture
+  // Soil and crop per column, null where the query gives one for the whole field
+  soilMap: SoilTextureId[] | null
+  cropMap: CropMapEntry[] | null
+  crop: CropId | null
+  outflowEdge: FieldEdge | null
+  initialMoisture: InitialMoisture
+  topography: Topography
+  boundaries: FieldBoundaries
+  lateralDiffusion: LateralDiffusion
+}
+
+/** A number typed into a form or query; blank or partly numeric text is NaN. */
+export const parseNumberInput = (text: string) => text.trim() === '' ? NaN : Number(text)
+
+const formatLimit = (input: NumberInput, value: number, units: Units) =>
+  input.length ? `${+toDisplaySoilDepth(value, units).toFixed(2)} ${soilDepthUnit(units)}` : `${value}${input.suffix ?? ''}`
+
+const requirement = (key: SetupNumber, units: Units) => {
+  const input = setupNumbers[key]
+  return `${input.label} must be ${input.integer ? 'a whole number' : 'a number'} between ${formatLimit(input, input.min, units)} and ${formatLimit(input, input.max, units)}`
+}
+
+const withinLimits = (key: SetupNumber, value: number) => {
+  const { min, max, integer } = setupNumbers[key]
+  return isFinite(value) && value >= min && value <= max && (!integer || Number.isInteger(value))
+}
+
+/** Explains what is wrong with a value (lengths in cm) for a numeric input, or returns null when it is within limits. */
+export const numberInputError = (key: SetupNumber, value: number, units: Units = 'metric') =>
+  withinLimits(key, value) ? null : `${requirement(key, units)}.`
+
+/** Explains why a field is too large to simulate, or returns null. */
+export const fieldSizeError = (rows: number, cols: number, layers: number) => {
+  const cells = rows * cols * layers
+  return cells > MAX_CELLS
+    ? `The field would have ${cells.toLocaleString()} cells over all its layers; it can have at most ${MAX_CELLS.toLocaleString()}.`
+    : null
+}
+
+/** Explains what is wrong with custom van Genuchten parameters, in the order of customSoilParams, or returns null. */
+export const customSoilError = (values: number[]) => {
+  if (values.length !== customSoilParams.length) return `The custom soil needs ${customSoilParams.length} parameters.`
+  if (values.some((value) => !isFinite(value) || value <= 0)) return 'The custom soil parameters must all be positive numbers.'
+  const [porosity, residualMoisture, , , n] = values
+  if (porosity > 1) return 'The porosity of the custom soil cannot be more than 1.'
+  if (residualMoisture >= porosity) return 'The residual moisture of the custom soil must be less than its porosity.'
+  if (n <= 1) return 'The van Genuchten n of the custom soil must be more than 1.'
+  return null
+}
+
+/** Explains what is wrong with the boundary at an edge, or returns null. */
+export const boundaryError = (edge: FieldEdge, boundary: EdgeBoundary) => {
+  const name = fieldEdges[edge].toLowerCase()
+  if (boundary.type === 'fixedMoisture' && !(boundary.moisture >= 0 && boundary.moisture <= 1)) {
+    return `Moisture beyond the ${name} edge must be a number between 0% and 100%.`
+  }
+  if (boundary.type === 'fixedFlux' && !isFinite(boundary.flux)) return `Seepage across the ${name} edge must be a number.`
+  return null
+}
+
+// Reads a boundary the way boundaryQuery writes it, or returns null when the text is not one
+const parseBoundaryText = (text: string): EdgeBoundary | null => {
+  const [type, amount, ...rest] = text.split(':')
+  if (rest.length > 0) return null
+  const number = parseNumberInput(amount ?? '')
+  switch (type) {
+    case 'noFlux':
+    case 'periodic':
+      return amount === undefined ? { type } : null
+    case 'fixedMoisture':
+      return { type, moisture: number / 100 }
+    case 'fixedFlux':
+      return { type, flux: number }
+    default:
+      return null
+  }
+}
+
+/**
+ * Reads the setup inputs from query parameters. Inputs the query leaves out
+ * take their defaults; those it gets wrong take them too and are listed in
+ * `errors`, each in a sentence saying what the link has and what it needs.
+ */
+export const parseSetup = (params: Pick<URLSearchParams, 'get'>): { inputs: SetupInputs; errors: string[] } => {
+  const errors: string[] = []
+  const numbers = {} as Record<SetupNumber, number>
+  const invalid = new Set<SetupNumber>()
+  for (const key of Object.keys(setupNumbers) as SetupNumber[]) {
+    const text = params.get(key)
+    const value = text === null ? setupNumbers[key].fallback : parseNumberInput(text)
+    if (withinLimits(key, value)) {
+      numbers[key] = value
+    } else {
+      errors.push(`${requirement(key, 'metric')}; the link has "${text}".`)
+      invalid.add(key)
+      numbers[key] = setupNumbers[key].fallback
+    }
+  }
+  const choice = <T extends string, F extends T | null>(key: string, label: string, options: readonly T[], fallback: F) => {
+    const text = params.get(key)
+    if (text === null) return fallback
+    if ((options as readonly string[]).includes(text)) return text as T
+    errors.push(`The link has an unknown ${label} "${text}".`)
+    return fallback
+  }
+
+  const sizeError = fieldSizeError(numbers.rows, numbers.cols, numbers.layers)
+  if (sizeError) errors.push(sizeError)
+  // Maps only make sense against valid rows and columns
+  const size = numbers.rows * numbers.cols
+  const sized = !invalid.has('rows') && !invalid.has('cols')
+  const map = <T>(key: string, label: string, decode: (encoded: string, size: number) => T | null) => {
+    const encoded = params.get(key)
+    if (encoded === null || !sized) return null
+    const decoded = decode(encoded, size)
+    if (!decoded) errors.push(`The link's ${label} is damaged or does not match its rows and columns.`)
+    return decoded
+  }
+  const soilMap = map('soilMap', 'soil texture map', decodeSoilMap)
+  const cropMap = map('cropMap', 'crop map', decodeCropMap)
+  const elevationGrid = map('elevationMap', 'elevation map', decodeElevationGrid)
+
+  const customSoilText = params.get('customSoil')
+  const customSoilValues = (customSoilText ?? '').split(',').map(parseNumberInput)
+  const soilError = customSoilText === null ? null : customSoilError(customSoilValues)
+  if (soilError) errors.push(soilError)
+  const [porosity, residualMoisture, saturatedConductivity, alpha, n] = customSoilValues
+  const customSoil = customSoilText === null || soilError
+    ? soilTextures.custom
+    : createSoilTexture('custom', 'Custom', { porosity, residualMoisture, saturatedConductivity, alpha, n })
+
+  const boundaries = { ...noFluxBoundaries }
+  for (const edge of Object.keys(fieldEdges) as FieldEdge[]) {
+    const text = params.get(`${edge}Boundary`)
+    if (text === null) continue
+    const boundary = parseBoundaryText(text)
+    if (!boundary) {
+      const types = Object.keys(boundaryTypes).join(', ')
+      errors.push(`The ${fieldEdges[edge].toLowerCase()} edge boundary must be one of ${types}; the link has "${text}".`)
+      continue
+    }
+    const error = boundaryError(edge, boundary)
+    if (error) errors.push(error)
+    else boundaries[edge] = boundary
+  }
+  for (const edge of ['top', 'left'] as FieldEdge[]) {
+    const opposite = oppositeEdges[edge]
+    if ((boundaries[edge].type === 'periodic') !== (boundaries[opposite].type === 'periodic')) {
+      errors.push(`The ${fieldEdges[edge].toLowerCase()} and ${opposite} edges must both be periodic or neither.`)
+    }
+  }
+
+  const inputs: SetupInputs = {
+    ...numbers,
+    soil: choice('soil', 'soil texture', soilTextureIds, 'loam'),
+    customSoil,
+    soilMap,
+    cropMap,
+    crop: choice('crop', 'crop', cropIds, null),
+    outflowEdge: choice('outflowEdge', 'outflow edge', Object.keys(fieldEdges) as FieldEdge[], null),
+    initialMoisture: {
+      distribution: choice('initialMoisture', 'moisture distribution', Object.keys(moistureDistributions) as MoistureDistribution[], defaultInitialMoisture.distribution),
+      mean: numbers.uniformMoisture / 100,
+      variation: numbers.moistureVariation / 100,
+      seed: params.get('seed') ?? defaultInitialMoisture.seed,
+      correlationLength: numbers.correlationLength,
+      gradientAngle: numbers.gradientAngle,
+      spots: numbers.spots,
+      spotRadius: numbers.spotRadius,
+    },
+    // An elevation map takes precedence over a slope, as topographyQuery only ever writes one of them
+    topography: elevationGrid
+      ? { ...defaultTopography, source: 'grid', grid: elevationGrid }
+      : params.get('slope') !== null
+        ? { ...defaultTopography, source: 'slope', slope: numbers.slope, aspect: numbers.aspect }
+        : defaultTopography,
+    boundaries,
+    lateralDiffusion: {
+      stencil: choice('stencil', 'neighbour stencil', Object.keys(neighbourStencils) as NeighbourStencil[], isotropicDiffusion.stencil),
+      along: numbers.diffusionAlong,
+      across: numbers.diffusionAcross,
+      angle: numbers.diffusionAngle,
+    },
+  }
+  return { inputs, errors }
+}
+
+/** The starting field of a setup, every layer from the same initial moisture map. */
+export const createSetupField = (inputs: SetupInputs) => {
+  const { rows, cols, cellSize, soilMap, cropMap } = inputs
+  const moisture = initialMoistureMap(rows, cols, inputs.initialMoisture)
+  const elevation = elevationMap(rows, cols, cellSize, inputs.topography)
+  return createField(rows, cols, (row, col) => moisture[row * cols + col], {
+    cellSize,
+    layers: inputs.layers,
+    layerThickness: inputs.layerThickness,
+    customSoil: inputs.customSoil,
+    soilAt: (row, col) => soilMap ? soilMap[row * cols + col] : inputs.soil,
+    cropAt: (row, col) => {
+      const crop = cropMap ? cropMap[row * cols + col] : inputs.crop
+      return crop === 'none' ? null : crop
+    },
+    plantingDay: inputs.plantingDay,
+    elevationAt: (row, col) => elevation[row * cols + col],
+    outflowEdge: inputs.outflowEdge,
+    boundaries: inputs.boundaries,
+    lateralDiffusion: inputs.lateralDiffusion,
+  })
+}
@@ -0,0 +1,173 @@
+import { totalStorage } from './budget'
+import { stepSimulation, type SimulationState } from './engine'
+import { cloneField } from './field'
+import { estimateError, interpolateReadings } from './sensors'
+import { checkStability } from './stability'
+import type { SimulationParams } from './types'
+import type { WeatherSeries } from './weather'
+import {
+  fieldTransferables,
+  stepsPerSecond,
+  type RunLimit,
+  type SimulationSpeed,
+  type StateView,
+  type WorkerRequest,
+  type WorkerResponse,
+} from './worker-protocol'
+
+// Longest stretch of stepping (ms) before the worker reads its messages again
+const SLICE_MS = 12
+// Shortest time (ms) between two states sent to the page while running
+const POST_INTERVAL_MS = 1000 / 30
+// Shortest time (ms) between two sets of diagnostics sent while running, as each is a pass over every cell
+const DIAGNOSTICS_INTERVAL_MS = 1000
+
+let state: SimulationState | null = null
+let revision = 0
+let config: { params: SimulationParams; timeStepSize: number; weather: WeatherSeries | null } | null = null
+let run = 0
+let speed: SimulationSpeed = '1x'
+// Step number or simulated time at which the current run stops
+let stopAt: { timeStep: number } | { elapsed: number } | null = null
+let running = false
+// Wall-clock start of the current pace, and steps taken since
+let paceStart = 0
+let paceSteps = 0
+let lastPost = 0
+let lastDiagnostics = -Infinity
+let timer: ReturnType<typeof setTimeout> | null = null
+
+const post = (message: WorkerResponse, transfer: ArrayBuffer[] = []) => self.postMessage(message, { transfer })
+
+// Sends the diagnostics of the current state, while running only as often as DIAGNOSTICS_INTERVAL_MS allows
+const postDiagnostics = () => {
+  if (!state || !config) return
+  if (running && performance.now() - lastDiagnostics < DIAGNOSTICS_INTERVAL_MS) return
+  const diagnostics = { stability: checkStability(state.field, config.timeStepSize), storage: totalStorage(state.field) }
+  post({ type: 'diagnostics', diagnostics, revision })
+  lastDiagnostics = performance.now()
+}
+
+const stateView = (current: SimulationState): StateView => {
+  const { field, zones } = current
+  const estimate = interpolateReadings(field, current.sensors, current.probeStates)
+  const ids = new Set(zones.map((zone) => zone.id))
+  return {
+    unzonedTaps: zones.length > 0 ? field.tapStatus.map((tap, column) => ids.has(field.zone[column]) ? 0 : tap) : null,
+    sensedError: estimate ? estimateError(field, estimate) : null,
+  }
+}
+
+// Buffers of a view, to transfer with it
+const viewTransferables = (view: StateView) => view.unzonedTaps ? [view.unzonedTaps.buffer as ArrayBuffer] : []
+
+// Sends the view of a state the page already has
+const postView = () => {
+  if (!state) return
+  const view = stateView(state)
+  post({ type: 'view', view, revision }, viewTransferables(view))
+}
+
+const postState = () => {
+  if (!state) return
+  // The worker keeps stepping from its own arrays, so it hands over a copy
+  const field = cloneField(state.field)
+  const view = stateView(state)
+  post({ type: 'state', state: { ...state, field }, view, revision, run, running }, [...fieldTransferables(field), ...viewTransferables(view)])
+  lastPost = performance.now()
+  postDiagnostics()
+}
+
+const resetPace = () => {
+  paceStart = performance.now()
+  paceSteps = 0
+}
+
+const limitReached = (current: SimulationState) => {
+  if (!stopAt) return false
+  // Tolerates rounding in the accumulated time
+  return 'timeStep' in stopAt ? current.timeStep >= stopAt.timeStep : current.elapsed >= stopAt.elapsed - 1e-9
+}
+
+const schedule = (delay: number) => {
+  if (timer !== null) clearTimeout(timer)
+  timer = setTimeout(tick, delay)
+}
+
+// Takes the steps that are due, then sleeps until the next one is
+function tick() {
+  timer = null
+  if (!running || !state || !config) return
+  const { params, timeStepSize, weather } = config
+  const rate = stepsPerSecond(speed, timeStepSize)
+  const sliceStart = performance.now()
+  let delay = 0
+  try {
+    while (!limitReached(state)) {
+      const now = performance.now()
+      if (now - sliceStart > SLICE_MS) break
+      const due = paceStart + (paceSteps + 1) * 1000 / rate
+      if (now < due) {
+        delay = due - now
+        break
+      }
+      state = stepSimulation(state, params, timeStepSize, { weather })
+      paceSteps++
+    }
+  } catch (e) {
+    running = false
+    post({ type: 'error', message: e instanceof Error ? e.message : 'The simulation failed.', revision, run })
+    return
+  }
+  if (limitReached(state)) running = false
+  if (!running || performance.now() - lastPost >= POST_INTERVAL_MS) postState()
+  if (running) schedule(delay)
+}
+
+const startRun = (limit: RunLimit | null) => {
+  if (!state) return
+  stopAt = !limit ? null
+    : 'steps' in limit ? { timeStep: state.timeStep + limit.steps }
+    : { elapsed: limit.hours }
+  running = !limitReached(state)
+  resetPace()
+  if (running) schedule(0)
+  else postState()
+}
+
+self.addEventListener('message', (event: MessageEvent<WorkerRequest>) => {
+  const message = event.data
+  switch (message.type) {
+    case 'load':
+      state = message.state
+      revision = message.revision
+      postView()
+      lastDiagnostics = -Infinity
+      postDiagnostics()
+      break
+    case 'configure':
+      config = { params: message.params, timeStepSize: message.timeStepSize, weather: message.weather }
+      lastDiagnostics = -Infinity
+      postDiagnostics()
+      resetPace()
+      if (running) schedule(0)
+      break
+    case 'run':
+      run = message.run
+      speed = message.speed
+      startRun(message.limit)
+      break
+    case 'speed':
+      speed = message.speed
+      resetPace()
+      if (running) schedule(0)
+      break
+    case 'pause':
+      run = message.run
+      if (timer !== null) clearTimeout(timer)
+      timer = null
+      running = false
+      postState()
+      break
+  }
+})
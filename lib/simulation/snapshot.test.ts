@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest'
+import { defaultSettings } from '@/lib/settings'
+import { createSimulation } from './engine'
+import { defaultSite } from './evapotranspiration'
+import { createField } from './field'
+import { parseSnapshot, serializeSnapshot, SNAPSHOT_FORMAT, SNAPSHOT_VERSION, type SimulationSnapshot } from './snapshot'
+
+const snapshot: SimulationSnapshot = {
+  format: SNAPSHOT_FORMAT,
+  version: SNAPSHOT_VERSION,
+  name: 'Test',
+  savedAt: '2026-01-01T00:00:00.000Z',
+  simulation: createSimulation(createField(3, 4, (row, col) => (row + col) / 10, { layers: 2, cropAt: () => 'maize' })),
+  params: { evapotranspirationRate: 0.2, irrigationRate: 5, moistureThreshold: 0.2 },
+  timeStepSize: 1,
+  history: { selectedCell: null, moisture: [] },
+  settings: defaultSettings,
+  displayLayer: 0,
+  weather: null,
+  site: defaultSite,
+}
+
+// The snapshot's JSON with the values at dotted paths replaced, or removed where undefined
+const edited = (changes: Record<string, unknown>) => {
+  const data = JSON.parse(serializeSnapshot(snapshot))
+  for (const [path, value] of Object.entries(changes)) {
+    const keys = path.split('.')
+    const parent = keys.slice(0, -1).reduce((object, key) => object[key], data)
+    if (value === undefined) delete parent[keys[keys.length - 1]]
+    else parent[keys[keys.length - 1]] = value
+  }
+  return JSON.stringify(data)
+}
+
+describe('parseSnapshot', () => {
+  it('restores what serializeSnapshot wrote', () => {
+    const restored = parseSnapshot(serializeSnapshot(snapshot))
+    expect(restored.simulation.field.moisture).toEqual(snapshot.simulation.field.moisture)
+    expect(restored.simulation.field.crop).toEqual(snapshot.simulation.field.crop)
+    expect(restored.params).toEqual(snapshot.params)
+  })
+
+  it('rejects field data out of range', () => {
+    expect(() => parseSnapshot(edited({ 'simulation.field.crop.0': 42 }))).toThrow(/out of range/)
+  })
+
+  it.each([
+    ['a soil texture with n below 1', { 'simulation.field.soils.1.n': 0.5 }, "The snapshot's soil textures are malformed."],
+    ['an unknown boundary', { 'simulation.field.boundaries.top': { type: 'leaky' } }, /edge boundaries are malformed/],
+    ['a negative diffusivity', { 'simulation.field.lateralDiffusion.along': -1 }, "The snapshot's lateral diffusion settings are malformed."],
+    ['a probe before the first column', { 'simulation.sensors.probes': [{ id: 1, column: -1 }] }, "The snapshot's sensor settings are malformed."],
+    ['a zone without a controller', { 'simulation.zones': [{ id: 1, name: 'A' }] }, "The snapshot's irrigation zones are malformed."],
+    ['a negative irrigation rate', { 'params.irrigationRate': -5 }, "The snapshot's simulation parameters are malformed."],
+    ['a zero time step', { timeStepSize: 0 }, "The snapshot's time step settings are malformed."],
+    ['a negative display layer', { displayLayer: -1 }, "The snapshot's display settings are malformed."],
+    ['a version 4 file without zones', { version: 4, 'simulation.zones': undefined }, 'The snapshot has no irrigation zones.'],
+  ])('rejects %s with a readable error', (_, edit, error) => {
+    expect(() => parseSnapshot(edited(edit))).toThrow(error)
+  })
+})
@@ -0,0 +1,332 @@
+import { sanitizeSettings, type Settings } from '@/lib/settings'
+import type { WaterBudget } from './budget'
+import type { SimulationState } from './engine'
+import type { SiteInfo } from './evapotranspiration'
+import { noFluxBoundaries } from './boundaries'
+import type { ZoneController } from './controllers'
+import { isotropicDiffusion } from './diffusion'
+import { validFieldValues, type CheckedFieldArray, type Field } from './field'
+import { emptySensorNetwork } from './sensors'
+import { createSoilTexture, type SoilTexture } from './soil'
+import { initialSupplyStatus, unlimitedSupply } from './supply'
+import { fieldEdges } from './topography'
+import type { SimulationParams } from './types'
+import {
+  boundariesError,
+  isNumber,
+  validLateralDiffusion,
+  validParams,
+  validSensors,
+  validSite,
+  validSoils,
+  validSupply,
+  validTimeStep,
+  validZones,
+} from './validation'
+import type { WeatherSeries } from './weather'
+import type { IrrigationZone } from './zones'
+
+export const SNAPSHOT_FORMAT = 'soil-moisture-simulation'
+export const SNAPSHOT_VERSION = 11
+
+/** Field with its typed arrays written out as plain number arrays. */
+type TypedArrayKey =
+  | 'soil' | 'moisture' | 'diffusivityScale' | 'tapStatus' | 'overrideTap' | 'crop' | 'plantingDay' | 'potentialET' | 'actualET' | 'zone'
+  | 'elevation' | 'ponding' | 'runoffX' | 'runoffY'
+type SerializedField = Omit<Field, TypedArrayKey> & {
+  soil: number[]
+  moisture: number[]
+  diffusivityScale: number[]
+  tapStatus: number[]
+  overrideTap: number[]
+  crop: number[]
+  plantingDay: number[]
+  potentialET: number[]
+  actualET: number[]
+  zone: number[]
+  elevation: number[]
+  ponding: number[]
+  runoffX: number[]
+  runoffY: number[]
+}
+
+/**
+ * Everything needed to resume a simulation exactly where it was saved: the
+ * engine state, the controls, the selected cell's history and the display
+ * settings.
+ */
+export interface SimulationSnapshot {
+  format: typeof SNAPSHOT_FORMAT
+  version: number
+  name: string
+  // ISO 8601
+  savedAt: string
+  simulation: SimulationState
+  params: SimulationParams
+  timeStepSize: number
+  history: {
+    selectedCell: { row: number; col: number } | null
+    moisture: { time: number; moisture: number }[]
+  }
+  settings: Settings
+  displayLayer: number
+  // Raw series as imported, before ET₀ is filled in
+  weather: WeatherSeries | null
+  site: SiteInfo
+}
+
+const serializeField = (field: Field): SerializedField => ({
+  ...field,
+  soil: Array.from(field.soil),
+  moisture: Array.from(field.moisture),
+  diffusivityScale: Array.from(field.diffusivityScale),
+  tapStatus: Array.from(field.tapStatus),
+  overrideTap: Array.from(field.overrideTap),
+  crop: Array.from(field.crop),
+  plantingDay: Array.from(field.plantingDay),
+  potentialET: Array.from(field.potentialET),
+  actualET: Array.from(field.actualET),
+  zone: Array.from(field.zone),
+  elevation: Array.from(field.elevation),
+  ponding: Array.from(field.ponding),
+  runoffX: Array.from(field.runoffX),
+  runoffY: Array.from(field.runoffY),
+})
+
+const numberArray = (value: unknown, length: number, name: string) => {
+  if (!Array.isArray(value) || value.length !== length || value.some((entry) => typeof entry !== 'number' || !isFinite(entry))) {
+    throw new Error(`The snapshot's ${name} data is missing or does not match the grid size.`)
+  }
+  return value as number[]
+}
+
+// Throws an Error naming the part of the snapshot that is wrong
+const check = (ok: boolean, part: string) => {
+  if (!ok) throw new Error(`The snapshot's ${part} are malformed.`)
+}
+
+const deserializeField = (field: SerializedField): Field => {
+  const { rows, cols, layers } = field
+  if (![rows, cols, layers].every((size) => Number.isInteger(size) && size > 0)) {
+    throw new Error('The snapshot has an invalid grid size.')
+  }
+  const cells = rows * cols * layers
+  const columns = rows * cols
+  if (numberArray(field.layerThickness, layers, 'layer thickness').some((thickness) => thickness <= 0)) {
+    throw new Error('The snapshot has a layer with no thickness.')
+  }
+  if (!Array.isArray(field.soils) || field.soils.length === 0) {
+    throw new Error('The snapshot has no soil textures.')
+  }
+  check(validSoils(field.soils), 'soil textures')
+  check(isNumber(field.cellSize) && field.cellSize > 0, 'cell sizes')
+  check(field.outflowEdge === null || field.outflowEdge in fieldEdges, 'outflow settings')
+  const boundaryError = boundariesError(field.boundaries)
+  if (boundaryError) throw new Error(`The snapshot's edge boundaries are malformed: ${boundaryError}`)
+  check(validLateralDiffusion(field.lateralDiffusion), 'lateral diffusion settings')
+  const checked: Record<CheckedFieldArray, [number, string]> = {
+    soil: [cells, 'soil'],
+    diffusivityScale: [cells, 'diffusivity multiplier'],
+    tapStatus: [columns, 'tap'],
+    overrideTap: [columns, 'tap override'],
+    crop: [columns, 'crop'],
+    zone: [columns, 'zone'],
+  }
+  for (const [array, [length, name]] of Object.entries(checked) as [CheckedFieldArray, [number, string]][]) {
+    if (!validFieldValues(array, numberArray(field[array], length, name), field.soils.length)) {
+      throw new Error(`The snapshot's ${name} data has values out of range.`)
+    }
+  }
+  return {
+    ...field,
+    // Rebuilt so field capacity and wilting point follow from the checked parameters
+    soils: field.soils.map((soil: SoilTexture) => createSoilTexture(soil.id, soil.name, soil)),
+    soil: Uint8Array.from(numberArray(field.soil, cells, 'soil')),
+    moisture: Float64Array.from(numberArray(field.moisture, cells, 'moisture')),
+    diffusivityScale: Float64Array.from(numberArray(field.diffusivityScale, cells, 'diffusivity multiplier')),
+    tapStatus: Uint8Array.from(numberArray(field.tapStatus, columns, 'tap')),
+    overrideTap: Uint8Array.from(numberArray(field.overrideTap, columns, 'tap override')),
+    crop: Int8Array.from(numberArray(field.crop, columns, 'crop')),
+    plantingDay: Float64Array.from(numberArray(field.plantingDay, columns, 'planting day')),
+    potentialET: Float64Array.from(numberArray(field.potentialET, columns, 'potential ET')),
+    actualET: Float64Array.from(numberArray(field.actualET, columns, 'actual ET')),
+    zone: Uint8Array.from(numberArray(field.zone, columns, 'zone')),
+    elevation: Float64Array.from(numberArray(field.elevation, columns, 'elevation')),
+    ponding: Float64Array.from(numberArray(field.ponding, columns, 'ponding')),
+    runoffX: Float64Array.from(numberArray(field.runoffX, columns, 'runoff')),
+    runoffY: Float64Array.from(numberArray(field.runoffY, columns, 'runoff')),
+  }
+}
+
+type StoredSnapshot = Omit<SimulationSnapshot, 'simulation'> & {
+  simulation: Omit<SimulationState, 'field'> & { field: SerializedField }
+}
+
+// Zones of a snapshot being migrated, which a damaged file may lack
+const storedZones = (snapshot: StoredSnapshot): IrrigationZone[] => {
+  if (!Array.isArray(snapshot.simulation.zones)) throw new Error('The snapshot has no irrigation zones.')
+  return snapshot.simulation.zones
+}
+
+// Each entry upgrades a snapshot from the version it is keyed by to the next one
+const migrations: Record<number, (snapshot: StoredSnapshot) => StoredSnapshot> = {
+  // Version 1 stored irrigation and ET as θ per hour of the surface layer instead of mm/h
+  1: (snapshot) => {
+    const surfaceDepth = snapshot.simulation.field.layerThickness[0] * 10
+    const { params } = snapshot
+    return {
+      ...snapshot,
+      params: {
+        ...params,
+        evapotranspirationRate: params.evapotranspirationRate * surfaceDepth,
+        irrigationRate: params.irrigationRate * surfaceDepth,
+      },
+    }
+  },
+  // Version 2 had no irrigation zones
+  2: (snapshot) => {
+    const { field } = snapshot.simulation
+    return {
+      ...snapshot,
+      simulation: { ...snapshot.simulation, field: { ...field, zone: Array(field.rows * field.cols).fill(0) } },
+    }
+  },
+  // Version 3 painted zones but had no zone settings or valves
+  3: (snapshot) => ({ ...snapshot, simulation: { ...snapshot.simulation, zones: [], valves: {} } }),
+  // Version 4 had a plain threshold controller, which is hysteresis with no band
+  4: (snapshot) => {
+    type StoredController = ZoneController | { type: 'threshold'; threshold: number }
+    const zones = storedZones(snapshot).map((zone) => {
+      const controller = zone.controller as StoredController
+      return controller.type === 'threshold'
+        ? { ...zone, controller: { type: 'hysteresis' as const, low: controller.threshold, high: controller.threshold } }
+        : zone
+    })
+    return { ...snapshot, simulation: { ...snapshot.simulation, zones, valves: {} } }
+  },
+  // Version 5 drew on an unlimited supply and served every zone alike
+  5: (snapshot) => ({
+    ...snapshot,
+    simulation: {
+      ...snapshot.simulation,
+      zones: storedZones(snapshot).map((zone) => ({ ...zone, priority: 1 })),
+      supply: unlimitedSupply,
+      supplyStatus: initialSupplyStatus(),
+    },
+  }),
+  // Version 6 had no probes
+  6: (snapshot) => ({ ...snapshot, simulation: { ...snapshot.simulation, sensors: emptySensorNetwork, probeStates: {} } }),
+  // Version 7 had a flat field without surface water
+  7: (snapshot) => {
+    const { field } = snapshot.simulation
+    const zeros = () => Array(field.rows * field.cols).fill(0)
+    const budget = (stored: WaterBudget) => ({ ...stored, runoff: 0 })
+    return {
+      ...snapshot,
+      simulation: {
+        ...snapshot.simulation,
+        field: { ...field, elevation: zeros(), ponding: zeros(), runoffX: zeros(), runoffY: zeros(), outflowEdge: null },
+        lastBudget: budget(snapshot.simulation.lastBudget),
+        cumulativeBudget: budget(snapshot.simulation.cumulativeBudget),
+      },
+    }
+  },
+  // Version 8 kept all soil water in at every edge
+  8: (snapshot) => {
+    const budget = (stored: WaterBudget) => ({ ...stored, boundaryInflow: { top: 0, bottom: 0, left: 0, right: 0 } })
+    return {
+      ...snapshot,
+      simulation: {
+        ...snapshot.simulation,
+        field: { ...snapshot.simulation.field, boundaries: noFluxBoundaries },
+        lastBudget: budget(snapshot.simulation.lastBudget),
+        cumulativeBudget: budget(snapshot.simulation.cumulativeBudget),
+      },
+    }
+  },
+  // Version 9 had isotropic 4-neighbour flow with the same diffusivity everywhere
+  9: (snapshot) => {
+    const { field } = snapshot.simulation
+    return {
+      ...snapshot,
+      simulation: {
+        ...snapshot.simulation,
+        field: {
+          ...field,
+          diffusivityScale: Array(field.rows * field.cols * field.layers).fill(1),
+          lateralDiffusion: isotropicDiffusion,
+        },
+      },
+    }
+  },
+  // Version 10 did not record steps that ran out of sub-steps
+  10: (snapshot) => ({ ...snapshot, simulation: { ...snapshot.simulation, unstableTime: 0 } }),
+}
+
+/**
+ * Writes a snapshot as JSON. Numbers round-trip exactly, so a restored run
+ * continues bit for bit. Values keep the simulation's own units (mm/h, mm,
+ * cm and degree of saturation) whatever the display settings are.
+ */
+export const serializeSnapshot = (snapshot: SimulationSnapshot) =>
+  JSON.stringify({
+    ...snapshot,
+    simulation: { ...snapshot.simulation, field: serializeField(snapshot.simulation.field) },
+  })
+
+/** Reads a snapshot written by serializeSnapshot, throwing an Error that explains what is wrong. */
+export const parseSnapshot = (text: string): SimulationSnapshot => {
+  let data: StoredSnapshot
+  try {
+    data = JSON.parse(text)
+  } catch {
+    throw new Error('The file is not valid JSON.')
+  }
+  if (!data || data.format !== SNAPSHOT_FORMAT) {
+    throw new Error('The file is not a saved soil moisture simulation.')
+  }
+  if (typeof data.version !== 'number' || data.version < 1 || data.version > SNAPSHOT_VERSION) {
+    throw new Error(`The snapshot has version ${data.version}, but this app reads up to version ${SNAPSHOT_VERSION}.`)
+  }
+  if (!data.simulation?.field || !data.params || !data.settings) {
+    throw new Error('The snapshot is incomplete.')
+  }
+  for (let version = data.version; version < SNAPSHOT_VERSION; version++) {
+    data = migrations[version](data)
+  }
+  const budgets: (WaterBudget | undefined)[] = [data.simulation.lastBudget, data.simulation.cumulativeBudget]
+  if (budgets.some((budget) => !budget)) {
+    throw new Error('The snapshot has no water budget.')
+  }
+  if (!Array.isArray(data.simulation.zones)) {
+    throw new Error('The snapshot has no irrigation zones.')
+  }
+  if (!data.simulation.supply || !data.simulation.supplyStatus) {
+    throw new Error('The snapshot has no water supply.')
+  }
+  if (!Array.isArray(data.simulation.sensors?.probes) || !data.simulation.probeStates) {
+    throw new Error('The snapshot has no sensor network.')
+  }
+  const field = deserializeField(data.simulation.field)
+  const columns = field.rows * field.cols
+  check(validZones(data.simulation.zones, columns), 'irrigation zones')
+  check(validSupply(data.simulation.supply), 'water supply settings')
+  check(validSensors(data.simulation.sensors, columns), 'sensor settings')
+  check(validParams(data.params), 'simulation parameters')
+  check(validTimeStep(data.timeStepSize), 'time step settings')
+  check(validSite(data.site), 'site settings')
+  const displayLayer = data.displayLayer ?? 0
+  check(Number.isInteger(displayLayer) && displayLayer >= 0, 'display settings')
+  return {
+    ...data,
+    simulation: { ...data.simulation, field },
+    settings: sanitizeSettings(data.settings as unknown as Record<string, unknown>),
+    history: data.history ?? { selectedCell: null, moisture: [] },
+    displayLayer: Math.min(displayLayer, field.layers - 1),
+    weather: data.weather ?? null,
+  }
+}
+
+/** File name for exporting a snapshot, derived from its name. */
+export const snapshotFileName = (snapshot: Pick<SimulationSnapshot, 'name'>) =>
+  `${snapshot.name.trim().replace(/[^\w-]+/g, '-').replace(/^-+|-+$/g, '') || 'simulation'}.json`
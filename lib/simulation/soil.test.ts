@@ -0,0 +1,25 @@
+import { describe, expect, it } from 'vitest'
+import { hydraulicConductivity, matricHead, moistureAtHead, soilTextureIds, soilTextures } from './soil'
+
+describe('van Genuchten retention', () => {
+  it.each(soilTextureIds)('inverts between moisture and matric head for %s', (id) => {
+    const soil = soilTextures[id]
+    for (const head of [-1, -10, -100, -1000]) {
+      expect(matricHead(soil, moistureAtHead(soil, head))).toBeCloseTo(head, 6)
+    }
+  })
+
+  it.each(soilTextureIds)('holds more water at field capacity than at wilting point for %s', (id) => {
+    const soil = soilTextures[id]
+    expect(soil.fieldCapacity).toBeGreaterThan(soil.wiltingPoint)
+    expect(soil.fieldCapacity).toBeLessThan(soil.porosity)
+    expect(soil.wiltingPoint).toBeGreaterThan(soil.residualMoisture)
+  })
+
+  it('reaches the saturated conductivity at saturation and falls off as the soil dries', () => {
+    const soil = soilTextures.loam
+    expect(hydraulicConductivity(soil, soil.porosity)).toBeCloseTo(soil.saturatedConductivity, 10)
+    expect(hydraulicConductivity(soil, soil.fieldCapacity)).toBeLessThan(soil.saturatedConductivity)
+    expect(hydraulicConductivity(soil, soil.wiltingPoint)).toBeLessThan(hydraulicConductivity(soil, soil.fieldCapacity))
+  })
+})
@@ -0,0 +1,116 @@
+import { decodeCategoryMap, encodeCategoryMap } from './rle'
+
+export type SoilTextureId = 'sand' | 'loam' | 'clay' | 'custom'
+
+// Order of the textures in Field.soils; Field.soil stores indexes into this list
+export const soilTextureIds: SoilTextureId[] = ['sand', 'loam', 'clay', 'custom']
+
+export interface VanGenuchtenParams {
+  // Saturated water content θs (m³/m³), also used as the porosity
+  porosity: number
+  // Residual water content θr (m³/m³)
+  residualMoisture: number
+  // Ks (cm/h)
+  saturatedConductivity: number
+  // α (1/cm)
+  alpha: number
+  // n (-), must be greater than 1
+  n: number
+}
+
+export interface SoilTexture extends VanGenuchtenParams {
+  id: SoilTextureId
+  name: string
+  // θ at -33 kPa (m³/m³)
+  fieldCapacity: number
+  // θ at -1500 kPa (m³/m³)
+  wiltingPoint: number
+}
+
+const FIELD_CAPACITY_HEAD = -336.5 // cm, -33 kPa
+const WILTING_POINT_HEAD = -15296 // cm, -1500 kPa
+const MIN_EFFECTIVE_SATURATION = 1e-4
+// Air-dry limit; fine textures reach absurd heads near residual moisture
+export const MIN_MATRIC_HEAD = -1e5 // cm
+
+export const effectiveSaturation = (soil: VanGenuchtenParams, theta: number) => {
+  const se = (theta - soil.residualMoisture) / (soil.porosity - soil.residualMoisture)
+  return Math.max(MIN_EFFECTIVE_SATURATION, Math.min(1, se))
+}
+
+/** Volumetric water content at matric head `head` (cm, negative when unsaturated). */
+export const moistureAtHead = (soil: VanGenuchtenParams, head: number) => {
+  if (head >= 0) return soil.porosity
+  const m = 1 - 1 / soil.n
+  const se = Math.pow(1 + Math.pow(soil.alpha * -head, soil.n), -m)
+  return soil.residualMoisture + se * (soil.porosity - soil.residualMoisture)
+}
+
+/** Matric head (cm) at volumetric water content `theta`, no lower than MIN_MATRIC_HEAD. */
+export const matricHead = (soil: VanGenuchtenParams, theta: number) => {
+  const se = effectiveSaturation(soil, theta)
+  if (se >= 1) return 0
+  const m = 1 - 1 / soil.n
+  return Math.max(MIN_MATRIC_HEAD, -Math.pow(Math.pow(se, -1 / m) - 1, 1 / soil.n) / soil.alpha)
+}
+
+/** Unsaturated hydraulic conductivity (cm/h) from the Mualem–van Genuchten model. */
+export const hydraulicConductivity = (soil: VanGenuchtenParams, theta: number) => {
+  const se = effectiveSaturation(soil, theta)
+  const m = 1 - 1 / soil.n
+  return soil.saturatedConductivity * Math.sqrt(se) * Math.pow(1 - Math.pow(1 - Math.pow(se, 1 / m), m), 2)
+}
+
+/**
+ * Soil water diffusivity D = K · dh/dθ (cm²/h), used to pick a stable time
+ * step. It diverges at saturation, so it is evaluated no wetter than Se = 0.99.
+ */
+export const soilDiffusivity = (soil: VanGenuchtenParams, theta: number) => {
+  const se = Math.min(0.99, effectiveSaturation(soil, theta))
+  const m = 1 - 1 / soil.n
+  const x = Math.pow(se, -1 / m) - 1
+  const dhdSe = Math.pow(x, 1 / soil.n - 1) * Math.pow(se, -1 / m - 1) / (soil.alpha * soil.n * m)
+  const thetaAtSe = soil.residualMoisture + se * (soil.porosity - soil.residualMoisture)
+  return hydraulicConductivity(soil, thetaAtSe) * dhdSe / (soil.porosity - soil.residualMoisture)
+}
+
+export const createSoilTexture = (id: SoilTextureId, name: string, params: VanGenuchtenParams): SoilTexture => ({
+  id,
+  name,
+  ...params,
+  fieldCapacity: moistureAtHead(params, FIELD_CAPACITY_HEAD),
+  wiltingPoint: moistureAtHead(params, WILTING_POINT_HEAD),
+})
+
+// Carsel & Parrish (1988) class averages
+export const soilTextures: Record<SoilTextureId, SoilTexture> = {
+  sand: createSoilTexture('sand', 'Sand', {
+    porosity: 0.43, residualMoisture: 0.045, saturatedConductivity: 29.7, alpha: 0.145, n: 2.68,
+  }),
+  loam: createSoilTexture('loam', 'Loam', {
+    porosity: 0.43, residualMoisture: 0.078, saturatedConductivity: 1.04, alpha: 0.036, n: 1.56,
+  }),
+  clay: createSoilTexture('clay', 'Clay', {
+    porosity: 0.38, residualMoisture: 0.068, saturatedConductivity: 0.2, alpha: 0.008, n: 1.09,
+  }),
+  custom: createSoilTexture('custom', 'Custom', {
+    porosity: 0.43, residualMoisture: 0.078, saturatedConductivity: 1.04, alpha: 0.036, n: 1.56,
+  }),
+}
+
+export const customSoilParams: (keyof VanGenuchtenParams)[] = [
+  'porosity',
+  'residualMoisture',
+  'saturatedConductivity',
+  'alpha',
+  'n',
+]
+
+export const formatCustomSoil = (params: VanGenuchtenParams) =>
+  customSoilParams.map((key) => params[key]).join(',')
+
+const soilMapCodes: Record<SoilTextureId, string> = { sand: 's', loam: 'l', clay: 'c', custom: 'x' }
+
+export const encodeSoilMap = (map: SoilTextureId[]) => encodeCategoryMap(map, soilMapCodes)
+
+export const decodeSoilMap = (encoded: string, size: number) => decodeCategoryMap(encoded, size, soilMapCodes)
@@ -0,0 +1,57 @@
+import { stencilWeights } from './diffusion'
+import { soilAtIndex, volumetricMoisture, type Field } from './field'
+import { soilDiffusivity } from './soil'
+
+// Forward-Euler diffusion on a 3D grid is stable while
+// D·Δt·(1/Δx² + 1/Δy² + 1/Δz²) ≤ 1/2, with the lateral terms weighted by the stencil
+export const EXPLICIT_STABILITY_LIMIT = 0.5
+export const MAX_SUBSTEPS = 1000
+
+export interface StabilityReport {
+  courantNumber: number
+  limit: number
+  stable: boolean
+  substeps: number
+  // More sub-steps are needed than MAX_SUBSTEPS allows, so the last one goes beyond the limit
+  capped: boolean
+}
+
+/** Largest soil water diffusivity (cm²/h) over the cells of the field, with their multipliers. */
+export const maxDiffusivity = (field: Field) => {
+  let max = 0
+  for (let index = 0; index < field.moisture.length; index++) {
+    max = Math.max(max, soilDiffusivity(soilAtIndex(field, index), volumetricMoisture(field, index)) * field.diffusivityScale[index])
+  }
+  return max
+}
+
+// Σ weight/Δ² over the directions water can move in (1/cm²)
+const inverseSpacing = (field: Field) => {
+  const thinnestLayer = Math.min(...field.layerThickness)
+  const { x, y, diagonal, antiDiagonal } = stencilWeights(field.lateralDiffusion)
+  return (x + y + diagonal + antiDiagonal) / (field.cellSize * field.cellSize) +
+    (field.layers > 1 ? 1 / (thinnestLayer * thinnestLayer) : 0)
+}
+
+/** Longest explicit time step (hours) that keeps the field's current state stable. */
+export const stableTimeStep = (field: Field) => {
+  const diffusivity = maxDiffusivity(field)
+  return diffusivity > 0 ? EXPLICIT_STABILITY_LIMIT / (diffusivity * inverseSpacing(field)) : Infinity
+}
+
+/**
+ * Estimates how many sub-steps a step of `timeStepSize` hours needs from the
+ * field's current state. The engine re-evaluates the limit after every
+ * sub-step, so the actual count can differ as the field wets or dries.
+ */
+export const checkStability = (field: Field, timeStepSize: number): StabilityReport => {
+  const courantNumber = maxDiffusivity(field) * timeStepSize * inverseSpacing(field)
+  const needed = Math.max(1, Math.ceil(courantNumber / EXPLICIT_STABILITY_LIMIT))
+  return {
+    courantNumber,
+    limit: EXPLICIT_STABILITY_LIMIT,
+    stable: courantNumber <= EXPLICIT_STABILITY_LIMIT,
+    substeps: Math.min(MAX_SUBSTEPS, needed),
+    capped: needed > MAX_SUBSTEPS,
+  }
+}
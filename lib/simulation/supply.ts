@@ -0,0 +1,220 @@
+import { columnMoisture, type Field } from './field'
+import { cellArea, type IrrigationZone, type StepClock } from './zones'
+
+/** How water is shared out when the supply cannot meet every call for it. */
+export type RationingPolicy = 'proportional' | 'priority' | 'driest'
+
+export const rationingPolicies: Record<RationingPolicy, string> = {
+  proportional: 'Proportional',
+  priority: 'Zone Priority',
+  driest: 'Driest Cells First',
+}
+
+/** Pressure in the pipes, falling with the flow through them. */
+export interface SupplyPressure {
+  // Pressure at the source with no water flowing (kPa)
+  source: number
+  // Pressure lost to friction at 1000 L/h, growing with the square of the flow (kPa)
+  friction: number
+  // Pressure the emitters deliver their rated flow at (kPa)
+  nominal: number
+  // How emitter flow follows pressure: 0.5 for orifices and sprinklers, near 0 for pressure-compensating drippers
+  exponent: number
+}
+
+/** Source of all irrigation water. Limits left null do not apply. */
+export interface WaterSupply {
+  // Pump or connection capacity (L/h)
+  maxFlow: number | null
+  // Volume per calendar day (L)
+  dailyQuota: number | null
+  // Volume over the whole run (L)
+  seasonQuota: number | null
+  // Null when the emitters always get their rated pressure
+  pressure: SupplyPressure | null
+  policy: RationingPolicy
+}
+
+export const unlimitedSupply: WaterSupply = {
+  maxFlow: null,
+  dailyQuota: null,
+  seasonQuota: null,
+  pressure: null,
+  policy: 'proportional',
+}
+
+export const defaultPressure: SupplyPressure = { source: 300, friction: 50, nominal: 200, exponent: 0.5 }
+
+/** What the supply delivered over the last step and how much of its quotas is used. */
+export interface SupplyStatus {
+  // Calendar day the daily use is counted for
+  day: number
+  // L
+  usedToday: number
+  usedSeason: number
+  // Flow called for and delivered over the last step (L/h)
+  demand: number
+  delivered: number
+  // Pressure at the emitters over the last step (kPa), null without a pressure model
+  pressure: number | null
+  // Volume called for but not delivered since the start (L)
+  unmetVolume: number
+  // Hours since the start when the quota ran out, null while it lasts
+  dailyQuotaReachedAt: number | null
+  seasonQuotaReachedAt: number | null
+  // Fraction of each zone's demand delivered over the last step; key 0 is the taps outside zones
+  zoneDelivery: Record<number, number>
+}
+
+export const initialSupplyStatus = (): SupplyStatus => ({
+  day: 0,
+  usedToday: 0,
+  usedSeason: 0,
+  demand: 0,
+  delivered: 0,
+  pressure: null,
+  unmetVolume: 0,
+  dailyQuotaReachedAt: null,
+  seasonQuotaReachedAt: null,
+  zoneDelivery: {},
+})
+
+// Flow the pressure model's friction is given at (L/h)
+const FRICTION_FLOW = 1000
+
+const pressureAt = (pressure: SupplyPressure, flow: number) =>
+  pressure.source - pressure.friction * (flow / FRICTION_FLOW) ** 2
+
+/**
+ * Fraction of the demand (L/h) the emitters deliver once the flow has pulled
+ * the pressure down, never more than their rated flow. Solves
+ * f = (p(D·f) / nominal)^exponent by bisection.
+ */
+export const pressureDelivery = (pressure: SupplyPressure, demand: number) => {
+  const delivers = (fraction: number) => {
+    const available = pressureAt(pressure, demand * fraction)
+    if (available <= 0 || pressure.nominal <= 0) return 0
+    return Math.min(1, (available / pressure.nominal) ** pressure.exponent)
+  }
+  if (delivers(1) >= 1) return 1
+  let low = 0
+  let high = 1
+  for (let i = 0; i < 50; i++) {
+    const middle = (low + high) / 2
+    if (middle < delivers(middle)) low = middle
+    else high = middle
+  }
+  return low
+}
+
+// Volume (L) left of a quota, with rounding leftovers counted as none
+const quotaLeft = (quota: number | null, used: number) => {
+  if (quota === null) return Infinity
+  const left = quota - used
+  return left > quota * 1e-9 ? left : 0
+}
+
+// Shares `available` among the demands, filling them in order and splitting proportionally within a rank
+const fillInOrder = (demands: Float64Array, ranks: Float64Array, available: number) => {
+  const order = Array.from(demands.keys()).filter((column) => demands[column] > 0).sort((a, b) => ranks[a] - ranks[b])
+  const delivered = new Float64Array(demands.length)
+  let left = available
+  let start = 0
+  // Stops at rounding leftovers rather than handing them to the next rank
+  while (start < order.length && left > available * 1e-9) {
+    let end = start
+    let rankDemand = 0
+    while (end < order.length && ranks[order[end]] === ranks[order[start]]) rankDemand += demands[order[end++]]
+    const share = Math.min(1, left / rankDemand)
+    for (let i = start; i < end; i++) delivered[order[i]] = demands[order[i]] * share
+    left -= rankDemand * share
+    start = end
+  }
+  return delivered
+}
+
+/**
+ * Limits the irrigation a step calls for (mm/h per column) to what the supply
+ * can deliver: the pressure the flow leaves at the emitters, the capacity,
+ * and what remains of the daily and season quotas. When the capacity or a
+ * quota runs short, the policy decides who gets water, judging how dry
+ * columns are from `estimate` like the irrigation plan. Returns the delivered
+ * rates and the supply status after the step.
+ */
+export const rationIrrigation = (
+  field: Field,
+  zones: IrrigationZone[],
+  supply: WaterSupply,
+  status: SupplyStatus,
+  rates: Float64Array,
+  clock: StepClock & { day: number },
+  estimate: Float64Array | null = null
+) => {
+  const area = cellArea(field)
+  const columns = rates.length
+  const demands = rates.map((rate) => rate * area)
+  const demand = demands.reduce((sum, flow) => sum + flow, 0)
+  const newDay = clock.day !== status.day
+  const usedToday = newDay ? 0 : status.usedToday
+  const dailyQuotaReachedAt = newDay ? null : status.dailyQuotaReachedAt
+
+  const pressureFraction = supply.pressure && demand > 0 ? pressureDelivery(supply.pressure, demand) : 1
+  const wanted = demands.map((flow) => flow * pressureFraction)
+  const dailyLeft = quotaLeft(supply.dailyQuota, usedToday)
+  const seasonLeft = quotaLeft(supply.seasonQuota, status.usedSeason)
+  const available = Math.min(supply.maxFlow ?? Infinity, dailyLeft / clock.duration, seasonLeft / clock.duration)
+
+  let delivered = wanted
+  const wantedTotal = demand * pressureFraction
+  if (wantedTotal > available) {
+    const ranks = new Float64Array(columns)
+    if (supply.policy === 'priority') {
+      const priorities = new Map(zones.map((zone) => [zone.id, zone.priority]))
+      // Taps outside zones come after every zone
+      for (let column = 0; column < columns; column++) ranks[column] = priorities.get(field.zone[column]) ?? Infinity
+    } else if (supply.policy === 'driest') {
+      for (let column = 0; column < columns; column++) {
+        const saturation = estimate ? estimate[column] : columnMoisture(field, column)
+        // Unknown columns share the last rank
+        ranks[column] = isNaN(saturation) ? Infinity : saturation
+      }
+    }
+    delivered = fillInOrder(wanted, ranks, available)
+  }
+  const deliveredTotal = delivered.reduce((sum, flow) => sum + flow, 0)
+
+  const zoneDemand = new Map<number, number>()
+  const zoneDelivered = new Map<number, number>()
+  const zoneIds = new Set(zones.map((zone) => zone.id))
+  for (let column = 0; column < columns; column++) {
+    if (demands[column] <= 0) continue
+    const id = zoneIds.has(field.zone[column]) ? field.zone[column] : 0
+    zoneDemand.set(id, (zoneDemand.get(id) ?? 0) + demands[column])
+    zoneDelivered.set(id, (zoneDelivered.get(id) ?? 0) + delivered[column])
+  }
+  const zoneDelivery: Record<number, number> = {}
+  zoneDemand.forEach((flow, id) => { zoneDelivery[id] = (zoneDelivered.get(id) ?? 0) / flow })
+
+  const volume = deliveredTotal * clock.duration
+  // When a quota is gone: at the start of the step if nothing was left of it, at its end if the step used it up
+  const reachedAt = (quota: number | null, left: number) => {
+    if (quota === null || demand === 0) return null
+    if (left === 0) return clock.elapsed
+    return quotaLeft(quota, quota - left + volume) === 0 ? clock.elapsed + clock.duration : null
+  }
+  return {
+    rates: delivered.map((flow) => flow / area),
+    status: {
+      day: clock.day,
+      usedToday: usedToday + volume,
+      usedSeason: status.usedSeason + volume,
+      demand,
+      delivered: deliveredTotal,
+      pressure: supply.pressure ? pressureAt(supply.pressure, deliveredTotal) : null,
+      unmetVolume: status.unmetVolume + (demand - deliveredTotal) * clock.duration,
+      dailyQuotaReachedAt: dailyQuotaReachedAt ?? reachedAt(supply.dailyQuota, dailyLeft),
+      seasonQuotaReachedAt: status.seasonQuotaReachedAt ?? reachedAt(supply.seasonQuota, seasonLeft),
+      zoneDelivery,
+    },
+  }
+}
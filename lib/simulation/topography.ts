@@ -0,0 +1,98 @@
+import type { FieldEdge } from './field'
+
+export type TopographySource = 'flat' | 'slope' | 'grid'
+
+export const topographySources: Record<TopographySource, string> = {
+  flat: 'Flat',
+  slope: 'Uniform Slope',
+  grid: 'Imported Elevation Grid',
+}
+
+export const fieldEdges: Record<FieldEdge, string> = {
+  top: 'Top',
+  bottom: 'Bottom',
+  left: 'Left',
+  right: 'Right',
+}
+
+/** Shape of the ground surface. */
+export interface Topography {
+  source: TopographySource
+  // Rise over run (%)
+  slope: number
+  // Direction the ground falls toward, degrees clockwise from the top of the grid
+  aspect: number
+  // Elevation per column, row-major (cm); used by the grid source
+  grid: Float64Array | null
+}
+
+export const defaultTopography: Topography = {
+  source: 'flat',
+  slope: 2,
+  aspect: 180,
+  grid: null,
+}
+
+/** Ground elevation per column, row-major (cm), with the lowest column at 0. */
+export const elevationMap = (rows: number, cols: number, cellSize: number, topography: Topography) => {
+  const elevation = new Float64Array(rows * cols)
+  if (topography.source === 'grid' && topography.grid?.length === rows * cols) {
+    elevation.set(topography.grid)
+  } else if (topography.source === 'slope') {
+    const angle = topography.aspect * Math.PI / 180
+    const dx = Math.sin(angle)
+    const dy = -Math.cos(angle)
+    for (let row = 0; row < rows; row++) {
+      for (let col = 0; col < cols; col++) {
+        elevation[row * cols + col] = -(col * dx + row * dy) * cellSize * topography.slope / 100
+      }
+    }
+  }
+  const lowest = elevation.reduce((min, value) => Math.min(min, value), Infinity)
+  return elevation.map((value) => value - lowest)
+}
+
+/**
+ * Reads an elevation grid from text with one line per row and values
+ * separated by commas, semicolons or whitespace, in `unitCm` centimetres per
+ * unit. Throws an error describing the problem if it is not a rows×cols grid
+ * of numbers.
+ */
+export const parseElevationGrid = (text: string, rows: number, cols: number, unitCm: number) => {
+  const lines = text.split(/\r?\n/).map((line) => line.trim()).filter((line) => line !== '')
+  if (lines.length !== rows) throw new Error(`Expected ${rows} rows of elevations, found ${lines.length}.`)
+  const grid = new Float64Array(rows * cols)
+  lines.forEach((line, row) => {
+    const values = line.split(/[\s,;]+/)
+    if (values.length !== cols) throw new Error(`Row ${row + 1} has ${values.length} values, expected ${cols}.`)
+    values.forEach((value, col) => {
+      const number = Number(value)
+      if (!isFinite(number)) throw new Error(`Row ${row + 1}, column ${col + 1}: "${value}" is not a number.`)
+      grid[row * cols + col] = number * unitCm
+    })
+  })
+  return grid
+}
+
+// Elevations travel in the query as whole millimetres
+const encodeElevationGrid = (grid: Float64Array) => Array.from(grid, (cm) => Math.round(cm * 10)).join(',')
+
+/** Reads an elevation grid written by topographyQuery, or returns null when it is damaged or not `size` columns. */
+export const decodeElevationGrid = (encoded: string, size: number) => {
+  const values = encoded.split(',').map(Number)
+  if (values.length !== size || values.some((value) => !isFinite(value))) return null
+  return Float64Array.from(values, (mm) => mm / 10)
+}
+
+/** Query parameters for a topography and outflow edge, only those its source uses. */
+export const topographyQuery = (topography: Topography, outflowEdge: FieldEdge | null): Record<string, string> => {
+  const query: Record<string, string> = {}
+  if (topography.source === 'slope') {
+    query.slope = String(topography.slope)
+    query.aspect = String(topography.aspect)
+  } else if (topography.source === 'grid' && topography.grid) {
+    query.elevationMap = encodeElevationGrid(topography.grid)
+  }
+  if (outflowEdge) query.outflowEdge = outflowEdge
+  return query
+}
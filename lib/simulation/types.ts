@@ -0,0 +1,32 @@
+import type { CropId } from './crops'
+import type { SoilTextureId } from './soil'
+
+export interface Cell {
+  moisture: number
+  soil: SoilTextureId
+  // Multiplier of the soil's hydraulic conductivity
+  diffusivityScale: number
+  tapStatus: boolean
+  overrideTap: boolean
+  crop: CropId | null
+  // Day of planting, counted from the start of the simulation
+  plantingDay: number
+  // Irrigation zone, 0 for none
+  zone: number
+}
+
+export interface SimulationParams {
+  // ET₀ used when no weather data supplies it (mm/h)
+  evapotranspirationRate: number
+  // Water applied to the surface while a tap is on (mm/h)
+  irrigationRate: number
+  // Degree of saturation of the profile below which taps open
+  moistureThreshold: number
+}
+
+/** Largest value the controls allow for each parameter; none can be negative. */
+export const maxParams: SimulationParams = { evapotranspirationRate: 2, irrigationRate: 50, moistureThreshold: 1 }
+
+// Range of the time step control (h)
+export const MIN_TIME_STEP = 0.1
+export const MAX_TIME_STEP = 24
@@ -0,0 +1,121 @@
+import { boundaryTypes, oppositeEdges, type EdgeBoundary } from './boundaries'
+import { controllers, type ZoneController } from './controllers'
+import { neighbourStencils } from './diffusion'
+import type { FieldEdge } from './field'
+import { boundaryError, customSoilError, numberInputError } from './setup-schema'
+import { customSoilParams, soilTextureIds } from './soil'
+import { rationingPolicies } from './supply'
+import { fieldEdges } from './topography'
+import { maxParams, MAX_TIME_STEP, MIN_TIME_STEP } from './types'
+import { emitterLayouts, MAX_ZONES } from './zones'
+
+// Checks of settings read back from a shared link or a saved file, which may have been edited by hand
+
+export const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value)
+
+export const isNumber = (value: unknown, min = -Infinity, max = Infinity): value is number =>
+  typeof value === 'number' && isFinite(value) && value >= min && value <= max
+
+const isNumberOrNull = (value: unknown) => value === null || isNumber(value, 0)
+
+// Whether every entry has a different id
+const uniqueIds = (entries: Record<string, unknown>[]) => new Set(entries.map((entry) => entry.id)).size === entries.length
+
+// A column index into a field of `columns` columns
+const isColumn = (value: unknown, columns: number) => Number.isInteger(value) && isNumber(value, 0, columns - 1)
+
+// Settings each controller type needs
+const controllerSettings: Record<ZoneController['type'], string[]> = {
+  hysteresis: ['low', 'high'],
+  schedule: [],
+  deficit: ['trigger'],
+  pid: ['setpoint', 'kp', 'ki', 'kd'],
+  manual: [],
+}
+
+const validController = (controller: unknown) =>
+  isObject(controller) &&
+  (controller.type as string) in controllers &&
+  controllerSettings[controller.type as ZoneController['type']].every((key) => isNumber(controller[key])) &&
+  (controller.type !== 'manual' || typeof controller.open === 'boolean')
+
+const validZone = (zone: unknown, columns: number) =>
+  isObject(zone) &&
+  Number.isInteger(zone.id) && isNumber(zone.id, 1, MAX_ZONES) &&
+  typeof zone.name === 'string' &&
+  validController(zone.controller) &&
+  isNumber(zone.flowRate, 0) &&
+  isObject(zone.emitters) && (zone.emitters.layout as string) in emitterLayouts && isNumber(zone.emitters.spacing, 1) &&
+  Array.isArray(zone.schedule) && zone.schedule.every((window) => isObject(window) && isNumber(window.start) && isNumber(window.duration, 0)) &&
+  Array.isArray(zone.sensors) && zone.sensors.every((column) => isColumn(column, columns)) &&
+  isNumber(zone.priority, 1)
+
+/** Whether irrigation zones are complete, with distinct ids and sensors inside a field of `columns` columns. */
+export const validZones = (zones: unknown, columns = Infinity): boolean =>
+  Array.isArray(zones) && zones.every((zone) => validZone(zone, columns)) && uniqueIds(zones)
+
+/** Whether a water supply has non-negative limits and pressures and a known rationing policy. */
+export const validSupply = (supply: unknown) =>
+  isObject(supply) &&
+  isNumberOrNull(supply.maxFlow) && isNumberOrNull(supply.dailyQuota) && isNumberOrNull(supply.seasonQuota) &&
+  (supply.pressure === null || (isObject(supply.pressure) &&
+    ['source', 'friction', 'nominal', 'exponent'].every((key) => isNumber((supply.pressure as Record<string, unknown>)[key], 0)))) &&
+  (supply.policy as string) in rationingPolicies
+
+/** Whether a sensor network has distinct probes inside a field of `columns` columns and sensible measurement errors. */
+export const validSensors = (sensors: unknown, columns = Infinity) =>
+  isObject(sensors) &&
+  Array.isArray(sensors.probes) &&
+  sensors.probes.every((probe) => isObject(probe) && Number.isInteger(probe.id) && isColumn(probe.column, columns)) &&
+  uniqueIds(sensors.probes) &&
+  isNumber(sensors.noise, 0) && isNumber(sensors.bias) && isNumber(sensors.drift) &&
+  isNumber(sensors.interval, 0) && isNumber(sensors.failureRate, 0) && typeof sensors.seed === 'string'
+
+/** Whether the simulation parameters are within what the controls allow. */
+export const validParams = (params: unknown) =>
+  isObject(params) &&
+  isNumber(params.evapotranspirationRate, 0, maxParams.evapotranspirationRate) &&
+  isNumber(params.irrigationRate, 0, maxParams.irrigationRate) &&
+  isNumber(params.moistureThreshold, 0, maxParams.moistureThreshold)
+
+export const validTimeStep = (timeStepSize: unknown) => isNumber(timeStepSize, MIN_TIME_STEP, MAX_TIME_STEP)
+
+export const validSite = (site: unknown) => isObject(site) && isNumber(site.latitude, -90, 90) && isNumber(site.elevation)
+
+/** Whether a texture palette has every texture in the order of soilTextureIds, each with valid van Genuchten parameters. */
+export const validSoils = (soils: unknown) =>
+  Array.isArray(soils) && soils.length === soilTextureIds.length &&
+  soils.every((soil, i) =>
+    isObject(soil) && soil.id === soilTextureIds[i] && typeof soil.name === 'string' &&
+    customSoilParams.every((key) => isNumber(soil[key])) &&
+    customSoilError(customSoilParams.map((key) => soil[key] as number)) === null
+  )
+
+/** Explains what is wrong with the boundaries at the edges of a field, or returns null. */
+export const boundariesError = (boundaries: unknown) => {
+  if (!isObject(boundaries)) return 'The edge boundaries are missing.'
+  for (const edge of Object.keys(fieldEdges) as FieldEdge[]) {
+    const boundary = boundaries[edge]
+    if (!isObject(boundary) || !((boundary.type as string) in boundaryTypes)) {
+      return `The ${fieldEdges[edge].toLowerCase()} edge boundary must be one of ${Object.keys(boundaryTypes).join(', ')}.`
+    }
+    // boundaryError compares numbers, so anything else in their place reads as NaN
+    const amount = boundary.type === 'fixedMoisture' ? 'moisture' : boundary.type === 'fixedFlux' ? 'flux' : null
+    const checked = amount && !isNumber(boundary[amount]) ? { ...boundary, [amount]: NaN } : boundary
+    const error = boundaryError(edge, checked as unknown as EdgeBoundary)
+    if (error) return error
+    if ((boundary.type === 'periodic') !== ((boundaries[oppositeEdges[edge]] as EdgeBoundary | undefined)?.type === 'periodic')) {
+      return `The ${fieldEdges[edge].toLowerCase()} and ${oppositeEdges[edge]} edges must both be periodic or neither.`
+    }
+  }
+  return null
+}
+
+/** Whether the lateral diffusion has a known stencil and multipliers within the setup's limits. */
+export const validLateralDiffusion = (diffusion: unknown) =>
+  isObject(diffusion) &&
+  (diffusion.stencil as string) in neighbourStencils &&
+  isNumber(diffusion.along) && numberInputError('diffusionAlong', diffusion.along) === null &&
+  isNumber(diffusion.across) && numberInputError('diffusionAcross', diffusion.across) === null &&
+  isNumber(diffusion.angle)
@@ -0,0 +1,15 @@
+import { describe, expect, it } from 'vitest'
+import { parseWeatherCsv } from './weather'
+
+describe('parseWeatherCsv', () => {
+  it('sorts the rows and takes the interval from the last two', () => {
+    const series = parseWeatherCsv('time,rain\n2026-05-01 02:00,1\n2026-05-01 00:00,0\n2026-05-01 01:00,2')
+    expect(series.records.map((record) => record.rainfall)).toEqual([0, 2, 1])
+    expect(series.interval).toBe(1)
+  })
+
+  it('rejects a repeated timestamp anywhere in the file with its row', () => {
+    const text = 'time,rain\n2026-05-01 03:00,0\n2026-05-01 00:00,0\n2026-05-01 02:00,0\n2026-05-01 00:00,1'
+    expect(() => parseWeatherCsv(text)).toThrow('Row 5: the timestamp repeats row 3.')
+  })
+})
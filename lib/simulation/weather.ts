@@ -0,0 +1,191 @@
+/**
+ * One row of a weather file. Amounts (rainfall, solar radiation, ET₀) are
+ * totals over the period from this record to the next one.
+ */
+export interface WeatherRecord {
+  // Start of the period (ms since epoch, UTC)
+  time: number
+  // mm
+  rainfall: number
+  // °C
+  temperature?: number
+  // Daily minimum and maximum temperature (°C)
+  temperatureMin?: number
+  temperatureMax?: number
+  // Relative humidity (%)
+  humidity?: number
+  // Wind speed at 2 m (m/s)
+  windSpeed?: number
+  // MJ/m²
+  solarRadiation?: number
+  // Reference evapotranspiration (mm)
+  referenceET?: number
+  // Where referenceET came from when it was not in the file
+  referenceETMethod?: ReferenceETMethod
+}
+
+export type ReferenceETMethod = 'measured' | 'penman-monteith' | 'hargreaves'
+
+export interface WeatherSeries {
+  name: string
+  records: WeatherRecord[]
+  // Length of the last record's period, taken from the one before it (hours)
+  interval: number
+}
+
+/** Mean rates over a stretch of time; null where the series has no data. */
+export interface WeatherForcing {
+  // mm/h
+  rainfall: number
+  // mm/h
+  referenceET: number | null
+}
+
+type WeatherColumn = Exclude<keyof WeatherRecord, 'referenceETMethod'>
+
+const columnAliases: Record<WeatherColumn, string[]> = {
+  time: ['timestamp', 'time', 'date', 'datetime'],
+  rainfall: ['rainfall', 'rain', 'precipitation', 'precip'],
+  temperature: ['temperature', 'temp', 'tmean', 'air_temperature'],
+  temperatureMin: ['tmin', 'temperature_min', 'min_temperature'],
+  temperatureMax: ['tmax', 'temperature_max', 'max_temperature'],
+  humidity: ['humidity', 'rh', 'relative_humidity'],
+  windSpeed: ['wind', 'wind_speed', 'windspeed', 'u2'],
+  solarRadiation: ['solar_radiation', 'solar', 'radiation', 'rs'],
+  referenceET: ['et0', 'eto', 'et₀', 'reference_et', 'reference_evapotranspiration'],
+}
+
+const HOUR = 3600 * 1000
+
+const parseTimestamp = (value: string) => {
+  let normalized = value.trim().replace(' ', 'T')
+  // Dates without a zone are read as UTC so that hourly and daily files line up
+  if (/T\d{2}:\d{2}(:\d{2}(\.\d+)?)?$/.test(normalized)) normalized += 'Z'
+  return Date.parse(normalized)
+}
+
+/**
+ * Parses a comma or semicolon separated weather file with a header row. Only
+ * a timestamp column is required; missing rainfall is read as no rain.
+ */
+export const parseWeatherCsv = (text: string, name = 'Weather data'): WeatherSeries => {
+  const lines = text.split(/\r?\n/).filter((line) => line.trim() !== '')
+  if (lines.length < 2) {
+    throw new Error('The weather file needs a header row and at least one data row.')
+  }
+
+  const delimiter = lines[0].includes(';') && !lines[0].includes(',') ? ';' : ','
+  const header = lines[0].split(delimiter).map((cell) => cell.trim().toLowerCase().replace(/\s+/g, '_'))
+  const columns: Partial<Record<WeatherColumn, number>> = {}
+  for (const [column, aliases] of Object.entries(columnAliases)) {
+    const position = header.findIndex((cell) => aliases.includes(cell.replace(/\(.*\)$/, '').replace(/_$/, '')))
+    if (position !== -1) columns[column as WeatherColumn] = position
+  }
+  if (columns.time === undefined) {
+    throw new Error(`No timestamp column found. Expected one of: ${columnAliases.time.join(', ')}.`)
+  }
+
+  const rows = lines.slice(1).map((line, lineIndex) => {
+    const cells = line.split(delimiter)
+    const time = parseTimestamp(cells[columns.time!] ?? '')
+    if (isNaN(time)) {
+      throw new Error(`Row ${lineIndex + 2}: "${cells[columns.time!]}" is not a valid timestamp.`)
+    }
+    const read = (column: WeatherColumn) => {
+      const position = columns[column]
+      if (position === undefined || cells[position] === undefined || cells[position].trim() === '') return undefined
+      const value = parseFloat(cells[position])
+      if (isNaN(value)) {
+        throw new Error(`Row ${lineIndex + 2}: "${cells[position]}" is not a number in column "${header[position]}".`)
+      }
+      return value
+    }
+    const record: WeatherRecord = { time, rainfall: read('rainfall') ?? 0 }
+    const optional: Exclude<WeatherColumn, 'time' | 'rainfall'>[] = [
+      'temperature', 'temperatureMin', 'temperatureMax', 'humidity', 'windSpeed', 'solarRadiation', 'referenceET',
+    ]
+    optional.forEach((column) => {
+      const value = read(column)
+      if (value !== undefined) record[column] = value
+    })
+    if (record.referenceET !== undefined) record.referenceETMethod = 'measured'
+    return { record, row: lineIndex + 2 }
+  }).sort((a, b) => a.record.time - b.record.time || a.row - b.row)
+
+  for (let i = 1; i < rows.length; i++) {
+    if (rows[i].record.time === rows[i - 1].record.time) {
+      throw new Error(`Row ${rows[i].row}: the timestamp repeats row ${rows[i - 1].row}.`)
+    }
+  }
+  const records = rows.map(({ record }) => record)
+  const interval = records.length > 1
+    ? (records[records.length - 1].time - records[records.length - 2].time) / HOUR
+    : 24
+  return { name, records, interval }
+}
+
+export const seriesStart = (series: WeatherSeries) => series.records[0].time
+
+export const seriesEnd = (series: WeatherSeries) =>
+  series.records[series.records.length - 1].time + series.interval * HOUR
+
+const periodEnd = (series: WeatherSeries, index: number) =>
+  index + 1 < series.records.length ? series.records[index + 1].time : seriesEnd(series)
+
+/** Length of the period starting at record `index` (hours). */
+export const periodHours = (series: WeatherSeries, index: number) =>
+  (periodEnd(series, index) - series.records[index].time) / HOUR
+
+/** Index of the record covering `time`, or -1 outside the series. */
+export const recordIndexAt = (series: WeatherSeries, time: number) => {
+  const { records } = series
+  if (time < records[0].time || time >= seriesEnd(series)) return -1
+  let low = 0
+  let high = records.length - 1
+  while (low < high) {
+    const middle = Math.ceil((low + high) / 2)
+    if (records[middle].time <= time) low = middle
+    else high = middle - 1
+  }
+  return low
+}
+
+/**
+ * Mean rainfall and ET₀ rates between `hoursFrom` and `hoursTo`, counted in
+ * hours from the start of the series. Time outside the series has no rain and
+ * no ET₀.
+ */
+export const weatherForcing = (series: WeatherSeries, hoursFrom: number, hoursTo: number): WeatherForcing => {
+  const from = seriesStart(series) + hoursFrom * HOUR
+  const to = seriesStart(series) + hoursTo * HOUR
+  let rainfall = 0
+  let referenceET = 0
+  let etHours = 0
+
+  for (let index = Math.max(0, recordIndexAt(series, from)); index < series.records.length; index++) {
+    const record = series.records[index]
+    const start = record.time
+    const end = periodEnd(series, index)
+    if (start >= to) break
+    const overlap = (Math.min(end, to) - Math.max(start, from)) / HOUR
+    if (overlap <= 0) continue
+    const fraction = overlap / ((end - start) / HOUR)
+    rainfall += record.rainfall * fraction
+    if (record.referenceET !== undefined) {
+      referenceET += record.referenceET * fraction
+      etHours += overlap
+    }
+  }
+
+  const hours = hoursTo - hoursFrom
+  return {
+    rainfall: hours > 0 ? rainfall / hours : 0,
+    referenceET: etHours > 0 ? referenceET / etHours : null,
+  }
+}
+
+/** Formats a series timestamp as `YYYY-MM-DD HH:mm` (UTC, like the parser). */
+export const formatWeatherTime = (time: number) => new Date(time).toISOString().slice(0, 16).replace('T', ' ')
+
+/** Timestamp of a point `hours` after the start of the series. */
+export const timeAtHours = (series: WeatherSeries, hours: number) => seriesStart(series) + hours * HOUR
@@ -0,0 +1,83 @@
+import type { Field } from './field'
+import type { SimulationState } from './engine'
+import type { StabilityReport } from './stability'
+import type { SimulationParams } from './types'
+import type { WeatherSeries } from './weather'
+
+export type SimulationSpeed = 'realtime' | '1x' | '10x' | '100x' | 'max'
+
+export const simulationSpeeds: { id: SimulationSpeed; name: string }[] = [
+  { id: 'realtime', name: 'Real time' },
+  { id: '1x', name: '1× (1 step/s)' },
+  { id: '10x', name: '10× (10 steps/s)' },
+  { id: '100x', name: '100× (100 steps/s)' },
+  { id: 'max', name: 'As fast as possible' },
+]
+
+/** Steps per second of wall-clock time; real time advances one simulated hour per hour. */
+export const stepsPerSecond = (speed: SimulationSpeed, timeStepSize: number) => {
+  switch (speed) {
+    case 'realtime':
+      return 1 / (timeStepSize * 3600)
+    case '1x':
+      return 1
+    case '10x':
+      return 10
+    case '100x':
+      return 100
+    case 'max':
+      return Infinity
+  }
+}
+
+// Where a run stops on its own: after a number of steps or at a simulated time (hours since the start)
+export type RunLimit = { steps: number } | { hours: number }
+
+export type WorkerRequest =
+  // Replaces the worker's state; states it sends back carry the revision they descend from
+  | { type: 'load'; state: SimulationState; revision: number }
+  | { type: 'configure'; params: SimulationParams; timeStepSize: number; weather: WeatherSeries | null }
+  // `run` numbers each run and pause so replies to an earlier one can be told apart
+  | { type: 'run'; run: number; speed: SimulationSpeed; limit: RunLimit | null }
+  | { type: 'speed'; speed: SimulationSpeed }
+  | { type: 'pause'; run: number }
+
+/** Checks of a state that each take a pass over every cell, made in the worker so the page does not have to. */
+export interface StateDiagnostics {
+  stability: StabilityReport
+  // Water stored in the profile and ponded (mm)
+  storage: number
+}
+
+/** What the page shows of a state that takes a pass over the grid to work out, made in the worker with every state it sends. */
+export interface StateView {
+  // Taps of the columns outside every zone, with zoned columns closed as their valve stands for them; null without zones
+  unzonedTaps: Uint8Array | null
+  // RMS difference between the probes' interpolated moisture and the true moisture, null without readings
+  sensedError: number | null
+}
+
+export type WorkerResponse =
+  | { type: 'state'; state: SimulationState; view: StateView; revision: number; run: number; running: boolean }
+  // The view of a state the page loaded, which the worker does not send back
+  | { type: 'view'; view: StateView; revision: number }
+  | { type: 'diagnostics'; diagnostics: StateDiagnostics; revision: number }
+  | { type: 'error'; message: string; revision: number; run: number }
+
+/** Buffers of a field's typed arrays, to transfer it between threads instead of copying. */
+export const fieldTransferables = (field: Field): ArrayBuffer[] => [
+  field.soil.buffer,
+  field.moisture.buffer,
+  field.diffusivityScale.buffer,
+  field.tapStatus.buffer,
+  field.overrideTap.buffer,
+  field.crop.buffer,
+  field.plantingDay.buffer,
+  field.potentialET.buffer,
+  field.actualET.buffer,
+  field.elevation.buffer,
+  field.ponding.buffer,
+  field.runoffX.buffer,
+  field.runoffY.buffer,
+  field.zone.buffer,
+] as ArrayBuffer[]
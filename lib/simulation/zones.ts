@@ -0,0 +1,193 @@
+import {
+  columnDeficit,
+  defaultController,
+  runController,
+  type ControllerMemory,
+  type ScheduleWindow,
+  type ZoneController,
+} from './controllers'
+import { columnMoisture, type Field } from './field'
+import type { SimulationParams } from './types'
+
+// Zone ids are stored per column in a byte, 0 meaning no zone
+export const MAX_ZONES = 255
+
+export type EmitterLayout = 'flood' | 'drip' | 'sprinkler'
+
+export const emitterLayouts: Record<EmitterLayout, string> = {
+  flood: 'Flood (every cell)',
+  drip: 'Drip Emitters',
+  sprinkler: 'Sprinkler Heads',
+}
+
+/** Group of columns fed by one valve. Columns belong to a zone through `Field.zone`. */
+export interface IrrigationZone {
+  id: number
+  name: string
+  controller: ZoneController
+  // Water through the open valve (L/h), shared among the zone's emitters
+  flowRate: number
+  emitters: {
+    layout: EmitterLayout
+    // Cells between emitters or sprinkler heads, along rows and columns
+    spacing: number
+  }
+  schedule: ScheduleWindow[]
+  // Columns whose moisture the controller reads; the whole zone when empty
+  sensors: number[]
+  // Order in which a short supply serves zones, 1 first
+  priority: number
+}
+
+export interface ValveState {
+  open: boolean
+  // Fraction of the last step the valve was open
+  openFraction: number
+  // What the controller read at the start of the last step and what it carries to the next
+  saturation: number | null
+  deficit: number | null
+  memory: ControllerMemory
+}
+
+// Application rate (mm/h) a new zone starts with
+const DEFAULT_APPLICATION_RATE = 5
+
+/** Cell area in m², so that L over it is a depth in mm. */
+export const cellArea = (field: Field) => (field.cellSize / 100) ** 2
+
+/** Next free zone id, or null when all are taken. */
+export const nextZoneId = (zones: IrrigationZone[]) => {
+  for (let id = 1; id <= MAX_ZONES; id++) {
+    if (!zones.some((zone) => zone.id === id)) return id
+  }
+  return null
+}
+
+export const createZone = (id: number, field: Field, cells: number, threshold: number): IrrigationZone => ({
+  id,
+  name: `Zone ${id}`,
+  controller: defaultController('hysteresis', threshold),
+  flowRate: DEFAULT_APPLICATION_RATE * Math.max(cells, 1) * cellArea(field),
+  emitters: { layout: 'flood', spacing: 3 },
+  schedule: [{ start: 6, duration: 1 }],
+  sensors: [],
+  priority: 1,
+})
+
+export const zoneColumns = (field: Field, id: number) => {
+  const columns: number[] = []
+  for (let column = 0; column < field.rows * field.cols; column++) {
+    if (field.zone[column] === id) columns.push(column)
+  }
+  return columns
+}
+
+/**
+ * Share of the zone's flow each of its columns receives, summing to 1.
+ * Drip emitters sit on a lattice `spacing` cells apart; sprinkler heads on
+ * the same lattice wet the cells around them, less with distance.
+ */
+export const emitterWeights = (field: Field, zone: IrrigationZone, columns: number[]) => {
+  const { layout } = zone.emitters
+  const spacing = Math.max(1, Math.round(zone.emitters.spacing))
+  const weights = columns.map((column) => {
+    const row = Math.floor(column / field.cols)
+    const col = column % field.cols
+    if (layout === 'flood') return 1
+    const rowOffset = row % spacing
+    const colOffset = col % spacing
+    if (layout === 'drip') return rowOffset === 0 && colOffset === 0 ? 1 : 0
+    // Distance to the nearest head, whose throw reaches the neighbouring heads
+    const distance = Math.hypot(Math.min(rowOffset, spacing - rowOffset), Math.min(colOffset, spacing - colOffset))
+    return Math.max(0, 1 - distance / spacing)
+  })
+  const total = weights.reduce((sum, weight) => sum + weight, 0)
+  return total > 0 ? weights.map((weight) => weight / total) : weights
+}
+
+// The zone's sensor columns still inside it, or the whole zone without any
+const sensorColumns = (field: Field, zone: IrrigationZone, columns: number[]) => {
+  const sensors = zone.sensors.filter((column) => field.zone[column] === zone.id)
+  return sensors.length > 0 ? sensors : columns
+}
+
+// Null without columns or when a value is unknown (NaN)
+const mean = (columns: number[], value: (column: number) => number) => {
+  const total = columns.reduce((sum, column) => sum + value(column), 0) / columns.length
+  return isNaN(total) ? null : total
+}
+
+/** Irrigation over one step: the application rate per column and the state of every valve. */
+export interface IrrigationPlan {
+  // mm/h per column
+  rates: Float64Array
+  // 1 where water is applied
+  tapStatus: Uint8Array
+  valves: Record<number, ValveState>
+}
+
+/** Timing of a step: hours since the start, hour of the day and length (h). */
+export interface StepClock {
+  elapsed: number
+  hourOfDay: number
+  duration: number
+}
+
+/**
+ * Decides the valves for a step, each zone by its controller, carrying the
+ * controllers' memory over from `valves` of the step before. Columns outside
+ * any defined zone keep a tap of their own that opens below the moisture
+ * threshold parameter. A forced tap overrides both: on applies the
+ * irrigation rate parameter, off applies nothing. Decisions read `estimate`,
+ * the profile saturation per column as sensed (NaN where unknown), or the
+ * true moisture without one.
+ */
+export const planIrrigation = (
+  field: Field,
+  zones: IrrigationZone[],
+  valves: Record<number, ValveState>,
+  params: SimulationParams,
+  clock: StepClock,
+  estimate: Float64Array | null = null
+): IrrigationPlan => {
+  const columns = field.rows * field.cols
+  const saturationAt = (column: number) => estimate ? estimate[column] : columnMoisture(field, column)
+  const rates = new Float64Array(columns)
+  const nextValves: Record<number, ValveState> = {}
+  // Columns painted with a zone that has since been deleted count as outside any zone
+  const zoneIds = new Set(zones.map((zone) => zone.id))
+  for (let column = 0; column < columns; column++) {
+    if (!zoneIds.has(field.zone[column]) && saturationAt(column) < params.moistureThreshold) {
+      rates[column] = params.irrigationRate
+    }
+  }
+  const area = cellArea(field)
+  for (const zone of zones) {
+    const zoneCells = zoneColumns(field, zone.id)
+    const sensors = sensorColumns(field, zone, zoneCells)
+    const saturation = mean(sensors, saturationAt)
+    const deficit = mean(sensors, (column) => estimate
+      ? columnDeficit(field, column, clock.elapsed / 24, estimate[column])
+      : columnDeficit(field, column, clock.elapsed / 24))
+    const reading = {
+      saturation,
+      deficit,
+      hourOfDay: clock.hourOfDay,
+      duration: clock.duration,
+      applicationRate: zoneCells.length > 0 ? zone.flowRate / (zoneCells.length * area) : 0,
+    }
+    const { openFraction, memory } = runController(zone.controller, valves[zone.id]?.memory ?? {}, reading, zone.schedule)
+    nextValves[zone.id] = { open: openFraction > 0, openFraction, saturation, deficit, memory }
+    if (openFraction === 0) continue
+    const weights = emitterWeights(field, zone, zoneCells)
+    zoneCells.forEach((column, i) => {
+      rates[column] = zone.flowRate * weights[i] / area * openFraction
+    })
+  }
+  const tapStatus = new Uint8Array(columns)
+  for (let column = 0; column < columns; column++) {
+    if (field.overrideTap[column] === 1) rates[column] = field.tapStatus[column] === 1 ? params.irrigationRate : 0
+    tapStatus[column] = rates[column] > 0 ? 1 : 0
+  }
+  return { rates, tapStatus, valves: nextValves }
+}
@@ -0,0 +1,154 @@
+import type { MoistureUnit, Units } from '@/lib/settings'
+import { soilAtIndex, type Field } from '@/lib/simulation/field'
+
+// The simulation works in mm/h for rates, mm for water depths, cm for soil
+// depths, L/h for flows, L for volumes and kPa for pressures; these helpers
+// convert to and from what the settings ask to show.
+
+export const MM_PER_INCH = 25.4
+export const CM_PER_INCH = 2.54
+export const LITERS_PER_GALLON = 3.785411784
+export const KPA_PER_PSI = 6.894757
+
+export const rateUnit = (units: Units) => units === 'metric' ? 'mm/h' : 'in/h'
+
+export const toDisplayRate = (mmPerHour: number, units: Units) =>
+  units === 'metric' ? mmPerHour : mmPerHour / MM_PER_INCH
+
+export const fromDisplayRate = (value: number, units: Units) =>
+  units === 'metric' ? value : value * MM_PER_INCH
+
+export const flowUnit = (units: Units) => units === 'metric' ? 'L/h' : 'gal/h'
+
+export const toDisplayFlow = (litersPerHour: number, units: Units) =>
+  units === 'metric' ? litersPerHour : litersPerHour / LITERS_PER_GALLON
+
+export const fromDisplayFlow = (value: number, units: Units) =>
+  units === 'metric' ? value : value * LITERS_PER_GALLON
+
+export const volumeUnit = (units: Units) => units === 'metric' ? 'L' : 'gal'
+
+export const toDisplayVolume = (liters: number, units: Units) =>
+  units === 'metric' ? liters : liters / LITERS_PER_GALLON
+
+export const fromDisplayVolume = (value: number, units: Units) =>
+  units === 'metric' ? value : value * LITERS_PER_GALLON
+
+export const pressureUnit = (units: Units) => units === 'metric' ? 'kPa' : 'psi'
+
+export const toDisplayPressure = (kPa: number, units: Units) =>
+  units === 'metric' ? kPa : kPa / KPA_PER_PSI
+
+export const fromDisplayPressure = (value: number, units: Units) =>
+  units === 'metric' ? value : value * KPA_PER_PSI
+
+export const waterDepthUnit = (units: Units) => units === 'metric' ? 'mm' : 'in'
+
+export const toDisplayWaterDepth = (mm: number, units: Units) =>
+  units === 'metric' ? mm : mm / MM_PER_INCH
+
+export const fromDisplayWaterDepth = (value: number, units: Units) =>
+  units === 'metric' ? value : value * MM_PER_INCH
+
+export const formatWaterDepth = (mm: number, units: Units) =>
+  `${toDisplayWaterDepth(mm, units).toFixed(units === 'metric' ? 2 : 3)} ${waterDepthUnit(units)}`
+
+export const soilDepthUnit = (units: Units) => units === 'metric' ? 'cm' : 'in'
+
+export const toDisplaySoilDepth = (cm: number, units: Units) =>
+  units === 'metric' ? cm : cm / CM_PER_INCH
+
+export const fromDisplaySoilDepth = (value: number, units: Units) =>
+  units === 'metric' ? value : value * CM_PER_INCH
+
+export const formatSoilDepth = (cm: number, units: Units) =>
+  `${toDisplaySoilDepth(cm, units).toFixed(units === 'metric' ? 0 : 1)} ${soilDepthUnit(units)}`
+
+/** What a degree of saturation is relative to: the soil's porosity and the thickness of soil (cm) holding the water. */
+export interface MoistureBasis {
+  porosity: number
+  thickness: number
+}
+
+export const moistureUnitLabel = (moistureUnit: MoistureUnit, units: Units) => {
+  switch (moistureUnit) {
+    case 'percentage':
+      return '%'
+    case 'volumetric':
+      return 'm³/m³'
+    case 'depth':
+      return waterDepthUnit(units)
+  }
+}
+
+export const moistureUnitName = (moistureUnit: MoistureUnit) => {
+  switch (moistureUnit) {
+    case 'percentage':
+      return 'Saturation'
+    case 'volumetric':
+      return 'Volumetric Water Content θ'
+    case 'depth':
+      return 'Water Stored'
+  }
+}
+
+export const toDisplayMoisture = (saturation: number, basis: MoistureBasis, moistureUnit: MoistureUnit, units: Units) => {
+  switch (moistureUnit) {
+    case 'percentage':
+      return saturation * 100
+    case 'volumetric':
+      return saturation * basis.porosity
+    case 'depth':
+      return toDisplayWaterDepth(saturation * basis.porosity * basis.thickness * 10, units)
+  }
+}
+
+export const fromDisplayMoisture = (value: number, basis: MoistureBasis, moistureUnit: MoistureUnit, units: Units) => {
+  switch (moistureUnit) {
+    case 'percentage':
+      return value / 100
+    case 'volumetric':
+      return value / basis.porosity
+    case 'depth':
+      return value * (units === 'metric' ? 1 : MM_PER_INCH) / (basis.porosity * basis.thickness * 10)
+  }
+}
+
+/** Input step for moisture in the given unit. */
+export const moistureStep = (moistureUnit: MoistureUnit, units: Units) =>
+  moistureUnit === 'percentage' ? 1 : moistureUnit === 'volumetric' ? 0.01 : units === 'metric' ? 1 : 0.05
+
+const moistureDigits = (moistureUnit: MoistureUnit, units: Units) =>
+  moistureUnit === 'percentage' ? 1 : moistureUnit === 'volumetric' ? 3 : units === 'metric' ? 1 : 2
+
+export const roundMoisture = (value: number, moistureUnit: MoistureUnit, units: Units) =>
+  parseFloat(value.toFixed(moistureDigits(moistureUnit, units)))
+
+export const formatMoisture = (saturation: number, basis: MoistureBasis, moistureUnit: MoistureUnit, units: Units) => {
+  const value = toDisplayMoisture(saturation, basis, moistureUnit, units).toFixed(moistureDigits(moistureUnit, units))
+  return moistureUnit === 'percentage' ? `${value}%` : `${value} ${moistureUnitLabel(moistureUnit, units)}`
+}
+
+export const cellMoistureBasis = (field: Field, index: number): MoistureBasis => ({
+  porosity: soilAtIndex(field, index).porosity,
+  thickness: field.layerThickness[Math.floor(index / (field.rows * field.cols))],
+})
+
+/**
+ * Saturation of a whole column with the basis to show it against, weighting
+ * each layer by the water it can hold so water depths add up.
+ */
+export const columnMoistureBasis = (field: Field, column: number) => {
+  const columns = field.rows * field.cols
+  let capacity = 0
+  let stored = 0
+  let thickness = 0
+  for (let layer = 0; layer < field.layers; layer++) {
+    const index = layer * columns + column
+    const layerCapacity = soilAtIndex(field, index).porosity * field.layerThickness[layer]
+    capacity += layerCapacity
+    stored += field.moisture[index] * layerCapacity
+    thickness += field.layerThickness[layer]
+  }
+  return { saturation: stored / capacity, basis: { porosity: capacity / thickness, thickness } }
+}